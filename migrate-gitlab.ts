@@ -5,10 +5,17 @@
  * @description 专门用于 GitLab 仓库之间的迁移，支持镜像克隆、仓库创建、描述更新等功能
  */
 
-import { execSync } from 'child_process';
-import { readFileSync, writeFileSync, existsSync, rmSync, mkdirSync, readdirSync, statSync } from 'fs';
+import { execSync, spawn } from 'child_process';
+import { readFileSync, writeFileSync, existsSync, rmSync, mkdirSync, readdirSync, statSync, renameSync, createReadStream, createWriteStream, openAsBlob } from 'fs';
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import { format } from 'util';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
 import * as path from 'path';
 import * as readline from 'readline';
+import YAML from 'yaml';
 
 /**
  * 控制台颜色工具类
@@ -118,6 +125,90 @@ type TRepository = {
   description: string;
   /** 原仓库地址 */
   originalUrl: string;
+  /** 目标项目路径（默认与项目名称相同） */
+  targetPath?: string;
+  /** 目标命名空间的完整路径（默认为全局目标分组） */
+  targetNamespace?: string;
+  /** 目标项目可见性（默认 internal） */
+  visibility?: string;
+  /** 目标项目默认分支 */
+  defaultBranch?: string;
+  /** 目标项目主题 */
+  topics?: string[];
+  /** 目标位置已存在非空项目时的处理策略（默认使用全局的 --on-conflict） */
+  onConflict?: TConflictPolicy;
+  /** rename-pattern 策略的命名模式（默认使用全局的 --rename-pattern） */
+  renamePattern?: string;
+};
+
+/**
+ * 从源分组发现项目时的筛选选项
+ */
+type TDiscoverOptions = {
+  /** 是否包含子分组中的项目 */
+  includeSubgroups?: boolean;
+  /** 是否包含已归档的项目 */
+  includeArchived?: boolean;
+  /** 是否包含派生（fork）项目 */
+  includeForks?: boolean;
+  /** 是否使用 SSH 仓库地址（默认使用 HTTPS 地址） */
+  useSshUrl?: boolean;
+};
+
+/**
+ * 回滚迁移的选项
+ */
+type TRollbackOptions = {
+  /** 归档目标项目而不是删除 */
+  archive?: boolean;
+  /** 跳过确认提示 */
+  yes?: boolean;
+};
+
+/**
+ * 离线迁移清单中的单个 bundle 文件
+ */
+type TBundleFile = {
+  /** 相对于清单所在目录的文件名 */
+  file: string;
+  /** 文件大小（字节） */
+  size: number;
+  /** 文件的 SHA-256 校验和 */
+  sha256: string;
+};
+
+/**
+ * 离线迁移清单中的单个仓库
+ */
+type TBundleManifestEntry = {
+  /** 项目名称，与配置文件中的名称一致 */
+  name: string;
+  /** 项目描述 */
+  description: string;
+  /** 原仓库地址 */
+  originalUrl: string;
+  /** 源仓库的默认分支 */
+  defaultBranch?: string;
+  /** 仓库 bundle */
+  bundle: TBundleFile;
+  /** Wiki 仓库 bundle（源项目没有 Wiki 时为 undefined） */
+  wiki?: TBundleFile;
+  /** 导出时的分支和标签 */
+  refs: Record<string, string>;
+  /** 导出时间 */
+  exportedAt: string;
+};
+
+/**
+ * 离线迁移清单（manifest.json），与 bundle 文件一起拷贝到目标网络
+ */
+type TBundleManifest = {
+  /** 清单格式版本 */
+  version: number;
+  /** 最后更新时间 */
+  updatedAt: string;
+  /** 已导出的仓库 */
+  repositories: TBundleManifestEntry[];
 };
 
 /**
@@ -128,8 +219,49 @@ type TMigrationConfig = {
   targetGroup: string;
   /** 需要迁移的仓库列表 */
   repositories: TRepository[];
+  /** 目标 GitLab Access Token */
+  accessToken?: string;
+  /** 读取目标 Access Token 的环境变量名 */
+  accessTokenEnv?: string;
+  /** 源 GitLab Access Token */
+  sourceAccessToken?: string;
+  /** 读取源 Access Token 的环境变量名 */
+  sourceAccessTokenEnv?: string;
+};
+
+/**
+ * 配置文件格式
+ */
+type TConfigFormat = 'markdown' | 'yaml' | 'json';
+
+/**
+ * 配置文件解析结果
+ */
+type TConfigParseResult = {
+  config: TMigrationConfig;
+  /** 每个仓库在配置文件中的位置，用于错误提示，如 "第12行"、"repositories[2]" */
+  locations: string[];
+  /** 解析错误 */
+  errors: string[];
 };
 
+/**
+ * 迁移方式
+ * - push: 克隆源仓库镜像后推送到新建的目标仓库
+ * - export-import: 使用 GitLab 项目导出/导入接口整体迁移
+ */
+type TMigrationMode = 'push' | 'export-import';
+
+/**
+ * 目标位置已存在非空项目时的处理策略
+ * - fail: 迁移失败（默认）
+ * - skip: 跳过该仓库并记录原因
+ * - suffix: 改用追加 -migrated 后缀的路径，仍被占用时依次追加序号
+ * - rename-pattern: 按命名模式生成新的路径
+ * - push-into: 提交历史兼容时推送到已存在的项目
+ */
+type TConflictPolicy = 'fail' | 'skip' | 'suffix' | 'rename-pattern' | 'push-into';
+
 /**
  * 错误类型枚举
  */
@@ -162,6 +294,22 @@ type TMigrationStep = {
   warnings?: string[];
 };
 
+/**
+ * 已在目标项目中创建、评论和状态尚未迁移完的对象（议题等）
+ */
+type TPendingContent = {
+  /** 源对象的 iid */
+  sourceIid: number;
+  /** 目标对象的 iid */
+  targetIid: number;
+  /** 已复制的评论数量 */
+  copiedNoteCount: number;
+  /** 重建合并请求时推送到目标仓库的临时分支，关闭后删除 */
+  temporaryBranch?: string;
+  /** 合并请求无法重建，目标对象为占位议题 */
+  isPlaceholderIssue?: boolean;
+};
+
 /**
  * 迁移日志类型
  */
@@ -176,6 +324,24 @@ type TMigrationLog = {
   targetGroup: string;
   /** 目标仓库地址 */
   targetRepoUrl: string;
+  /** 由本工具创建的目标项目ID，用于回滚（使用迁移前已存在的空仓库时不记录） */
+  targetProjectId?: number;
+  /** 工具最后一次写入目标仓库后的分支和标签快照，回滚前用于判断目标仓库是否有新的提交 */
+  targetRefs?: Record<string, string>;
+  /** 按 suffix / rename-pattern 冲突策略改用的目标项目路径 */
+  renamedTargetPath?: string;
+  /** 是否按 push-into 冲突策略推送到迁移前已存在的非空项目 */
+  isPushIntoExisting?: boolean;
+  /** 按 skip 冲突策略跳过迁移的原因，下次运行时重新检查 */
+  skippedReason?: string;
+  /** 迁移方式（未记录时为 push，断点续传时沿用开始迁移时的方式） */
+  migrationMode?: TMigrationMode;
+  /** 源项目导出是否已完成（仅导出导入模式） */
+  isExportFinished?: boolean;
+  /** 已下载的导出文件路径（仅导出导入模式） */
+  exportArchivePath?: string;
+  /** 正在导入的目标项目ID，用于断点续传时继续等待导入完成（仅导出导入模式） */
+  importProjectId?: number;
   /** 开始时间 */
   startTime: string;
   /** 结束时间 */
@@ -188,10 +354,64 @@ type TMigrationLog = {
   isTargetCreated: boolean;
   /** 是否已推送镜像到目标仓库 */
   isMirrorPushed: boolean;
+  /** 是否已校验目标仓库的分支和标签与源仓库一致 */
+  isRefsVerified: boolean;
+  /** 是否已推送 Wiki 仓库（源项目没有 Wiki 时同样视为已完成） */
+  isWikiPushed: boolean;
   /** 是否已修改目标仓库的项目描述 */
   isDescriptionUpdated: boolean;
   /** 是否已克隆迁移后的仓库 */
   isFinalCloned: boolean;
+  /** 是否已迁移议题（未启用议题迁移时为 undefined） */
+  isIssuesMigrated?: boolean;
+  /** 最后一个已迁移议题的 iid，用于断点续传 */
+  lastMigratedIssueIid?: number;
+  /** 已创建但尚未迁移完评论和状态的议题，断点续传时继续处理而不是重新创建 */
+  pendingIssue?: TPendingContent;
+  /** 是否已迁移合并请求（未启用合并请求迁移时为 undefined） */
+  isMergeRequestsMigrated?: boolean;
+  /** 最后一个已迁移合并请求的 iid，用于断点续传 */
+  lastMigratedMergeRequestIid?: number;
+  /** 已创建但尚未迁移完评论和状态的合并请求，断点续传时继续处理而不是重新创建 */
+  pendingMergeRequest?: TPendingContent;
+  /** 最后一次增量同步的时间 */
+  lastSyncTime?: string;
+  /** 是否已复制保护分支和保护标签（未启用时为 undefined） */
+  isProtectionsReplicated?: boolean;
+  /** 是否已迁移项目标签（未启用标签迁移时为 undefined） */
+  isLabelsMigrated?: boolean;
+  /** 在目标项目中新建的标签数量 */
+  migratedLabelCount?: number;
+  /** 是否已迁移项目里程碑（未启用里程碑迁移时为 undefined） */
+  isMilestonesMigrated?: boolean;
+  /** 在目标项目中新建的里程碑数量 */
+  migratedMilestoneCount?: number;
+  /** 是否已迁移发布（未启用发布迁移时为 undefined） */
+  isReleasesMigrated?: boolean;
+  /** 在目标项目中新建的发布数量 */
+  migratedReleaseCount?: number;
+  /** 是否已迁移 CI/CD 变量（未启用变量迁移时为 undefined） */
+  isVariablesMigrated?: boolean;
+  /** 在目标项目中新建的 CI/CD 变量数量 */
+  migratedVariableCount?: number;
+  /** 按 --skip-variables-matching 跳过、需要在目标项目中重新设置的变量名 */
+  skippedVariables?: string[];
+  /** 是否已迁移项目成员（未启用成员迁移时为 undefined） */
+  isMembersMigrated?: boolean;
+  /** 在目标 GitLab 中找不到对应用户的源成员用户名 */
+  unmatchedMembers?: string[];
+  /** 是否已同步项目设置（未启用设置同步时为 undefined） */
+  isSettingsSynced?: boolean;
+  /** 未能在目标项目中生效的项目设置及原因 */
+  unappliedSettings?: string[];
+  /** 是否已配置镜像同步（未启用镜像同步时为 undefined） */
+  isMirrorConfigured?: boolean;
+  /** 目标项目拉取镜像的ID */
+  pullMirrorId?: number;
+  /** 源项目推送镜像的ID */
+  pushMirrorId?: number;
+  /** 最近一次查询到的镜像状态 */
+  mirrorStatus?: string;
   /** 失败原因 */
   failureReason: string;
   /** 错误类型 */
@@ -206,6 +426,243 @@ type TMigrationLog = {
   lastUpdated: string;
 };
 
+/**
+ * 迁移状态文件内容，是迁移日志的唯一数据来源
+ */
+type TMigrationState = {
+  /** 状态文件格式版本 */
+  version: number;
+  /** 最后写入时间 */
+  updatedAt: string;
+  /** 各项目的迁移日志，顺序与配置文件一致 */
+  projects: TMigrationLog[];
+};
+
+/**
+ * 迁移器选项类型
+ */
+type TMigratorOptions = {
+  /** 同时迁移的仓库数量（默认 1，即逐个迁移） */
+  concurrency?: number;
+  /** 源 GitLab 的 Access Token（未提供且与目标同一实例时使用目标 Token） */
+  sourceAccessToken?: string;
+  /** 是否迁移议题（含评论、标签、里程碑和指派人） */
+  withIssues?: boolean;
+  /** 是否迁移合并请求（含讨论） */
+  withMergeRequests?: boolean;
+  /** 推送到目标仓库的引用模式（默认为分支和标签） */
+  pushRefs?: string[];
+  /** 是否将目标项目配置为源仓库的拉取镜像 */
+  pullMirror?: boolean;
+  /** 是否在源项目上配置指向目标仓库的推送镜像 */
+  pushMirror?: boolean;
+  /** 是否在目标分组下重建源项目所在的子分组层级 */
+  preserveSubgroups?: boolean;
+  /** 源分组的完整路径或URL，重建子分组时从源项目路径中去掉该前缀（默认为第一段，即顶级分组） */
+  sourceGroup?: string;
+  /** 是否复制源项目的保护分支和保护标签 */
+  withProtections?: boolean;
+  /** 是否迁移项目标签 */
+  withLabels?: boolean;
+  /** 是否迁移项目里程碑 */
+  withMilestones?: boolean;
+  /** 是否迁移发布（含发布说明和资源链接） */
+  withReleases?: boolean;
+  /** 是否迁移 CI/CD 变量 */
+  withVariables?: boolean;
+  /** 不复制的 CI/CD 变量名模式（支持 * 和 ? 通配符），用于需要轮换而不是复制的密钥 */
+  skipVariablePatterns?: string[];
+  /** 是否迁移项目成员 */
+  withMembers?: boolean;
+  /** 迁移成员时是否包含从源分组继承的成员 */
+  withGroupMembers?: boolean;
+  /** 源用户名到目标用户名的映射，用于两个实例中用户名不同的用户 */
+  userMap?: Record<string, string>;
+  /** 是否同步项目设置 */
+  withSettings?: boolean;
+  /** 需要同步的项目属性（默认为 DEFAULT_SETTINGS_ATTRIBUTES） */
+  settingsAttributes?: string[];
+  /** 迁移方式（默认 push） */
+  mode?: TMigrationMode;
+  /** 目标位置已存在非空项目时的处理策略（未设置时失败，已存在的空项目需要确认） */
+  onConflict?: TConflictPolicy;
+  /** rename-pattern 策略的命名模式，支持 {name} 和 {date} 占位符 */
+  renamePattern?: string;
+};
+
+/**
+ * 增量同步时单个引用的比较结果
+ * - new: 目标中不存在
+ * - advanced: 源仓库可快进
+ * - diverged: 双方都有对方没有的提交（或标签指向不同）
+ * - target_ahead: 目标包含源仓库没有的提交
+ * - target_only: 只存在于目标仓库
+ */
+type TSyncRefStatus = 'new' | 'advanced' | 'unchanged' | 'diverged' | 'target_ahead' | 'target_only';
+
+/**
+ * 增量同步的引用结果
+ */
+type TSyncRefResult = {
+  ref: string;
+  status: TSyncRefStatus;
+  sourceSha?: string;
+  targetSha?: string;
+  /** 是否已推送到目标仓库 */
+  pushed: boolean;
+};
+
+/**
+ * GitLab 用户在目标实例中的映射结果
+ */
+type TTargetUser = {
+  /** 目标实例中的用户ID */
+  id: number;
+  /** 目标实例中的用户名 */
+  username: string;
+};
+
+/**
+ * 迁移计划中目标仓库的处理方式
+ */
+type TPlanAction = 'create' | 'reuse_empty' | 'conflict' | 'skip' | 'rename' | 'push_into' | 'resume' | 'completed' | 'error';
+
+/**
+ * 单个仓库的迁移计划
+ */
+type TRepositoryPlan = {
+  /** 项目名称 */
+  projectName: string;
+  /** 原仓库地址 */
+  originalUrl: string;
+  /** 目标仓库地址（尚未创建时为预计地址） */
+  targetUrl: string;
+  /** 目标仓库处理方式 */
+  action: TPlanAction;
+  /** 断点续传的下一步 */
+  resumeStep: string;
+  /** 源仓库分支数量 */
+  branchCount: number;
+  /** 源仓库标签数量 */
+  tagCount: number;
+  /** 源仓库引用列表 */
+  refs: string[];
+  /** 预估仓库大小（字节），无法获取时为 null */
+  estimatedSize: number | null;
+  /** 生成计划时遇到的问题 */
+  errors: string[];
+};
+
+/**
+ * 迁移计划类型
+ */
+type TMigrationPlan = {
+  /** 生成时间 */
+  generatedAt: string;
+  /** 配置文件路径 */
+  moveFile: string;
+  /** 目标分组 */
+  targetGroup: string;
+  /** 预检查结果 */
+  preChecks: { success: boolean; errors: string[] };
+  /** 各仓库的迁移计划 */
+  repositories: TRepositoryPlan[];
+};
+
+/**
+ * 当前正在迁移的项目名称，用于并发迁移时为控制台输出添加项目前缀
+ */
+const projectLogContext = new AsyncLocalStorage<string>();
+
+/**
+ * 默认推送的引用模式
+ * 镜像中的 refs/merge-requests、refs/keep-around、refs/pipelines 等 GitLab 隐藏引用会被目标拒绝，不推送
+ */
+const DEFAULT_PUSH_REFS = ['refs/heads/*', 'refs/tags/*'];
+
+/**
+ * 默认同步的项目设置，名称与 GitLab 项目 API 的属性一致
+ * avatar 需要单独下载并上传，其他属性直接通过项目更新接口设置
+ */
+const DEFAULT_SETTINGS_ATTRIBUTES = [
+  'merge_method',
+  'squash_option',
+  'only_allow_merge_if_pipeline_succeeds',
+  'only_allow_merge_if_all_discussions_are_resolved',
+  'allow_merge_on_skipped_pipeline',
+  'remove_source_branch_after_merge',
+  'resolve_outdated_diff_discussions',
+  'printing_merge_request_link_enabled',
+  'issues_access_level',
+  'merge_requests_access_level',
+  'wiki_access_level',
+  'snippets_access_level',
+  'builds_access_level',
+  'pages_access_level',
+  'container_registry_access_level',
+  'lfs_enabled',
+  'request_access_enabled',
+  'topics',
+  'ci_config_path',
+  'avatar'
+];
+
+/**
+ * 轮询项目导出和导入状态的间隔
+ */
+const EXPORT_IMPORT_POLL_INTERVAL_MS = 5000;
+
+/**
+ * 等待项目导出或导入完成的最长时间
+ */
+const EXPORT_IMPORT_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * 支持的冲突处理策略
+ */
+const CONFLICT_POLICIES: TConflictPolicy[] = ['fail', 'skip', 'suffix', 'rename-pattern', 'push-into'];
+
+/**
+ * suffix 策略追加的后缀，以及尝试追加序号的最大次数
+ */
+const CONFLICT_RENAME_SUFFIX = '-migrated';
+const CONFLICT_RENAME_MAX_ATTEMPTS = 20;
+
+/**
+ * 离线迁移清单的文件名和格式版本
+ */
+const BUNDLE_MANIFEST_FILE = 'manifest.json';
+const BUNDLE_MANIFEST_VERSION = 1;
+
+/**
+ * 迁移状态文件的格式版本，结构发生不兼容变化时递增
+ */
+const MIGRATION_STATE_VERSION = 1;
+
+let isProjectLogPrefixInstalled = false;
+
+/**
+ * 为控制台输出添加项目名前缀
+ * @description 并发迁移时多个仓库的输出会交错显示，按项目名前缀区分每一行
+ */
+function installProjectLogPrefix(): void {
+  if (isProjectLogPrefixInstalled) return;
+  isProjectLogPrefixInstalled = true;
+
+  (['log', 'warn', 'error'] as const).forEach(method => {
+    const original = console[method].bind(console);
+    console[method] = (...args: any[]) => {
+      const projectName = projectLogContext.getStore();
+      if (!projectName) {
+        original(...args);
+        return;
+      }
+      const prefix = ConsoleColors.dim(`[${projectName}]`);
+      format(...args).split('\n').forEach(line => original(`${prefix} ${line}`));
+    };
+  });
+}
+
 /**
  * 交互式输入 Access Token
  */
@@ -261,303 +718,877 @@ function promptForAccessToken(): Promise<string> {
 }
 
 /**
- * GitLab 项目迁移器
+ * YAML / JSON 配置中仓库条目支持的字段
  */
-class GitLabMigrator {
-  private moveFilePath: string;
-  private accessToken: string;
-  private targetGroupUrl: string;
-  private repositories: TRepository[];
-  private logs: Map<string, TMigrationLog>;
-  private selectedProjects: string[];
-  private tempDir: string;
-  private saveTimeout: NodeJS.Timeout | null = null;
-  private skipFinalClone: boolean;
-  private quietMode: boolean;
+const REPOSITORY_CONFIG_KEYS = ['name', 'description', 'originalUrl', 'targetPath', 'targetNamespace', 'visibility', 'defaultBranch', 'topics', 'onConflict', 'renamePattern'];
 
-  constructor(moveFilePath: string = path.resolve(process.cwd(), 'move.md'), selectedProjects?: string[], accessToken?: string, skipFinalClone: boolean = false, quietMode: boolean = false) {
-    this.moveFilePath = moveFilePath;
-    this.accessToken = accessToken || '';
-    this.skipFinalClone = skipFinalClone;
-    this.quietMode = quietMode;
-    this.targetGroupUrl = '';
-    this.repositories = [];
-    this.logs = new Map();
-    this.selectedProjects = selectedProjects || [];
-    
-    // 使用更具私有化特征的临时目录命名
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const randomSuffix = Math.random().toString(36).substring(2, 8);
-    this.tempDir = path.join(process.cwd(), `temp-migration-${timestamp}-${randomSuffix}`);
-    
-    // 清理旧备份文件和临时目录
-    this.cleanupOldBackups();
-    this.cleanupOldTempDirectories();
+/**
+ * 根据文件扩展名判断配置文件格式
+ */
+function getConfigFormat(filePath: string): TConfigFormat {
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === '.yaml' || extension === '.yml') {
+    return 'yaml';
   }
+  if (extension === '.json') {
+    return 'json';
+  }
+  return 'markdown';
+}
 
-  /**
-   * 解析move.md文件
-   */
-  private parseMoveFile(): void {
-    console.log('📖 正在解析move.md文件...');
-    
-    if (!existsSync(this.moveFilePath)) {
-      throw new Error(`move.md文件不存在: ${this.moveFilePath}`);
-    }
+/**
+ * 查找默认配置文件，依次查找 move.md、move.yaml、move.yml、move.json，都不存在时返回 move.md
+ */
+function resolveDefaultConfigPath(dir: string = process.cwd()): string {
+  const candidates = ['move.md', 'move.yaml', 'move.yml', 'move.json'].map(name => path.resolve(dir, name));
+  return candidates.find(candidate => existsSync(candidate)) || candidates[0];
+}
 
-    const content = readFileSync(this.moveFilePath, 'utf-8');
-    const lines = content.split('\n');
-    const parseErrors: string[] = [];
+/**
+ * 读取并解析配置文件，Markdown、YAML、JSON 格式得到相同结构的迁移配置
+ */
+function loadMigrationConfig(filePath: string): TConfigParseResult {
+  return parseMigrationConfig(readFileSync(filePath, 'utf-8'), getConfigFormat(filePath));
+}
 
-    // 解析 Access Token（如果构造函数中没有提供）
-    if (!this.accessToken) {
-      const accessTokenIndex = lines.findIndex(line => line.includes('## 迁移目标 Access Token'));
-      if (accessTokenIndex !== -1 && accessTokenIndex + 2 < lines.length) {
-        const tokenLine = lines[accessTokenIndex + 2].trim();
-        if (tokenLine && tokenLine !== 'your_gitlab_access_token' && tokenLine !== 'your_access_token') {
-          this.accessToken = tokenLine;
-          console.log('🔑 从 move.md 文件中读取到 Access Token');
-        }
-      } else {
-        parseErrors.push('未找到有效的 Access Token 配置');
-      }
-    }
+/**
+ * 按格式解析配置文件内容
+ */
+function parseMigrationConfig(content: string, format: TConfigFormat): TConfigParseResult {
+  if (format === 'markdown') {
+    return parseMarkdownConfig(content);
+  }
+  
+  let data: any;
+  try {
+    data = format === 'yaml' ? YAML.parse(content) : JSON.parse(content);
+  } catch (error: any) {
+    throw new Error(`配置文件格式错误: ${error.message}`);
+  }
+  return parseStructuredConfig(data);
+}
 
-    // 解析目标分组
-    const targetGroupIndex = lines.findIndex(line => line.includes('## 迁移目标分组'));
-    if (targetGroupIndex !== -1 && targetGroupIndex + 2 < lines.length) {
-      this.targetGroupUrl = lines[targetGroupIndex + 2].trim();
-      if (!this.targetGroupUrl) {
-        parseErrors.push('目标分组URL为空');
-      } else if (!this.isValidUrl(this.targetGroupUrl)) {
-        parseErrors.push(`目标分组URL格式无效: ${this.targetGroupUrl}`);
-      }
-    } else {
-      parseErrors.push('未找到目标分组配置');
-    }
+/**
+ * 解析 Markdown 格式的配置文件（move.md）
+ */
+function parseMarkdownConfig(content: string): TConfigParseResult {
+  const lines = content.split('\n');
+  const config: TMigrationConfig = { targetGroup: '', repositories: [] };
+  const locations: string[] = [];
+  const errors: string[] = [];
 
-    // 解析需要迁移的仓库表格
-    const tableStartIndex = lines.findIndex(line => line.includes('| 项目名称 | 项目描述 | 原仓库地址 |'));
-    if (tableStartIndex !== -1) {
-      let validRepoCount = 0;
-      for (let i = tableStartIndex + 2; i < lines.length; i++) {
-        const line = lines[i].trim();
-        const lineNumber = i + 1;
-        
-        // 遇到日志部分或空行则停止解析
-        if (!line || line.includes('## 日志') || line.includes('## ')) break;
-        
-        // 跳过分隔线
-        if (line.match(/^\|[-\s|]+\|$/)) continue;
-        
-        // 检查是否为表格行
-        if (!line.startsWith('|') || !line.endsWith('|')) {
-          parseErrors.push(`第${lineNumber}行格式错误：表格行必须以 | 开头和结尾`);
-          continue;
-        }
-        
-        const columns = line.split('|').map(col => col.trim()).filter(col => col);
-        
-        if (columns.length < 3) {
-          parseErrors.push(`第${lineNumber}行数据不完整：需要至少3列数据（项目名称、项目描述、原仓库地址）`);
-          continue;
-        }
-        
-        const [name, description, originalUrl] = columns;
-        
-        // 验证必填字段
-        if (!name) {
-          parseErrors.push(`第${lineNumber}行：项目名称不能为空`);
-          continue;
-        }
-        
-        if (!originalUrl) {
-          parseErrors.push(`第${lineNumber}行：原仓库地址不能为空`);
-          continue;
-        }
-        
-        // 验证URL格式
-        if (!this.isValidGitUrl(originalUrl)) {
-          parseErrors.push(`第${lineNumber}行：原仓库地址格式无效: ${originalUrl}`);
-          continue;
-        }
-        
-        // 检查重复项目名称
-        if (this.repositories.some(repo => repo.name === name)) {
-          parseErrors.push(`第${lineNumber}行：项目名称重复: ${name}`);
-          continue;
-        }
-        
-        this.repositories.push({
-          name,
-          description: description || '无描述',
-          originalUrl
-        });
-        
-        validRepoCount++;
-      }
-      
-      if (validRepoCount === 0) {
-        parseErrors.push('未找到有效的仓库配置');
-      }
-    } else {
-      parseErrors.push('未找到仓库列表表格');
+  // 解析 Access Token
+  const accessTokenIndex = lines.findIndex(line => line.includes('## 迁移目标 Access Token'));
+  if (accessTokenIndex !== -1 && accessTokenIndex + 2 < lines.length) {
+    const tokenLine = lines[accessTokenIndex + 2].trim();
+    if (tokenLine && tokenLine !== 'your_gitlab_access_token' && tokenLine !== 'your_access_token') {
+      config.accessToken = tokenLine;
     }
+  }
 
-    // 解析现有日志
-    this.parseExistingLogs(content);
-    
-    // 输出解析结果和错误
-    if (parseErrors.length > 0) {
-      console.log(ConsoleColors.warning('⚠️  配置文件解析警告:'));
-      parseErrors.forEach(error => {
-        console.log(ConsoleColors.dim(`   • ${error}`));
-      });
-      console.log('');
+  // 解析源 GitLab Access Token（可选）
+  const sourceTokenIndex = lines.findIndex(line => line.includes('## 迁移源 Access Token'));
+  if (sourceTokenIndex !== -1 && sourceTokenIndex + 2 < lines.length) {
+    const tokenLine = lines[sourceTokenIndex + 2].trim();
+    if (tokenLine && !tokenLine.startsWith('#') && tokenLine !== 'your_source_access_token') {
+      config.sourceAccessToken = tokenLine;
     }
+  }
+
+  // 解析目标分组
+  const targetGroupIndex = lines.findIndex(line => line.includes('## 迁移目标分组'));
+  if (targetGroupIndex !== -1 && targetGroupIndex + 2 < lines.length) {
+    config.targetGroup = lines[targetGroupIndex + 2].trim();
+  } else {
+    errors.push('未找到目标分组配置');
+  }
+
+  // 解析需要迁移的仓库表格
+  const tableStartIndex = lines.findIndex(line => line.includes('| 项目名称 | 项目描述 | 原仓库地址 |'));
+  if (tableStartIndex === -1) {
+    errors.push('未找到仓库列表表格');
+    return { config, locations, errors };
+  }
+  
+  for (let i = tableStartIndex + 2; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const lineNumber = i + 1;
     
-    console.log(`✅ 解析完成，找到 ${this.repositories.length} 个待迁移仓库`);
-    console.log(`🎯 目标分组: ${this.targetGroupUrl}`);
+    // 遇到日志部分或空行则停止解析
+    if (!line || line.includes('## 日志') || line.includes('## ')) break;
     
-    // 执行配置验证
-    const validation = this.validateConfiguration();
+    // 跳过分隔线
+    if (line.match(/^\|[-\s|]+\|$/)) continue;
     
-    // 输出验证结果
-    if (validation.warnings.length > 0) {
-      console.log(ConsoleColors.warning('⚠️  配置验证警告:'));
-      validation.warnings.forEach(warning => {
-        console.log(ConsoleColors.dim(`   • ${warning}`));
-      });
-      console.log('');
+    // 检查是否为表格行
+    if (!line.startsWith('|') || !line.endsWith('|')) {
+      errors.push(`第${lineNumber}行格式错误：表格行必须以 | 开头和结尾`);
+      continue;
     }
     
-    if (validation.errors.length > 0) {
-      console.log(ConsoleColors.error('❌ 配置验证错误:'));
-      validation.errors.forEach(error => {
-        console.log(ConsoleColors.dim(`   • ${error}`));
-      });
-      console.log('');
-      throw new Error('配置文件验证失败，请修复上述错误后重试');
+    const columns = line.split('|').map(col => col.trim()).filter(col => col);
+    
+    if (columns.length < 3) {
+      errors.push(`第${lineNumber}行数据不完整：需要至少3列数据（项目名称、项目描述、原仓库地址）`);
+      continue;
     }
     
-    // 如果有严重的解析错误，抛出异常
-    if (!this.targetGroupUrl || this.repositories.length === 0) {
-      throw new Error('配置文件解析失败：缺少必要的配置信息');
+    const [name, description, originalUrl, targetSettings] = columns;
+    
+    // 解析可选的目标设置列
+    const overrides = targetSettings ? parseRepositoryOverrides(targetSettings, `第${lineNumber}行`, errors) : {};
+    if (!overrides) {
+      continue;
     }
+    
+    config.repositories.push({ name, description, originalUrl, ...overrides });
+    locations.push(`第${lineNumber}行`);
   }
+  
+  return { config, locations, errors };
+}
 
-  /**
-   * 验证URL格式
-   */
-  private isValidUrl(url: string): boolean {
-    try {
-      new URL(url);
-      return true;
-    } catch {
-      return false;
+/**
+ * 解析仓库表格中的目标设置列，如 `path=api-v2; namespace=other-group/sub; visibility=private; default_branch=main; topics=java,backend; on_conflict=skip`
+ * 格式有误时记录解析错误并返回 null
+ */
+function parseRepositoryOverrides(text: string, location: string, errors: string[]): Partial<TRepository> | null {
+  const overrides: Partial<TRepository> = {};
+  
+  for (const item of text.split(';').map(part => part.trim()).filter(part => part)) {
+    const separatorIndex = item.indexOf('=');
+    const key = separatorIndex === -1 ? item : item.slice(0, separatorIndex).trim();
+    const value = separatorIndex === -1 ? '' : item.slice(separatorIndex + 1).trim();
+    if (!value) {
+      errors.push(`${location}：目标设置 ${key} 缺少值，格式应为 key=value`);
+      return null;
+    }
+    
+    switch (key) {
+      case 'path':
+        overrides.targetPath = value;
+        break;
+      case 'namespace':
+        overrides.targetNamespace = value;
+        break;
+      case 'visibility':
+        overrides.visibility = value;
+        break;
+      case 'default_branch':
+        overrides.defaultBranch = value;
+        break;
+      case 'topics':
+        overrides.topics = value.split(',').map(topic => topic.trim()).filter(topic => topic);
+        break;
+      case 'on_conflict':
+        overrides.onConflict = value as TConflictPolicy;
+        break;
+      case 'rename_pattern':
+        overrides.renamePattern = value;
+        break;
+      default:
+        errors.push(`${location}：未知的目标设置: ${key}（支持 path、namespace、visibility、default_branch、topics、on_conflict、rename_pattern）`);
+        return null;
     }
   }
+  
+  return overrides;
+}
 
-  /**
-   * 验证Git仓库URL格式
-   */
-  private isValidGitUrl(url: string): boolean {
-    // 支持 https、ssh、git 协议
-    const gitUrlPattern = /^(https?:\/\/|ssh:\/\/git@|git@)[\w\.-]+(:\d+)?[:\/][\w\.-]+\/[\w\.-]+(\.git)?\/?$/;
-    return gitUrlPattern.test(url);
+/**
+ * 将仓库的目标设置格式化为仓库表格中的 key=value 文本
+ */
+function formatRepositoryOverrides(repo: TRepository): string {
+  const items: string[] = [];
+  if (repo.targetPath) items.push(`path=${repo.targetPath}`);
+  if (repo.targetNamespace) items.push(`namespace=${repo.targetNamespace}`);
+  if (repo.visibility) items.push(`visibility=${repo.visibility}`);
+  if (repo.defaultBranch) items.push(`default_branch=${repo.defaultBranch}`);
+  if (repo.topics && repo.topics.length > 0) items.push(`topics=${repo.topics.join(',')}`);
+  if (repo.onConflict) items.push(`on_conflict=${repo.onConflict}`);
+  if (repo.renamePattern) items.push(`rename_pattern=${repo.renamePattern}`);
+  return items.join('; ');
+}
+
+/**
+ * 转换为可以放入 Markdown 表格单元格的文本（不能包含换行和竖线）
+ */
+function toTableCell(text: string): string {
+  return text.replace(/\s*\r?\n\s*/g, ' ').replace(/\|/g, '｜').trim();
+}
+
+/**
+ * 解析 YAML / JSON 格式的配置对象
+ */
+function parseStructuredConfig(data: any): TConfigParseResult {
+  const config: TMigrationConfig = { targetGroup: '', repositories: [] };
+  const locations: string[] = [];
+  const errors: string[] = [];
+  
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    errors.push('配置文件内容必须是对象');
+    return { config, locations, errors };
+  }
+  
+  if (typeof data.targetGroup === 'string') {
+    config.targetGroup = data.targetGroup.trim();
+  } else {
+    errors.push('未找到目标分组配置 (targetGroup)');
+  }
+  
+  const accessToken = parseConfigToken(data.accessToken, 'accessToken', errors);
+  config.accessToken = accessToken.value;
+  config.accessTokenEnv = accessToken.env;
+  const sourceAccessToken = parseConfigToken(data.sourceAccessToken, 'sourceAccessToken', errors);
+  config.sourceAccessToken = sourceAccessToken.value;
+  config.sourceAccessTokenEnv = sourceAccessToken.env;
+  
+  if (!Array.isArray(data.repositories)) {
+    errors.push('未找到仓库列表 (repositories)');
+    return { config, locations, errors };
+  }
+  
+  data.repositories.forEach((item: any, index: number) => {
+    const location = `repositories[${index}]`;
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      errors.push(`${location}：仓库配置必须是对象`);
+      return;
+    }
+    
+    const unknownKeys = Object.keys(item).filter(key => !REPOSITORY_CONFIG_KEYS.includes(key));
+    if (unknownKeys.length > 0) {
+      errors.push(`${location}：未知的字段: ${unknownKeys.join(', ')}（支持 ${REPOSITORY_CONFIG_KEYS.join('、')}）`);
+      return;
+    }
+    
+    const topics = typeof item.topics === 'string' ? item.topics.split(',') : item.topics;
+    config.repositories.push({
+      name: item.name ? String(item.name).trim() : '',
+      description: item.description ? String(item.description).trim() : '',
+      originalUrl: item.originalUrl ? String(item.originalUrl).trim() : '',
+      targetPath: item.targetPath ? String(item.targetPath) : undefined,
+      targetNamespace: item.targetNamespace ? String(item.targetNamespace) : undefined,
+      visibility: item.visibility ? String(item.visibility) : undefined,
+      defaultBranch: item.defaultBranch ? String(item.defaultBranch) : undefined,
+      topics: Array.isArray(topics) ? topics.map((topic: any) => String(topic).trim()).filter((topic: string) => topic) : undefined,
+      onConflict: item.onConflict ? String(item.onConflict) as TConflictPolicy : undefined,
+      renamePattern: item.renamePattern ? String(item.renamePattern) : undefined
+    });
+    locations.push(location);
+  });
+  
+  return { config, locations, errors };
+}
+
+/**
+ * 解析配置中的 Access Token：可以直接填写 Token，或通过 `{ env: 变量名 }` 引用环境变量
+ */
+function parseConfigToken(value: any, field: string, errors: string[]): { value?: string; env?: string } {
+  if (value === undefined || value === null || value === '') {
+    return {};
+  }
+  if (typeof value === 'string') {
+    return { value: value.trim() };
+  }
+  if (typeof value === 'object' && typeof value.env === 'string') {
+    return { value: process.env[value.env] || undefined, env: value.env };
+  }
+  errors.push(`${field} 格式无效，应为 Token 字符串或 { env: 环境变量名 }`);
+  return {};
+}
+
+/**
+ * 将迁移配置序列化为指定格式的配置文件内容
+ * 引用环境变量的 Token 在 Markdown 中无法表示，写入占位符
+ */
+function serializeMigrationConfig(config: TMigrationConfig, format: TConfigFormat): string {
+  if (format === 'markdown') {
+    const withTargetSettings = config.repositories.some(repo => formatRepositoryOverrides(repo));
+    const rows = config.repositories.map(repo => {
+      const cells = [repo.name, toTableCell(repo.description || '') || '无描述', repo.originalUrl];
+      if (withTargetSettings) {
+        cells.push(formatRepositoryOverrides(repo));
+      }
+      return `| ${cells.join(' | ')} |`;
+    });
+    return buildMoveFileTemplate(rows, {
+      targetGroup: config.targetGroup,
+      accessToken: config.accessTokenEnv ? undefined : config.accessToken,
+      sourceAccessToken: config.sourceAccessTokenEnv ? undefined : config.sourceAccessToken,
+      withTargetSettings
+    });
+  }
+  
+  const data: Record<string, any> = {
+    targetGroup: config.targetGroup,
+    accessToken: config.accessTokenEnv
+      ? { env: config.accessTokenEnv }
+      : config.accessToken || { env: 'GITLAB_ACCESS_TOKEN' }
+  };
+  if (config.sourceAccessTokenEnv || config.sourceAccessToken) {
+    data.sourceAccessToken = config.sourceAccessTokenEnv ? { env: config.sourceAccessTokenEnv } : config.sourceAccessToken;
+  }
+  data.repositories = config.repositories.map(repo => {
+    const item: Record<string, any> = {
+      name: repo.name,
+      description: repo.description,
+      originalUrl: repo.originalUrl
+    };
+    if (repo.targetPath) item.targetPath = repo.targetPath;
+    if (repo.targetNamespace) item.targetNamespace = repo.targetNamespace;
+    if (repo.visibility) item.visibility = repo.visibility;
+    if (repo.defaultBranch) item.defaultBranch = repo.defaultBranch;
+    if (repo.topics && repo.topics.length > 0) item.topics = repo.topics;
+    if (repo.onConflict) item.onConflict = repo.onConflict;
+    if (repo.renamePattern) item.renamePattern = repo.renamePattern;
+    return item;
+  });
+  
+  return format === 'yaml' ? YAML.stringify(data) : `${JSON.stringify(data, null, 2)}\n`;
+}
+
+/**
+ * 读取用户映射文件（YAML 或 JSON），格式为 "源用户名: 目标用户名"
+ */
+function loadUserMap(filePath: string): Record<string, string> {
+  if (!existsSync(filePath)) {
+    throw new Error(`用户映射文件不存在: ${filePath}`);
+  }
+  
+  let data: any;
+  try {
+    data = YAML.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`用户映射文件 ${filePath} 解析失败: ${error.message}`);
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`用户映射文件 ${filePath} 格式无效，应为 "源用户名: 目标用户名" 的映射`);
+  }
+  
+  const userMap: Record<string, string> = {};
+  for (const [sourceUsername, targetUsername] of Object.entries(data)) {
+    if (typeof targetUsername !== 'string' || !targetUsername.trim()) {
+      throw new Error(`用户映射文件 ${filePath} 中 ${sourceUsername} 的目标用户名无效`);
+    }
+    userMap[sourceUsername] = targetUsername.trim();
+  }
+  return userMap;
+}
+
+/**
+ * 读取离线迁移清单，目录中没有清单时返回 null
+ */
+function loadBundleManifest(bundleDir: string): TBundleManifest | null {
+  const manifestPath = path.join(bundleDir, BUNDLE_MANIFEST_FILE);
+  if (!existsSync(manifestPath)) {
+    return null;
+  }
+  
+  let manifest: TBundleManifest;
+  try {
+    manifest = JSON.parse(readFileSync(manifestPath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`离线迁移清单 ${manifestPath} 解析失败: ${error.message}`);
+  }
+  if (!manifest || !Array.isArray(manifest.repositories)) {
+    throw new Error(`离线迁移清单 ${manifestPath} 格式无效`);
+  }
+  if (manifest.version > BUNDLE_MANIFEST_VERSION) {
+    throw new Error(`离线迁移清单 ${manifestPath} 的版本 ${manifest.version} 高于当前工具支持的版本 ${BUNDLE_MANIFEST_VERSION}，请升级工具`);
+  }
+  return manifest;
+}
+
+/**
+ * 计算文件的 SHA-256 校验和，按块读取，不会把整个文件读入内存
+ */
+async function computeFileSha256(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * 将 * 和 ? 通配符模式转换为完整匹配的正则表达式
+ */
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^$(){}|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+}
+
+/**
+ * 原子写入文件：先写入同目录的临时文件再重命名，进程中断时不会留下写了一半的文件
+ */
+function writeFileAtomic(filePath: string, content: string): void {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    writeFileSync(tempPath, content, 'utf-8');
+    renameSync(tempPath, filePath);
+  } catch (error) {
+    rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * GitLab 项目迁移器
+ */
+class GitLabMigrator {
+  private moveFilePath: string;
+  private accessToken: string;
+  private targetGroupUrl: string;
+  private repositories: TRepository[];
+  private logs: Map<string, TMigrationLog>;
+  private selectedProjects: string[];
+  private tempDir: string;
+  private saveTimeout: NodeJS.Timeout | null = null;
+  private skipFinalClone: boolean;
+  private quietMode: boolean;
+  private concurrency: number;
+  private sourceAccessToken: string;
+  private withIssues: boolean;
+  private withMergeRequests: boolean;
+  private pushRefs: string[];
+  private pullMirror: boolean;
+  private pushMirror: boolean;
+  private preserveSubgroups: boolean;
+  private sourceGroupPath: string;
+  private withProtections: boolean;
+  private withLabels: boolean;
+  private withMilestones: boolean;
+  private withReleases: boolean;
+  private withVariables: boolean;
+  private skipVariablePatterns: RegExp[];
+  private withMembers: boolean;
+  private withGroupMembers: boolean;
+  private userMap: Record<string, string>;
+  private withSettings: boolean;
+  private settingsAttributes: string[];
+  private migrationMode: TMigrationMode;
+  private onConflict?: TConflictPolicy;
+  private renamePattern?: string;
+  /** import-bundles 时各仓库对应的 bundle 文件，克隆和校验时代替原仓库地址 */
+  private bundleSources: Map<string, { repositoryPath: string; wikiPath?: string }> = new Map();
+  /** import-bundles 时按离线迁移清单生成的仓库，配置文件只需提供目标分组 */
+  private bundleRepositories: TRepository[] = [];
+  private promptQueue: Promise<unknown> = Promise.resolve();
+  private targetUserCache: Map<string, TTargetUser | null> = new Map();
+  private targetMilestoneCache: Map<string, number> = new Map();
+  private targetSubgroupCache: Map<string, Promise<number>> = new Map();
+  private isTargetAdmin: boolean | null = null;
+  private isGitLfsAvailable: boolean | null = null;
+
+  constructor(moveFilePath: string = resolveDefaultConfigPath(), selectedProjects?: string[], accessToken?: string, skipFinalClone: boolean = false, quietMode: boolean = false, options: TMigratorOptions = {}) {
+    this.moveFilePath = moveFilePath;
+    this.accessToken = accessToken || '';
+    this.skipFinalClone = skipFinalClone;
+    this.quietMode = quietMode;
+    this.concurrency = Math.max(1, Math.floor(options.concurrency || 1));
+    this.sourceAccessToken = options.sourceAccessToken || '';
+    this.withIssues = options.withIssues || false;
+    this.withMergeRequests = options.withMergeRequests || false;
+    this.pushRefs = options.pushRefs && options.pushRefs.length > 0 ? options.pushRefs : DEFAULT_PUSH_REFS;
+    this.pullMirror = options.pullMirror || false;
+    this.pushMirror = options.pushMirror || false;
+    this.preserveSubgroups = options.preserveSubgroups || false;
+    this.sourceGroupPath = options.sourceGroup
+      ? (this.isValidUrl(options.sourceGroup) ? this.extractGroupPath(options.sourceGroup) : options.sourceGroup.replace(/^\/|\/$/g, ''))
+      : '';
+    this.withProtections = options.withProtections || false;
+    this.withLabels = options.withLabels || false;
+    this.withMilestones = options.withMilestones || false;
+    this.withReleases = options.withReleases || false;
+    this.withVariables = options.withVariables || false;
+    this.skipVariablePatterns = (options.skipVariablePatterns || []).map(globToRegExp);
+    this.withMembers = options.withMembers || options.withGroupMembers || false;
+    this.withGroupMembers = options.withGroupMembers || false;
+    this.userMap = options.userMap || {};
+    this.withSettings = options.withSettings || (options.settingsAttributes !== undefined && options.settingsAttributes.length > 0);
+    this.settingsAttributes = options.settingsAttributes && options.settingsAttributes.length > 0 ? options.settingsAttributes : DEFAULT_SETTINGS_ATTRIBUTES;
+    this.migrationMode = options.mode || 'push';
+    this.onConflict = options.onConflict || (options.renamePattern ? 'rename-pattern' : undefined);
+    this.renamePattern = options.renamePattern;
+    this.targetGroupUrl = '';
+    this.repositories = [];
+    this.logs = new Map();
+    this.selectedProjects = selectedProjects || [];
+    
+    // 使用更具私有化特征的临时目录命名
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const randomSuffix = Math.random().toString(36).substring(2, 8);
+    this.tempDir = path.join(process.cwd(), `temp-migration-${timestamp}-${randomSuffix}`);
+    
+    // 清理旧备份文件和临时目录
+    this.cleanupOldBackups();
+    this.cleanupOldTempDirectories();
   }
 
   /**
-   * 验证配置文件完整性
+   * 解析配置文件（move.md / move.yaml / move.json）并校验仓库配置
    */
-  private validateConfiguration(): { isValid: boolean; errors: string[]; warnings: string[] } {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-
-    // 验证 Access Token
-    if (!this.accessToken || this.accessToken === 'your_gitlab_access_token' || this.accessToken === 'your_access_token') {
-      warnings.push('Access Token 未配置或使用默认值，需要通过其他方式提供');
-    } else if (this.accessToken.length < 20) {
-      warnings.push('Access Token 长度可能不正确，请确认是否为有效的 GitLab Access Token');
+  private parseMoveFile(): void {
+    console.log(`📖 正在解析配置文件: ${path.basename(this.moveFilePath)}`);
+    
+    if (!existsSync(this.moveFilePath)) {
+      throw new Error(`配置文件不存在: ${this.moveFilePath}`);
     }
 
-    // 验证目标分组
+    const { config, locations, errors: parseErrors } = loadMigrationConfig(this.moveFilePath);
+    this.applyConfigAccessTokens(config);
+
+    // 校验目标分组
+    this.targetGroupUrl = config.targetGroup;
     if (!this.targetGroupUrl) {
-      errors.push('目标分组URL未配置');
-    } else {
-      if (!this.isValidUrl(this.targetGroupUrl)) {
-        errors.push(`目标分组URL格式无效: ${this.targetGroupUrl}`);
-      } else if (!this.targetGroupUrl.includes('gitlab')) {
-        warnings.push('目标分组URL似乎不是GitLab地址，请确认是否正确');
-      }
+      parseErrors.push('目标分组URL为空');
+    } else if (!this.isValidUrl(this.targetGroupUrl)) {
+      parseErrors.push(`目标分组URL格式无效: ${this.targetGroupUrl}`);
     }
 
-    // 验证仓库列表
+    // 校验需要迁移的仓库；离线导入时以清单中的仓库为准，配置文件中的同名仓库行只用于覆盖目标路径、可见性等设置
+    const repositoryConfigs = this.bundleRepositories.length > 0
+      ? this.bundleRepositories.map(bundleRepo => {
+          const index = config.repositories.findIndex(repo => repo.name === bundleRepo.name);
+          if (index < 0) {
+            return { repo: bundleRepo, location: `离线迁移清单中的 ${bundleRepo.name}` };
+          }
+          const overrides = Object.fromEntries(
+            Object.entries(config.repositories[index]).filter(([, value]) => value !== undefined && value !== '')
+          );
+          return { repo: { ...bundleRepo, ...overrides, originalUrl: bundleRepo.originalUrl }, location: locations[index] };
+        })
+      : config.repositories.map((repo, index) => ({ repo, location: locations[index] }));
+    repositoryConfigs.forEach(({ repo, location }) => {
+      const repository = this.validateRepositoryConfig(repo, location, parseErrors);
+      if (repository) {
+        this.repositories.push(repository);
+      }
+    });
     if (this.repositories.length === 0) {
-      errors.push('未找到任何待迁移的仓库');
-    } else {
-      // 检查仓库名称唯一性
-      const nameSet = new Set<string>();
-      const duplicateNames: string[] = [];
-      
-      this.repositories.forEach(repo => {
-        if (nameSet.has(repo.name)) {
-          duplicateNames.push(repo.name);
-        } else {
-          nameSet.add(repo.name);
-        }
-        
-        // 验证仓库名称格式
-        if (!/^[a-zA-Z0-9_-]+$/.test(repo.name)) {
-          warnings.push(`仓库名称 "${repo.name}" 包含特殊字符，可能导致创建失败`);
-        }
-        
-        // 验证原仓库URL
-        if (!this.isValidGitUrl(repo.originalUrl)) {
-          errors.push(`仓库 "${repo.name}" 的原仓库地址格式无效: ${repo.originalUrl}`);
-        }
-        
-        // 检查描述长度
-        if (repo.description && repo.description.length > 2000) {
-          warnings.push(`仓库 "${repo.name}" 的描述过长，可能被截断`);
+      parseErrors.push('未找到有效的仓库配置');
+    }
+
+    // 检查多个项目是否指向同一目标路径
+    if (this.targetGroupUrl && this.isValidUrl(this.targetGroupUrl)) {
+      const targetPaths = new Map<string, string>();
+      for (const repo of this.repositories) {
+        const targetPath = this.getTargetProjectPath(repo.name).toLowerCase();
+        const conflictName = targetPaths.get(targetPath);
+        if (conflictName) {
+          parseErrors.push(`项目 ${conflictName} 和 ${repo.name} 的目标路径相同: ${targetPath}`);
         }
-      });
-      
-      if (duplicateNames.length > 0) {
-        errors.push(`发现重复的仓库名称: ${duplicateNames.join(', ')}`);
+        targetPaths.set(targetPath, repo.name);
       }
     }
 
-    // 验证选中的项目是否存在
-    if (this.selectedProjects.length > 0) {
-      const invalidProjects = this.selectedProjects.filter(name => 
-        !this.repositories.some(repo => repo.name === name)
-      );
-      
-      if (invalidProjects.length > 0) {
-        errors.push(`指定的项目不存在: ${invalidProjects.join(', ')}`);
+    // 读取迁移状态；旧版本只有 Markdown 日志时从中导入
+    if (!this.loadMigrationState()) {
+      const logFilePath = this.getLogFilePath();
+      if (existsSync(logFilePath)) {
+        this.parseExistingLogs(readFileSync(logFilePath, 'utf-8'));
       }
     }
-
-    return {
-      isValid: errors.length === 0,
-      errors,
-      warnings
-    };
+    
+    // 清理不在配置文件中的项目日志
+    this.cleanupOrphanedLogs();
+    
+    // 输出解析结果和错误
+    if (parseErrors.length > 0) {
+      console.log(ConsoleColors.warning('⚠️  配置文件解析警告:'));
+      parseErrors.forEach(error => {
+        console.log(ConsoleColors.dim(`   • ${error}`));
+      });
+      console.log('');
+    }
+    
+    console.log(`✅ 解析完成，找到 ${this.repositories.length} 个待迁移仓库`);
+    console.log(`🎯 目标分组: ${this.targetGroupUrl}`);
+    
+    // 执行配置验证
+    const validation = this.validateConfiguration();
+    
+    // 输出验证结果
+    if (validation.warnings.length > 0) {
+      console.log(ConsoleColors.warning('⚠️  配置验证警告:'));
+      validation.warnings.forEach(warning => {
+        console.log(ConsoleColors.dim(`   • ${warning}`));
+      });
+      console.log('');
+    }
+    
+    if (validation.errors.length > 0) {
+      console.log(ConsoleColors.error('❌ 配置验证错误:'));
+      validation.errors.forEach(error => {
+        console.log(ConsoleColors.dim(`   • ${error}`));
+      });
+      console.log('');
+      throw new Error('配置文件验证失败，请修复上述错误后重试');
+    }
+    
+    // 如果有严重的解析错误，抛出异常
+    if (!this.targetGroupUrl || this.repositories.length === 0) {
+      throw new Error('配置文件解析失败：缺少必要的配置信息');
+    }
   }
 
   /**
-   * 解析现有的迁移日志
+   * 校验单个仓库配置，返回补全默认值后的仓库信息；配置无效时记录错误并返回 null
    */
-  private parseExistingLogs(content: string): void {
-    const lines = content.split('\n');
+  private validateRepositoryConfig(repo: TRepository, location: string, parseErrors: string[]): TRepository | null {
+    // 验证必填字段
+    if (!repo.name) {
+      parseErrors.push(`${location}：项目名称不能为空`);
+      return null;
+    }
+    
+    if (!repo.originalUrl) {
+      parseErrors.push(`${location}：原仓库地址不能为空`);
+      return null;
+    }
+    
+    // 验证URL格式
+    if (!this.isValidGitUrl(repo.originalUrl)) {
+      parseErrors.push(`${location}：原仓库地址格式无效: ${repo.originalUrl}`);
+      return null;
+    }
+    
+    // 检查重复项目名称
+    if (this.repositories.some(item => item.name === repo.name)) {
+      parseErrors.push(`${location}：项目名称重复: ${repo.name}`);
+      return null;
+    }
+    
+    // 重建子分组时源项目必须位于指定的源分组下，否则无法确定子分组路径
+    if (this.preserveSubgroups && this.sourceGroupPath && !repo.targetNamespace &&
+        !this.parseGitUrl(repo.originalUrl).projectPath.toLowerCase().startsWith(`${this.sourceGroupPath.toLowerCase()}/`)) {
+      parseErrors.push(`${location}：原仓库不在源分组 ${this.sourceGroupPath} 下: ${repo.originalUrl}`);
+      return null;
+    }
+    
+    if (repo.targetPath && !/^[\w.-]+$/.test(repo.targetPath)) {
+      parseErrors.push(`${location}：目标项目路径无效: ${repo.targetPath}`);
+      return null;
+    }
+    
+    if (repo.visibility && !['private', 'internal', 'public'].includes(repo.visibility)) {
+      parseErrors.push(`${location}：可见性必须为 private、internal 或 public: ${repo.visibility}`);
+      return null;
+    }
+    
+    if (repo.onConflict && !CONFLICT_POLICIES.includes(repo.onConflict)) {
+      parseErrors.push(`${location}：冲突策略必须为 ${CONFLICT_POLICIES.join('、')}: ${repo.onConflict}`);
+      return null;
+    }
+    
+    if ((repo.onConflict || this.onConflict) === 'rename-pattern' && !repo.renamePattern && !this.renamePattern) {
+      parseErrors.push(`${location}：rename-pattern 冲突策略需要设置命名模式 (rename_pattern 或 --rename-pattern)`);
+      return null;
+    }
+    
+    // 目标命名空间支持填写完整的分组URL或分组路径
+    let targetNamespace = repo.targetNamespace;
+    if (targetNamespace && this.isValidUrl(targetNamespace)) {
+      if (this.isValidUrl(this.targetGroupUrl) && new URL(targetNamespace).host !== new URL(this.targetGroupUrl).host) {
+        parseErrors.push(`${location}：目标命名空间必须与目标分组位于同一 GitLab 实例: ${targetNamespace}`);
+        return null;
+      }
+      targetNamespace = this.extractGroupPath(targetNamespace);
+    }
+    
+    return {
+      ...repo,
+      description: repo.description || '无描述',
+      targetNamespace: targetNamespace ? targetNamespace.replace(/^\/|\/$/g, '') : undefined
+    };
+  }
+
+  /**
+   * 使用配置文件中的 Access Token（命令行参数和环境变量优先）
+   */
+  private applyConfigAccessTokens(config: TMigrationConfig): void {
+    if (!this.accessToken && config.accessToken) {
+      this.accessToken = config.accessToken;
+      console.log('🔑 从配置文件中读取到 Access Token');
+    }
+    if (!this.sourceAccessToken && config.sourceAccessToken) {
+      this.sourceAccessToken = config.sourceAccessToken;
+      console.log('🔑 从配置文件中读取到源 GitLab Access Token');
+    }
+  }
+
+  /**
+   * 获取保存迁移日志的文件
+   * Markdown 配置的日志写在配置文件的 "## 日志" 部分；YAML / JSON 配置由程序生成，日志写在同目录的 <配置文件名>.log.md 中
+   */
+  private getLogFilePath(): string {
+    if (getConfigFormat(this.moveFilePath) === 'markdown') {
+      return this.moveFilePath;
+    }
+    const extension = path.extname(this.moveFilePath);
+    return path.join(path.dirname(this.moveFilePath), `${path.basename(this.moveFilePath, extension)}.log.md`);
+  }
+
+  /**
+   * 获取迁移状态文件，与配置文件同目录，名为 <配置文件名>.state.json
+   */
+  private getStateFilePath(): string {
+    const extension = path.extname(this.moveFilePath);
+    return path.join(path.dirname(this.moveFilePath), `${path.basename(this.moveFilePath, extension)}.state.json`);
+  }
+
+  /**
+   * 从状态文件读取迁移日志
+   * @returns 状态文件不存在时返回 false
+   */
+  private loadMigrationState(): boolean {
+    const stateFilePath = this.getStateFilePath();
+    if (!existsSync(stateFilePath)) {
+      return false;
+    }
+    
+    let state: TMigrationState;
+    try {
+      state = JSON.parse(readFileSync(stateFilePath, 'utf-8'));
+    } catch (error: any) {
+      throw new Error(`迁移状态文件 ${stateFilePath} 解析失败: ${error.message}`);
+    }
+    if (!state || typeof state.version !== 'number' || !Array.isArray(state.projects)) {
+      throw new Error(`迁移状态文件 ${stateFilePath} 格式无效`);
+    }
+    if (state.version > MIGRATION_STATE_VERSION) {
+      throw new Error(`迁移状态文件 ${stateFilePath} 的版本 ${state.version} 高于当前工具支持的版本 ${MIGRATION_STATE_VERSION}，请升级工具`);
+    }
+    
+    for (const log of state.projects) {
+      if (!log || !log.projectName) {
+        continue;
+      }
+      this.logs.set(log.projectName, {
+        ...log,
+        failureReason: log.failureReason || '',
+        steps: log.steps || [],
+        warnings: log.warnings || [],
+        retryCount: log.retryCount || 0
+      });
+    }
+    
+    console.log(`📋 从 ${path.basename(stateFilePath)} 读取到 ${this.logs.size} 个现有日志记录`);
+    return true;
+  }
+
+  /**
+   * 验证URL格式
+   */
+  private isValidUrl(url: string): boolean {
+    try {
+      new URL(url);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 验证Git仓库URL格式
+   */
+  private isValidGitUrl(url: string): boolean {
+    // 支持 https、ssh、git 协议
+    const gitUrlPattern = /^(https?:\/\/|ssh:\/\/git@|git@)[\w\.-]+(:\d+)?[:\/][\w\.-]+(\/[\w\.-]+)+\/?$/;
+    return gitUrlPattern.test(url);
+  }
+
+  /**
+   * 验证配置文件完整性
+   */
+  private validateConfiguration(): { isValid: boolean; errors: string[]; warnings: string[] } {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    // 验证 Access Token
+    if (!this.accessToken || this.accessToken === 'your_gitlab_access_token' || this.accessToken === 'your_access_token') {
+      warnings.push('Access Token 未配置或使用默认值，需要通过其他方式提供');
+    } else if (this.accessToken.length < 20) {
+      warnings.push('Access Token 长度可能不正确，请确认是否为有效的 GitLab Access Token');
+    }
+
+    // 验证目标分组
+    if (!this.targetGroupUrl) {
+      errors.push('目标分组URL未配置');
+    } else {
+      if (!this.isValidUrl(this.targetGroupUrl)) {
+        errors.push(`目标分组URL格式无效: ${this.targetGroupUrl}`);
+      } else if (!this.targetGroupUrl.includes('gitlab')) {
+        warnings.push('目标分组URL似乎不是GitLab地址，请确认是否正确');
+      }
+    }
+
+    // 验证仓库列表
+    if (this.repositories.length === 0) {
+      errors.push('未找到任何待迁移的仓库');
+    } else {
+      // 检查仓库名称唯一性
+      const nameSet = new Set<string>();
+      const duplicateNames: string[] = [];
+      
+      this.repositories.forEach(repo => {
+        if (nameSet.has(repo.name)) {
+          duplicateNames.push(repo.name);
+        } else {
+          nameSet.add(repo.name);
+        }
+        
+        // 验证仓库名称格式
+        if (!/^[a-zA-Z0-9_-]+$/.test(repo.name)) {
+          warnings.push(`仓库名称 "${repo.name}" 包含特殊字符，可能导致创建失败`);
+        }
+        
+        // 验证原仓库URL
+        if (!this.isValidGitUrl(repo.originalUrl)) {
+          errors.push(`仓库 "${repo.name}" 的原仓库地址格式无效: ${repo.originalUrl}`);
+        }
+        
+        // 检查描述长度
+        if (repo.description && repo.description.length > 2000) {
+          warnings.push(`仓库 "${repo.name}" 的描述过长，可能被截断`);
+        }
+      });
+      
+      if (duplicateNames.length > 0) {
+        errors.push(`发现重复的仓库名称: ${duplicateNames.join(', ')}`);
+      }
+    }
+
+    // 验证选中的项目是否存在
+    if (this.selectedProjects.length > 0) {
+      const invalidProjects = this.selectedProjects.filter(name => 
+        !this.repositories.some(repo => repo.name === name)
+      );
+      
+      if (invalidProjects.length > 0) {
+        errors.push(`指定的项目不存在: ${invalidProjects.join(', ')}`);
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings
+    };
+  }
+
+  /**
+   * 从 Markdown 日志导入迁移状态，仅用于还没有状态文件的旧版本日志
+   */
+  private parseExistingLogs(content: string): void {
+    const lines = content.split('\n');
     let currentLog: Partial<TMigrationLog> | null = null;
     
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i].trim();
       
       // 检测新的日志项目开始
-      if (line.startsWith('### ') && !line.includes('paimai-activity')) {
+      if (line.startsWith('### ')) {
         // 保存上一个日志项目
         if (currentLog && currentLog.projectName) {
           this.logs.set(currentLog.projectName, currentLog as TMigrationLog);
@@ -577,6 +1608,8 @@ class GitLabMigrator {
           isOriginalCloned: false,
           isTargetCreated: false,
           isMirrorPushed: false,
+          isRefsVerified: false,
+          isWikiPushed: false,
           isDescriptionUpdated: false,
           isFinalCloned: false,
           failureReason: '',
@@ -611,6 +1644,9 @@ class GitLabMigrator {
             case '结束时间':
               currentLog.endTime = value;
               break;
+            case '最后同步时间':
+              currentLog.lastSyncTime = value;
+              break;
             case '耗时':
               currentLog.duration = value;
               break;
@@ -623,12 +1659,42 @@ class GitLabMigrator {
             case '是否已推送镜像到目标仓库':
               currentLog.isMirrorPushed = value === '✅';
               break;
+            case '是否已校验目标仓库引用':
+              currentLog.isRefsVerified = value === '✅';
+              break;
+            case '是否已推送Wiki仓库':
+              currentLog.isWikiPushed = value === '✅';
+              break;
             case '是否已修改目标仓库的项目描述':
               currentLog.isDescriptionUpdated = value === '✅';
               break;
             case '是否已克隆迁移后的仓库':
               currentLog.isFinalCloned = value === '✅';
               break;
+            case '是否已迁移议题':
+              currentLog.isIssuesMigrated = value === '✅';
+              break;
+            case '最后迁移的议题':
+              currentLog.lastMigratedIssueIid = parseInt(value.replace('#', ''), 10) || 0;
+              break;
+            case '是否已迁移合并请求':
+              currentLog.isMergeRequestsMigrated = value === '✅';
+              break;
+            case '最后迁移的合并请求':
+              currentLog.lastMigratedMergeRequestIid = parseInt(value.replace('!', ''), 10) || 0;
+              break;
+            case '是否已配置镜像同步':
+              currentLog.isMirrorConfigured = value === '✅';
+              break;
+            case '拉取镜像ID':
+              currentLog.pullMirrorId = parseInt(value, 10) || undefined;
+              break;
+            case '推送镜像ID':
+              currentLog.pushMirrorId = parseInt(value, 10) || undefined;
+              break;
+            case '镜像状态':
+              currentLog.mirrorStatus = value;
+              break;
             case '失败原因':
               currentLog.failureReason = value;
               break;
@@ -642,10 +1708,7 @@ class GitLabMigrator {
       this.logs.set(currentLog.projectName, currentLog as TMigrationLog);
     }
     
-    console.log(`📋 解析到 ${this.logs.size} 个现有日志记录`);
-    
-    // 清理不在配置文件中的项目日志
-    this.cleanupOrphanedLogs();
+    console.log(`📋 从 Markdown 日志导入 ${this.logs.size} 个现有日志记录，下次保存时写入 ${path.basename(this.getStateFilePath())}`);
   }
   
   /**
@@ -729,231 +1792,379 @@ class GitLabMigrator {
   }
 
   /**
-   * 执行命令并返回结果
+   * 解析Git仓库URL，提取GitLab主机和项目路径
    */
-  private executeCommand(command: string, cwd?: string): string {
-    try {
-      if (!this.quietMode) {
-        console.log(ConsoleColors.dim(`执行命令: ${command}`));
-      }
-      const result = execSync(command, { 
-        cwd: cwd || process.cwd(),
-        encoding: 'utf-8',
-        stdio: 'pipe'
-      });
-      if (!this.quietMode) {
-        console.log(ConsoleColors.dim(`命令执行成功`));
-      }
-      return result.toString().trim();
-    } catch (error: any) {
-      console.log(ConsoleColors.error(`命令执行失败: ${command}`));
-      throw new Error(`命令执行失败: ${command}\n错误信息: ${error.message}`);
+  private parseGitUrl(url: string): { host: string; projectPath: string } {
+    // git@host:group/project.git 格式
+    const scpMatch = url.match(/^git@([\w\.-]+):(.+?)(\.git)?\/?$/);
+    if (scpMatch) {
+      return { host: scpMatch[1], projectPath: scpMatch[2] };
     }
+
+    const parsed = new URL(url);
+    // SSH 地址中的端口是 SSH 端口，API 始终通过 HTTPS 默认端口访问
+    const host = parsed.protocol.startsWith('http') ? parsed.host : parsed.hostname;
+    const projectPath = parsed.pathname.replace(/^\//, '').replace(/\/$/, '').replace(/\.git$/, '');
+    return { host, projectPath };
   }
 
   /**
-   * 执行命令并显示实时输出（用于需要显示进度的长时间运行命令）
+   * 获取源仓库所在 GitLab 实例的 API 基础URL
    */
-  private executeCommandWithProgress(command: string, cwd?: string): string {
-    try {
-      if (!this.quietMode) {
-        console.log(ConsoleColors.dim(`执行命令: ${command}`));
-      }
-      const result = execSync(command, { 
-        cwd: cwd || process.cwd(),
-        encoding: 'utf-8',
-        stdio: this.quietMode ? 'pipe' : 'inherit' // 静默模式下隐藏实时输出
-      });
-      if (!this.quietMode) {
-        console.log(ConsoleColors.dim(`命令执行成功`));
-      }
-      return result ? result.toString().trim() : '';
-    } catch (error: any) {
-      console.log(ConsoleColors.error(`命令执行失败: ${command}`));
-      throw new Error(`命令执行失败: ${command}\n错误信息: ${error.message}`);
+  private getSourceApiBase(repo: TRepository): string {
+    const { host } = this.parseGitUrl(repo.originalUrl);
+    const protocol = repo.originalUrl.startsWith('http://') ? 'http:' : 'https:';
+    return `${protocol}//${host}/api/v4`;
+  }
+
+  /**
+   * 获取访问源 GitLab 使用的 Access Token
+   */
+  private getSourceAccessToken(repo: TRepository): string {
+    if (this.sourceAccessToken) {
+      return this.sourceAccessToken;
     }
+    // 源仓库与目标分组位于同一 GitLab 实例时，直接使用目标 Token
+    const { host } = this.parseGitUrl(repo.originalUrl);
+    return host === new URL(this.targetGroupUrl).host ? this.accessToken : '';
   }
 
   /**
-   * 执行命令并返回结果（支持错误降级处理）
+   * 通过源 GitLab API 获取源项目信息
    */
-  private executeCommandWithWarningSupport(command: string, cwd?: string): { success: boolean; output: string; warning?: string } {
-    try {
-      console.log(ConsoleColors.dim(`执行命令: ${command}`));
-      const result = execSync(command, { 
-        cwd: cwd || process.cwd(),
-        encoding: 'utf-8',
-        stdio: 'pipe'
-      });
-      console.log(ConsoleColors.dim(`命令执行成功`));
-      return { success: true, output: result.toString().trim() };
-    } catch (error: any) {
-      const errorMessage = error.message || '';
-      
-      // 检查是否为隐藏引用相关的错误，将其降级为警告
-      if (errorMessage.includes('deny updating a hidden ref') || 
-          errorMessage.includes('refs/keep-around') ||
-          errorMessage.includes('refs/merge-requests') ||
-          errorMessage.includes('refs/pipelines') ||
-          errorMessage.includes('refs/environments') ||
-          errorMessage.includes('refs/heads/') ||
-          errorMessage.includes('refs/tags/') ||
-          errorMessage.includes('hidden ref') ||
-          errorMessage.includes('refusing to update checked out branch') ||
-          errorMessage.includes('remote rejected') ||
-          errorMessage.includes('pre-receive hook declined') ||
-          errorMessage.includes('! [remote rejected]') ||
-          errorMessage.includes('hook declined') ||
-          errorMessage.includes('protected branch') ||
-          errorMessage.includes('To ') ||
-          errorMessage.includes('Everything up-to-date') ||
-          errorMessage.includes('non-fast-forward') ||
-          errorMessage.includes('failed to push some refs') ||
-          errorMessage.includes('updates were rejected') ||
-          errorMessage.includes('fetch first') ||
-          errorMessage.includes('hint: Updates were rejected') ||
-          errorMessage.includes('error: failed to push')) {
-        console.log(ConsoleColors.warning(`⚠️  警告: ${errorMessage}`));
-        console.log(ConsoleColors.info('这是一个隐藏引用相关的警告，不影响迁移结果'));
-        return { success: true, output: '', warning: errorMessage };
-      }
-      
-      // 检查是否为文件系统相关的错误，将其降级为警告
-      if (errorMessage.includes('EBUSY: resource busy or locked') ||
-          errorMessage.includes('resource busy or locked') ||
-          errorMessage.includes('cannot delete') ||
-          errorMessage.includes('cannot remove') ||
-          errorMessage.includes('ENOENT: no such file or directory') ||
-          errorMessage.includes('no such file or directory') ||
-          errorMessage.includes('ENOSPC: no space left on device') ||
-          errorMessage.includes('no space left on device')) {
-        if (!this.quietMode) {
-          console.log(ConsoleColors.warning(`⚠️  警告: 文件系统操作遇到问题`));
-          console.log(ConsoleColors.info('这是一个文件系统相关的警告，不影响迁移结果'));
-        }
-        return { success: true, output: '', warning: '文件系统操作遇到问题，但不影响迁移结果' };
-      }
-      
-      // 其他错误正常抛出
-      console.log(ConsoleColors.error(`命令执行失败: ${command}`));
-      throw new Error(`命令执行失败: ${command}\n错误信息: ${errorMessage}`);
+  private async getSourceProject(repo: TRepository, withStatistics: boolean = false): Promise<any> {
+    const { projectPath } = this.parseGitUrl(repo.originalUrl);
+    const query = withStatistics ? '?statistics=true' : '';
+    return this.requestSourceApi(repo, `/projects/${encodeURIComponent(projectPath)}${query}`);
+  }
+
+  /**
+   * 获取目标仓库在目标 GitLab 中的完整路径
+   */
+  private getTargetProjectPath(repoName: string): string {
+    return `${this.getTargetNamespacePath(repoName)}/${this.getTargetProjectSlug(repoName)}`;
+  }
+
+  /**
+   * 获取目标项目在命名空间中的路径，按冲突策略重命名后使用新的路径
+   */
+  private getTargetProjectSlug(repoName: string): string {
+    const repo = this.repositories.find(item => item.name === repoName);
+    return this.logs.get(repoName)?.renamedTargetPath || repo?.targetPath || repoName;
+  }
+
+  /**
+   * 获取目标项目所在命名空间的完整路径
+   * 优先使用仓库表格中配置的 namespace，其次为全局目标分组（启用 --preserve-subgroups 时包含子分组）
+   */
+  private getTargetNamespacePath(repoName: string): string {
+    const repo = this.repositories.find(item => item.name === repoName);
+    if (repo?.targetNamespace) {
+      return repo.targetNamespace;
     }
+    const subgroupPath = this.getTargetSubgroupPath(repoName);
+    return `${this.extractGroupPath(this.targetGroupUrl)}${subgroupPath ? `/${subgroupPath}` : ''}`;
   }
 
   /**
-   * 执行命令并显示实时输出（支持错误降级处理和进度显示）
+   * 获取需要在目标分组下重建的子分组路径
+   * 如源仓库 old-group/backend/payments/api.git 对应 backend/payments；未启用 --preserve-subgroups 时为空
    */
-  private executeCommandWithWarningAndProgress(command: string, cwd?: string): { success: boolean; output: string; warning?: string } {
-    try {
-      if (!this.quietMode) {
-        console.log(ConsoleColors.dim(`执行命令: ${command}`));
-      }
-      const result = execSync(command, { 
-        cwd: cwd || process.cwd(),
-        encoding: 'utf-8',
-        stdio: this.quietMode ? 'pipe' : 'inherit' // 静默模式下隐藏实时输出
-      });
-      if (!this.quietMode) {
-        console.log(ConsoleColors.dim(`命令执行成功`));
-      }
-      return { success: true, output: result ? result.toString().trim() : '' };
-    } catch (error: any) {
-      // 获取完整的错误信息，包括 stderr
-      const errorMessage = error.message || '';
-      const stderr = error.stderr ? error.stderr.toString() : '';
-      const stdout = error.stdout ? error.stdout.toString() : '';
-      const fullErrorMessage = `${errorMessage}\n${stderr}\n${stdout}`.trim();
-      
-      // 检查是否为隐藏引用相关的错误，将其降级为警告
-      if (fullErrorMessage.includes('deny updating a hidden ref') || 
-          fullErrorMessage.includes('refs/keep-around') ||
-          fullErrorMessage.includes('refs/merge-requests') ||
-          fullErrorMessage.includes('refs/pipelines') ||
-          fullErrorMessage.includes('refs/environments') ||
-          fullErrorMessage.includes('refs/heads/') ||
-          fullErrorMessage.includes('refs/tags/') ||
-          fullErrorMessage.includes('hidden ref') ||
-          fullErrorMessage.includes('refusing to update checked out branch') ||
-          fullErrorMessage.includes('remote rejected') ||
-          fullErrorMessage.includes('pre-receive hook declined') ||
-          fullErrorMessage.includes('! [remote rejected]') ||
-          fullErrorMessage.includes('hook declined') ||
-          fullErrorMessage.includes('protected branch') ||
-          fullErrorMessage.includes('To ') ||
-          fullErrorMessage.includes('Everything up-to-date') ||
-          fullErrorMessage.includes('non-fast-forward') ||
-          fullErrorMessage.includes('failed to push some refs') ||
-          fullErrorMessage.includes('updates were rejected') ||
-          fullErrorMessage.includes('fetch first') ||
-          fullErrorMessage.includes('hint: Updates were rejected') ||
-          fullErrorMessage.includes('error: failed to push') ||
-          stderr.includes('deny updating a hidden ref') ||
-          stderr.includes('refs/keep-around') ||
-          stderr.includes('refs/merge-requests') ||
-          stderr.includes('refs/pipelines') ||
-          stderr.includes('refs/environments') ||
-          stderr.includes('refs/heads/') ||
-          stderr.includes('refs/tags/') ||
-          stderr.includes('remote rejected') ||
-          stderr.includes('! [remote rejected]') ||
-          stderr.includes('hook declined') ||
-          stderr.includes('protected branch') ||
-          stderr.includes('To ') ||
-          stderr.includes('Everything up-to-date') ||
-          stderr.includes('non-fast-forward') ||
-          stderr.includes('failed to push some refs') ||
-          stderr.includes('updates were rejected') ||
-          stderr.includes('fetch first') ||
-          stderr.includes('hint: Updates were rejected') ||
-          stderr.includes('error: failed to push')) {
-        if (!this.quietMode) {
-          console.log(ConsoleColors.warning(`⚠️  警告: 推送过程中遇到隐藏引用相关警告`));
-          console.log(ConsoleColors.info('这是一个隐藏引用相关的警告，不影响迁移结果'));
-        }
-        return { success: true, output: stdout, warning: '推送过程中遇到隐藏引用相关警告，但不影响迁移结果' };
-      }
-      
-      // 检查是否为文件系统相关的错误，将其降级为警告
-      if (fullErrorMessage.includes('EBUSY: resource busy or locked') ||
-          fullErrorMessage.includes('resource busy or locked') ||
-          fullErrorMessage.includes('cannot delete') ||
-          fullErrorMessage.includes('cannot remove') ||
-          fullErrorMessage.includes('ENOENT: no such file or directory') ||
-          fullErrorMessage.includes('no such file or directory') ||
-          fullErrorMessage.includes('ENOSPC: no space left on device') ||
-          fullErrorMessage.includes('no space left on device') ||
-          stderr.includes('EBUSY: resource busy or locked') ||
-          stderr.includes('resource busy or locked') ||
-          stderr.includes('cannot delete') ||
-          stderr.includes('cannot remove')) {
-        if (!this.quietMode) {
-          console.log(ConsoleColors.warning(`⚠️  警告: 文件系统操作遇到问题`));
-          console.log(ConsoleColors.info('这是一个文件系统相关的警告，不影响迁移结果'));
-        }
-        return { success: true, output: stdout, warning: '文件系统操作遇到问题，但不影响迁移结果' };
-      }
-      
-      // 其他错误正常抛出
-      if (!this.quietMode) {
-        console.log(ConsoleColors.error(`命令执行失败: ${command}`));
+  private getTargetSubgroupPath(repoName: string): string {
+    const repo = this.repositories.find(item => item.name === repoName);
+    if (!this.preserveSubgroups || !repo) {
+      return '';
+    }
+    const segments = this.parseGitUrl(repo.originalUrl).projectPath.split('/');
+    const rootDepth = this.getSourceRootGroupPath(repo).split('/').length;
+    return segments.slice(rootDepth, -1).join('/');
+  }
+
+  /**
+   * 获取源项目所在的源分组路径：优先使用 --source-group，未指定时为源项目路径的第一段
+   */
+  private getSourceRootGroupPath(repo: TRepository): string {
+    return this.sourceGroupPath || this.parseGitUrl(repo.originalUrl).projectPath.split('/')[0];
+  }
+
+  /**
+   * 确保目标分组下存在与源仓库一致的子分组层级，返回项目所在命名空间的ID
+   * 缺少的子分组按源分组的名称、路径、描述和可见性逐级创建
+   */
+  private async ensureTargetNamespace(repo: TRepository): Promise<number> {
+    if (repo.targetNamespace) {
+      return this.getGroupId(`${new URL(this.targetGroupUrl).origin}/${repo.targetNamespace}`);
+    }
+    
+    const targetRootPath = this.extractGroupPath(this.targetGroupUrl);
+    const subgroupPath = this.getTargetSubgroupPath(repo.name);
+    if (!subgroupPath) {
+      return this.getGroupId(this.targetGroupUrl);
+    }
+    
+    const sourceRootPath = this.getSourceRootGroupPath(repo);
+    let parentId = await this.getGroupId(this.targetGroupUrl);
+    let relativePath = '';
+    
+    for (const segment of subgroupPath.split('/')) {
+      relativePath = relativePath ? `${relativePath}/${segment}` : segment;
+      const targetPath = `${targetRootPath}/${relativePath}`;
+      
+      // 缓存创建中的子分组，避免并发迁移时重复创建同一子分组
+      let pending = this.targetSubgroupCache.get(targetPath);
+      if (!pending) {
+        pending = this.ensureTargetSubgroup(repo, `${sourceRootPath}/${relativePath}`, targetPath, parentId);
+        this.targetSubgroupCache.set(targetPath, pending);
+        pending.catch(() => this.targetSubgroupCache.delete(targetPath));
       }
-      throw new Error(`命令执行失败: ${command}\n错误信息: ${fullErrorMessage}`);
+      parentId = await pending;
     }
+    
+    return parentId;
   }
 
   /**
-   * 检查目标分组中是否已存在同名仓库
+   * 获取或创建目标子分组
    */
-  private async checkRepositoryExists(repoName: string): Promise<{ exists: boolean; isEmpty?: boolean; targetUrl?: string }> {
+  private async ensureTargetSubgroup(repo: TRepository, sourcePath: string, targetPath: string, parentId: number): Promise<number> {
     try {
-      console.log(`🔍 检查仓库是否存在: ${repoName}`);
-      
-      // 从目标分组URL中提取分组路径
-      const groupPath = this.extractGroupPath(this.targetGroupUrl);
-      const apiUrl = `${this.getGitLabApiBase()}/projects/${encodeURIComponent(groupPath + '/' + repoName)}`;
-      
-      const response = await fetch(apiUrl, {
-        method: 'GET',
+      const existingGroup = await this.requestTargetApi(`/groups/${encodeURIComponent(targetPath)}`);
+      return existingGroup.id;
+    } catch (error: any) {
+      if (error.status !== 404) {
+        throw error;
+      }
+    }
+    
+    const sourceGroup = await this.requestSourceApi(repo, `/groups/${encodeURIComponent(sourcePath)}`);
+    console.log(ConsoleColors.progress(`正在创建目标子分组: ${targetPath}`));
+    const createdGroup = await this.requestTargetApi('/groups', {
+      method: 'POST',
+      body: {
+        name: sourceGroup.name,
+        path: sourceGroup.path,
+        description: sourceGroup.description || '',
+        visibility: sourceGroup.visibility,
+        parent_id: parentId
+      }
+    });
+    console.log(ConsoleColors.success(`目标子分组创建完成: ${createdGroup.full_path}`));
+    return createdGroup.id;
+  }
+
+  /**
+   * 通过目标 GitLab API 获取目标项目信息
+   */
+  private async getTargetProject(repoName: string): Promise<any> {
+    return this.requestTargetApi(`/projects/${encodeURIComponent(this.getTargetProjectPath(repoName))}`);
+  }
+
+  /**
+   * 调用 GitLab API 并返回 JSON 结果
+   */
+  private async requestGitLabApi(
+    apiBase: string,
+    token: string,
+    endpoint: string,
+    options: { method?: string; body?: any; sudo?: string } = {}
+  ): Promise<any> {
+    const method = options.method || 'GET';
+    const headers: Record<string, string> = {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json'
+    };
+    if (options.sudo) {
+      headers['Sudo'] = options.sudo;
+    }
+    
+    const response = await fetch(`${apiBase}${endpoint}`, {
+      method,
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+    });
+    
+    if (!response.ok) {
+      const errorData = await response.text();
+      throw Object.assign(
+        new Error(`GitLab API 请求失败 (${method} ${endpoint})，HTTP状态码: ${response.status}，错误信息: ${errorData}`),
+        { status: response.status }
+      );
+    }
+    
+    const text = await response.text();
+    return text ? JSON.parse(text) : null;
+  }
+
+  /**
+   * 分页读取 GitLab API 列表接口的全部数据
+   */
+  private async fetchAllPages(apiBase: string, token: string, endpoint: string): Promise<any[]> {
+    const items: any[] = [];
+    const separator = endpoint.includes('?') ? '&' : '?';
+    let page = 1;
+    
+    while (true) {
+      const response = await fetch(`${apiBase}${endpoint}${separator}per_page=100&page=${page}`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        }
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.text();
+        throw Object.assign(
+          new Error(`GitLab API 请求失败 (GET ${endpoint})，HTTP状态码: ${response.status}，错误信息: ${errorData}`),
+          { status: response.status }
+        );
+      }
+      
+      const pageItems = await response.json();
+      items.push(...pageItems);
+      
+      // 优先使用分页响应头判断是否还有下一页
+      const nextPage = response.headers.get('x-next-page');
+      if (nextPage === null ? pageItems.length < 100 : !nextPage) {
+        break;
+      }
+      page++;
+    }
+    
+    return items;
+  }
+
+  /**
+   * 调用目标 GitLab API
+   */
+  private async requestTargetApi(endpoint: string, options: { method?: string; body?: any; sudo?: string } = {}): Promise<any> {
+    return this.requestGitLabApi(this.getGitLabApiBase(), this.accessToken, endpoint, options);
+  }
+
+  /**
+   * 调用源 GitLab API
+   */
+  private async requestSourceApi(repo: TRepository, endpoint: string, options: { method?: string; body?: any } = {}): Promise<any> {
+    return this.requestGitLabApi(this.getSourceApiBase(repo), this.requireSourceAccessToken(repo), endpoint, options);
+  }
+
+  /**
+   * 分页读取源 GitLab API 列表
+   */
+  private async fetchAllSourcePages(repo: TRepository, endpoint: string): Promise<any[]> {
+    return this.fetchAllPages(this.getSourceApiBase(repo), this.requireSourceAccessToken(repo), endpoint);
+  }
+
+  /**
+   * 获取源 Access Token，未配置时抛出错误
+   */
+  private requireSourceAccessToken(repo: TRepository): string {
+    const token = this.getSourceAccessToken(repo);
+    if (!token) {
+      throw new Error('未配置源 GitLab Access Token，无法访问源项目 API');
+    }
+    return token;
+  }
+
+  /**
+   * 以子进程异步执行命令
+   * @description 不阻塞事件循环，使多个仓库的迁移流水线可以同时运行；
+   * 失败时抛出的错误与 execSync 保持一致（message 包含 stderr，并附带 stdout/stderr 属性）
+   */
+  private runCommand(command: string, cwd?: string, showProgress: boolean = false): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const streamOutput = showProgress && !this.quietMode;
+      // 单仓库迁移时直接继承终端以保留 git 的进度显示；并发迁移时改为逐行转发，由控制台前缀区分项目
+      const inheritOutput = streamOutput && this.concurrency === 1;
+      const child = spawn(command, {
+        cwd: cwd || process.cwd(),
+        shell: true,
+        stdio: inheritOutput ? 'inherit' : ['ignore', 'pipe', 'pipe']
+      });
+
+      let stdout = '';
+      let stderr = '';
+      const forward = (chunk: string) => {
+        if (streamOutput) {
+          chunk.split(/\r?\n|\r/).filter(line => line.trim()).forEach(line => console.log(ConsoleColors.dim(line)));
+        }
+      };
+      child.stdout?.setEncoding('utf-8');
+      child.stderr?.setEncoding('utf-8');
+      child.stdout?.on('data', (chunk: string) => {
+        stdout += chunk;
+        forward(chunk);
+      });
+      child.stderr?.on('data', (chunk: string) => {
+        stderr += chunk;
+        forward(chunk);
+      });
+
+      child.on('error', reject);
+      child.on('close', (code) => {
+        if (code === 0) {
+          resolve(stdout.trim());
+          return;
+        }
+        const error: any = new Error(`Command failed: ${command}\n${stderr}`);
+        error.status = code;
+        error.stdout = stdout;
+        error.stderr = stderr;
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * 执行命令并返回结果
+   */
+  private async executeCommand(command: string, cwd?: string): Promise<string> {
+    try {
+      if (!this.quietMode) {
+        console.log(ConsoleColors.dim(`执行命令: ${command}`));
+      }
+      const result = await this.runCommand(command, cwd);
+      if (!this.quietMode) {
+        console.log(ConsoleColors.dim(`命令执行成功`));
+      }
+      return result;
+    } catch (error: any) {
+      console.log(ConsoleColors.error(`命令执行失败: ${command}`));
+      throw new Error(`命令执行失败: ${command}\n错误信息: ${error.message}`);
+    }
+  }
+
+  /**
+   * 执行命令并显示实时输出（用于需要显示进度的长时间运行命令）
+   */
+  private async executeCommandWithProgress(command: string, cwd?: string): Promise<string> {
+    try {
+      if (!this.quietMode) {
+        console.log(ConsoleColors.dim(`执行命令: ${command}`));
+      }
+      const result = await this.runCommand(command, cwd, true); // 静默模式下隐藏实时输出
+      if (!this.quietMode) {
+        console.log(ConsoleColors.dim(`命令执行成功`));
+      }
+      return result;
+    } catch (error: any) {
+      console.log(ConsoleColors.error(`命令执行失败: ${command}`));
+      throw new Error(`命令执行失败: ${command}\n错误信息: ${error.message}`);
+    }
+  }
+
+  /**
+   * 检查目标分组中是否已存在同名仓库
+   */
+  private async checkRepositoryExists(repoName: string, interactive: boolean = true): Promise<{ exists: boolean; isEmpty?: boolean; targetUrl?: string }> {
+    try {
+      console.log(`🔍 检查仓库是否存在: ${repoName}`);
+      
+      // 根据目标分组路径拼接项目路径
+      const apiUrl = `${this.getGitLabApiBase()}/projects/${encodeURIComponent(this.getTargetProjectPath(repoName))}`;
+      
+      const response = await fetch(apiUrl, {
+        method: 'GET',
         headers: {
           'Authorization': `Bearer ${this.accessToken}`,
           'Content-Type': 'application/json'
@@ -966,6 +2177,13 @@ class GitLabMigrator {
         
         // 检查是否为空仓库
         const isEmpty = await this.checkIfRepositoryIsEmpty(projectData.id);
+        // 根据目标分组URL的协议来决定返回HTTPS还是SSH URL
+        const existingUrl = this.targetGroupUrl.startsWith('https://') 
+          ? projectData.http_url_to_repo 
+          : projectData.ssh_url_to_repo;
+        if (isEmpty && !interactive) {
+          return { exists: true, isEmpty: true, targetUrl: existingUrl };
+        }
         if (isEmpty) {
           console.log(ConsoleColors.warning(`⚠️ 目标仓库 ${ConsoleColors.highlight(repoName)} 是一个空仓库`));
           const shouldContinue = await this.promptUserConfirmation(
@@ -977,14 +2195,10 @@ class GitLabMigrator {
           }
           
           console.log(ConsoleColors.info('用户确认继续迁移到空仓库'));
-          // 根据目标分组URL的协议来决定返回HTTPS还是SSH URL
-          const targetUrl = this.targetGroupUrl.startsWith('https://') 
-            ? projectData.http_url_to_repo 
-            : projectData.ssh_url_to_repo;
-          return { exists: true, isEmpty: true, targetUrl };
+          return { exists: true, isEmpty: true, targetUrl: existingUrl };
         }
         
-        return { exists: true, isEmpty: false };
+        return { exists: true, isEmpty: false, targetUrl: existingUrl };
       } else if (response.status === 404) {
         console.log(`✅ 仓库不存在，可以创建: ${repoName}`);
         return { exists: false };
@@ -1029,10 +2243,128 @@ class GitLabMigrator {
   }
 
   /**
-   * 提示用户确认操作
+   * 按冲突策略处理目标位置已存在的非空项目
+   * 返回继续迁移时使用的目标仓库信息；迁移失败或跳过时记录原因并返回 null
+   */
+  private async resolveTargetConflict(
+    repo: TRepository,
+    log: TMigrationLog,
+    policy: TConflictPolicy,
+    existing: { exists: boolean; isEmpty?: boolean; targetUrl?: string },
+    migrationMode: TMigrationMode
+  ): Promise<{ exists: boolean; isEmpty?: boolean; targetUrl?: string } | null> {
+    const targetPath = this.getTargetProjectPath(repo.name);
+    const fail = (reason: string) => {
+      log.failureReason = reason;
+      this.recordMigrationStep(repo.name, '检查目标仓库', 'failed', reason, 'validation');
+      console.log(ConsoleColors.error(`迁移失败: ${reason}`));
+      return null;
+    };
+    
+    switch (policy) {
+      case 'skip':
+        log.skippedReason = `目标位置已存在非空项目 ${targetPath}，按冲突策略跳过`;
+        this.recordMigrationStep(repo.name, '检查目标仓库', 'skipped', log.skippedReason);
+        console.log(ConsoleColors.warning(`跳过迁移: ${log.skippedReason}`));
+        return null;
+      
+      case 'suffix':
+      case 'rename-pattern': {
+        const renamedPath = policy === 'suffix'
+          ? await this.findSuffixedTargetPath(repo)
+          : this.applyRenamePattern(repo.renamePattern || this.renamePattern!, this.getTargetProjectSlug(repo.name));
+        if (!/^[\w.-]+$/.test(renamedPath)) {
+          return fail(`按命名模式生成的目标项目路径无效: ${renamedPath}`);
+        }
+        
+        // 立即写入迁移状态，之后的检查、创建和断点续传都使用新的路径
+        log.renamedTargetPath = renamedPath;
+        this.updateMigrationLog(log);
+        const renamedInfo = await this.checkRepositoryExists(repo.name, false);
+        if (renamedInfo.exists && !renamedInfo.isEmpty) {
+          log.renamedTargetPath = undefined;
+          return fail(`重命名后的目标项目 ${this.getTargetNamespacePath(repo.name)}/${renamedPath} 同样已存在且不是空仓库`);
+        }
+        this.addWarning(repo.name, `目标位置已存在非空项目 ${targetPath}，已改为迁移到 ${this.getTargetProjectPath(repo.name)}`);
+        console.log(ConsoleColors.warning(`目标项目已重命名为: ${ConsoleColors.highlight(renamedPath)}`));
+        return renamedInfo;
+      }
+      
+      case 'push-into':
+        // 导入接口只能创建新项目或覆盖空项目
+        if (migrationMode === 'export-import') {
+          return fail('导出导入方式无法迁移到已存在的非空项目，push-into 冲突策略需要使用 push 迁移方式');
+        }
+        log.isPushIntoExisting = true;
+        log.targetRepoUrl = existing.targetUrl || '';
+        console.log(ConsoleColors.warning(`将推送到已存在的项目 ${ConsoleColors.highlight(targetPath)}，推送前检查提交历史是否兼容`));
+        return existing;
+      
+      default:
+        return fail('目标分组中已存在同名仓库');
+    }
+  }
+
+  /**
+   * 为 suffix 冲突策略查找未被占用的目标项目路径，如 api-migrated、api-migrated-2
+   */
+  private async findSuffixedTargetPath(repo: TRepository): Promise<string> {
+    const basePath = `${this.getTargetProjectSlug(repo.name)}${CONFLICT_RENAME_SUFFIX}`;
+    const namespacePath = this.getTargetNamespacePath(repo.name);
+    for (let attempt = 1; attempt <= CONFLICT_RENAME_MAX_ATTEMPTS; attempt++) {
+      const candidate = attempt === 1 ? basePath : `${basePath}-${attempt}`;
+      try {
+        await this.requestTargetApi(`/projects/${encodeURIComponent(`${namespacePath}/${candidate}`)}`);
+      } catch (error: any) {
+        if (error.status === 404) {
+          return candidate;
+        }
+        throw error;
+      }
+    }
+    throw new Error(`无法找到未被占用的目标项目路径（已尝试 ${CONFLICT_RENAME_MAX_ATTEMPTS} 次）: ${basePath}`);
+  }
+
+  /**
+   * 按命名模式生成目标项目路径，{name} 替换为原目标路径，{date} 替换为当天日期（YYYYMMDD）
+   */
+  private applyRenamePattern(pattern: string, name: string): string {
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    return pattern.replace(/\{name\}/g, name).replace(/\{date\}/g, date);
+  }
+
+  /**
+   * 检查镜像能否推送到已有提交的目标仓库：同名分支必须能快进，同名标签必须指向相同对象
+   * 不兼容时抛出错误，避免推送到一半才被目标仓库拒绝
+   */
+  private async checkHistoryCompatibility(cloneDir: string, targetUrl: string): Promise<void> {
+    console.log(ConsoleColors.progress('正在检查目标仓库的提交历史是否兼容...'));
+    const sourceRefs = await this.listMirrorRefs(cloneDir);
+    const targetRefs = await this.listRemoteRefs(targetUrl);
+    
+    const incompatibleRefs: string[] = [];
+    for (const [ref, targetSha] of targetRefs) {
+      const sourceSha = sourceRefs[ref];
+      if (!sourceSha || sourceSha === targetSha) {
+        continue;
+      }
+      // 目标提交不在源仓库中时同样无法快进
+      if (ref.startsWith('refs/tags/') || !(await this.isAncestorCommit(targetSha, sourceSha, cloneDir))) {
+        incompatibleRefs.push(ref);
+      }
+    }
+    
+    if (incompatibleRefs.length > 0) {
+      throw new Error(`目标仓库与源仓库的提交历史不兼容，以下引用无法快进: ${incompatibleRefs.join(', ')}`);
+    }
+    console.log(ConsoleColors.success(`提交历史兼容，目标仓库中已有 ${targetRefs.size} 个引用`));
+  }
+
+  /**
+   * 提示用户确认操作（并发迁移时按顺序逐个提问）
    */
   private async promptUserConfirmation(message: string): Promise<boolean> {
-    return new Promise((resolve) => {
+    const answer = this.promptQueue.then(() => new Promise<boolean>((resolve) => {
       const rl = readline.createInterface({
         input: process.stdin,
         output: process.stdout
@@ -1043,7 +2375,9 @@ class GitLabMigrator {
         const normalizedAnswer = answer.toLowerCase().trim();
         resolve(normalizedAnswer === 'y' || normalizedAnswer === 'yes');
       });
-    });
+    }));
+    this.promptQueue = answer.catch(() => undefined);
+    return answer;
   }
 
   /**
@@ -1060,17 +2394,43 @@ class GitLabMigrator {
     return segments[segments.length - 1];
   }
 
+  /**
+   * 获取仓库专属的临时目录（并发迁移时各仓库互不干扰）
+   */
+  private getRepositoryTempDir(repo: TRepository): string {
+    return path.join(this.tempDir, repo.name);
+  }
+
+  /**
+   * 获取克隆和校验时使用的源仓库地址（离线导入时为 bundle 文件）
+   */
+  private getSourceRepositoryUrl(repo: TRepository): string {
+    return this.bundleSources.get(repo.name)?.repositoryPath || repo.originalUrl;
+  }
+
+  /**
+   * 获取源 Wiki 仓库地址，离线导入且没有导出 Wiki 时为 null
+   */
+  private getSourceWikiUrl(repo: TRepository): string | null {
+    const bundleSource = this.bundleSources.get(repo.name);
+    if (bundleSource) {
+      return bundleSource.wikiPath || null;
+    }
+    return this.getWikiRepositoryUrl(repo.originalUrl);
+  }
+
   /**
    * 克隆原仓库镜像
    */
-  private cloneOriginalRepository(repo: TRepository): string {
+  private async cloneOriginalRepository(repo: TRepository): Promise<string> {
     console.log(`🔄 正在克隆原仓库镜像: ${repo.name}`);
     console.log(ConsoleColors.info(`原仓库地址: ${ConsoleColors.url(repo.originalUrl)}`));
     
     // 确保临时目录存在
-    if (!existsSync(this.tempDir)) {
-      mkdirSync(this.tempDir, { recursive: true });
-      console.log(ConsoleColors.dim(`创建临时目录: ${this.tempDir}`));
+    const repoTempDir = this.getRepositoryTempDir(repo);
+    if (!existsSync(repoTempDir)) {
+      mkdirSync(repoTempDir, { recursive: true });
+      console.log(ConsoleColors.dim(`创建临时目录: ${repoTempDir}`));
     }
     
     // 从仓库URL中提取实际的仓库名作为镜像目录名
@@ -1078,7 +2438,7 @@ class GitLabMigrator {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
     const randomSuffix = Math.random().toString(36).substring(2, 6);
     const cloneDirName = `${actualRepoName}-${timestamp}-${randomSuffix}.git`;
-    const cloneDir = path.join(this.tempDir, cloneDirName);
+    const cloneDir = path.join(repoTempDir, cloneDirName);
     console.log(ConsoleColors.info(`镜像目录: ${ConsoleColors.dim(cloneDir)}`));
     
     // 如果目录已存在，先删除
@@ -1088,30 +2448,181 @@ class GitLabMigrator {
     }
 
     console.log(ConsoleColors.progress(`开始克隆镜像...`));
-    const cloneCommand = `git clone --mirror ${repo.originalUrl} "${cloneDir}"`;
-    this.executeCommandWithProgress(cloneCommand);
+    const cloneCommand = `git clone --mirror "${this.getSourceRepositoryUrl(repo)}" "${cloneDir}"`;
+    await this.executeCommandWithProgress(cloneCommand);
     
     console.log(ConsoleColors.success(`原仓库镜像克隆完成: ${ConsoleColors.dim(cloneDir)}`));
+    
+    // 镜像克隆只包含 LFS 指针，LFS 对象需要单独获取
+    if (await this.detectGitLfs(cloneDir)) {
+      await this.ensureGitLfsAvailable();
+      console.log(ConsoleColors.progress(`检测到 Git LFS，开始获取所有 LFS 对象...`));
+      await this.executeCommandWithProgress('git lfs fetch --all origin', cloneDir);
+      console.log(ConsoleColors.success(`LFS 对象获取完成，共 ${this.listLocalLfsObjects(cloneDir).length} 个`));
+    }
+    
+    // Wiki 是独立的 <project>.wiki.git 仓库，与主仓库镜像一起克隆
+    await this.cloneWikiRepository(repo, cloneDir);
     return cloneDir;
   }
 
   /**
-   * 创建目标仓库
+   * 检测镜像仓库的任意引用历史中是否通过 .gitattributes 启用了 Git LFS
+   */
+  private async detectGitLfs(cloneDir: string): Promise<boolean> {
+    const output = await this.runCommand('git log --all -G "filter=lfs" --format=%H -n 1 -- ":(glob)**/.gitattributes"', cloneDir);
+    return output.trim().length > 0;
+  }
+
+  /**
+   * 确保本地已安装 git-lfs
+   */
+  private async ensureGitLfsAvailable(): Promise<void> {
+    if (this.isGitLfsAvailable === null) {
+      try {
+        await this.runCommand('git lfs version');
+        this.isGitLfsAvailable = true;
+      } catch {
+        this.isGitLfsAvailable = false;
+      }
+    }
+    if (!this.isGitLfsAvailable) {
+      throw new Error('仓库使用了 Git LFS，但本地未安装 git-lfs，请安装后重试 (https://git-lfs.com)');
+    }
+  }
+
+  /**
+   * 列出镜像目录中已获取的 LFS 对象（lfs/objects/xx/yy/<oid>）
+   */
+  private listLocalLfsObjects(cloneDir: string): { oid: string; size: number }[] {
+    const objectsDir = path.join(cloneDir, 'lfs', 'objects');
+    if (!existsSync(objectsDir)) {
+      return [];
+    }
+    
+    const objects: { oid: string; size: number }[] = [];
+    for (const level1 of readdirSync(objectsDir)) {
+      const level1Dir = path.join(objectsDir, level1);
+      if (!statSync(level1Dir).isDirectory()) continue;
+      for (const level2 of readdirSync(level1Dir)) {
+        const level2Dir = path.join(level1Dir, level2);
+        if (!statSync(level2Dir).isDirectory()) continue;
+        for (const oid of readdirSync(level2Dir)) {
+          if (/^[0-9a-f]{64}$/.test(oid)) {
+            objects.push({ oid, size: statSync(path.join(level2Dir, oid)).size });
+          }
+        }
+      }
+    }
+    return objects;
+  }
+
+  /**
+   * 通过 LFS Batch API 校验目标仓库中的 LFS 对象数量与本地一致
+   */
+  private async verifyLfsObjects(repoName: string, cloneDir: string): Promise<void> {
+    const localObjects = this.listLocalLfsObjects(cloneDir);
+    if (localObjects.length === 0) {
+      return;
+    }
+    
+    console.log(ConsoleColors.progress(`正在校验目标仓库的 LFS 对象...`));
+    const batchUrl = `${new URL(this.targetGroupUrl).origin}/${this.getTargetProjectPath(repoName)}.git/info/lfs/objects/batch`;
+    const batchSize = 100;
+    let presentCount = 0;
+    
+    for (let i = 0; i < localObjects.length; i += batchSize) {
+      const response = await fetch(batchUrl, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${Buffer.from(`oauth2:${this.accessToken}`).toString('base64')}`,
+          'Accept': 'application/vnd.git-lfs+json',
+          'Content-Type': 'application/vnd.git-lfs+json'
+        },
+        body: JSON.stringify({
+          operation: 'download',
+          transfers: ['basic'],
+          objects: localObjects.slice(i, i + batchSize)
+        })
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.text();
+        throw new Error(`LFS 对象校验失败，HTTP状态码: ${response.status}，错误信息: ${errorData}`);
+      }
+      
+      const result = await response.json();
+      presentCount += (result.objects || []).filter((object: any) => object.actions && !object.error).length;
+    }
+    
+    if (presentCount !== localObjects.length) {
+      throw new Error(`LFS 对象数量不一致: 源仓库 ${localObjects.length} 个，目标仓库 ${presentCount} 个`);
+    }
+    console.log(ConsoleColors.success(`LFS 对象校验通过，共 ${presentCount} 个`));
+  }
+
+  /**
+   * 获取仓库对应的 Wiki 仓库地址（<project>.git → <project>.wiki.git）
+   */
+  private getWikiRepositoryUrl(repoUrl: string): string {
+    return repoUrl.endsWith('.git') ? repoUrl.replace(/\.git$/, '.wiki.git') : `${repoUrl}.wiki.git`;
+  }
+
+  /**
+   * 获取与主仓库镜像目录对应的 Wiki 镜像目录
+   */
+  private getWikiCloneDir(cloneDir: string): string {
+    return cloneDir.replace(/\.git$/, '.wiki.git');
+  }
+
+  /**
+   * 检测并克隆源项目的 Wiki 仓库镜像
+   * 源项目未启用 Wiki 或 Wiki 为空时返回 null
+   */
+  private async cloneWikiRepository(repo: TRepository, cloneDir: string): Promise<string | null> {
+    const wikiUrl = this.getSourceWikiUrl(repo);
+    
+    let remoteRefs = '';
+    try {
+      remoteRefs = wikiUrl ? (await this.runCommand(`git ls-remote "${wikiUrl}"`)).trim() : '';
+    } catch {
+      // Wiki 仓库不存在时 ls-remote 会失败，属于正常情况，不输出错误
+    }
+    if (!remoteRefs) {
+      console.log(ConsoleColors.dim('源项目没有 Wiki 内容'));
+      return null;
+    }
+    
+    const wikiCloneDir = this.getWikiCloneDir(cloneDir);
+    if (existsSync(wikiCloneDir)) {
+      rmSync(wikiCloneDir, { recursive: true, force: true });
+    }
+    
+    console.log(ConsoleColors.progress(`开始克隆 Wiki 仓库镜像...`));
+    await this.executeCommandWithProgress(`git clone --mirror "${wikiUrl}" "${wikiCloneDir}"`);
+    console.log(ConsoleColors.success(`Wiki 仓库镜像克隆完成: ${ConsoleColors.dim(wikiCloneDir)}`));
+    return wikiCloneDir;
+  }
+
+  /**
+   * 创建目标仓库，返回仓库地址和项目ID
    */
-  private async createTargetRepository(repo: TRepository): Promise<string> {
+  private async createTargetRepository(repo: TRepository): Promise<{ targetUrl: string; projectId: number }> {
     try {
       console.log(ConsoleColors.info(`正在创建目标仓库: ${ConsoleColors.highlight(repo.name)}`));
       
-      // 从目标分组URL中提取分组ID
-      const groupId = await this.getGroupId(this.targetGroupUrl);
+      // 从目标分组URL中提取分组ID（启用 --preserve-subgroups 时为重建后的子分组ID）
+      const groupId = await this.ensureTargetNamespace(repo);
       const apiUrl = `${this.getGitLabApiBase()}/projects`;
       
       const projectData = {
-        name: repo.name,
-        path: repo.name,
+        // 重命名后项目名称同样使用新的路径，避免与已存在项目的名称冲突
+        name: this.logs.get(repo.name)?.renamedTargetPath || repo.name,
+        path: this.getTargetProjectSlug(repo.name),
         description: repo.description || '',
         namespace_id: groupId,
-        visibility: 'internal', // 设置为内部可见
+        visibility: repo.visibility || 'internal', // 默认设置为内部可见
+        ...(repo.topics && repo.topics.length > 0 ? { topics: repo.topics } : {}),
         initialize_with_readme: false,
         issues_enabled: true,
         merge_requests_enabled: true,
@@ -1140,7 +2651,7 @@ class GitLabMigrator {
         : projectInfo.ssh_url_to_repo;
       
       console.log(ConsoleColors.success(`目标仓库创建完成: ${ConsoleColors.url(targetUrl)}`));
-      return targetUrl;
+      return { targetUrl, projectId: projectInfo.id };
     } catch (error: any) {
       console.log(ConsoleColors.error(`创建目标仓库失败: ${error.message}`));
       throw error;
@@ -1148,65 +2659,432 @@ class GitLabMigrator {
   }
 
   /**
-   * 推送镜像到目标仓库
+   * 触发源项目导出并等待导出完成
+   * 断点续传时源项目可能已有进行中的导出，直接继续等待；已完成的旧导出会重新生成，避免导入过期的内容
    */
-  private pushMirrorToTarget(cloneDir: string, targetUrl: string): { hasWarnings: boolean; warnings?: string[] } {
-    console.log(ConsoleColors.info(`正在推送镜像到目标仓库...`));
-    console.log(ConsoleColors.info(`目标仓库地址: ${ConsoleColors.url(targetUrl)}`));
-    console.log(ConsoleColors.info(`镜像目录: ${ConsoleColors.dim(cloneDir)}`));
-    
-    const originalCwd = process.cwd();
-    const warnings: string[] = [];
-    let hasWarnings = false;
+  private async exportSourceProject(repo: TRepository): Promise<void> {
+    const sourceProject = await this.getSourceProject(repo);
+    const exportEndpoint = `/projects/${sourceProject.id}/export`;
     
-    try {
-      // 进入克隆目录
-      console.log(ConsoleColors.progress(`切换到镜像目录: ${cloneDir}`));
-      process.chdir(cloneDir);
-      
-      // 设置新的远程地址
-      console.log(ConsoleColors.progress(`设置目标仓库远程地址...`));
-      const setUrlCommand = `git remote set-url origin "${targetUrl}"`;
-      this.executeCommand(setUrlCommand);
-      
-      // 推送镜像（支持隐藏引用错误降级为警告）
-      console.log(ConsoleColors.progress(`开始推送镜像到目标仓库...`));
-      const pushCommand = 'git push --mirror';
-      const pushResult = this.executeCommandWithWarningAndProgress(pushCommand);
-      
-      if (pushResult.warning) {
-        hasWarnings = true;
-        const warningMsg = `推送时遇到隐藏引用警告: ${pushResult.warning}`;
-        warnings.push(warningMsg);
-        console.log(ConsoleColors.info('镜像推送完成（存在警告，但不影响迁移结果）'));
-      } else {
-        console.log(ConsoleColors.success(`镜像推送完成`));
-      }
-      
-      return { hasWarnings, warnings: hasWarnings ? warnings : undefined };
-    } finally {
-      // 确保返回原始目录
-      console.log(ConsoleColors.progress(`返回原始工作目录`));
-      process.chdir(originalCwd);
+    const current = await this.requestSourceApi(repo, exportEndpoint);
+    if (['queued', 'started', 'regeneration_in_progress'].includes(current.export_status)) {
+      console.log(ConsoleColors.info(`源项目已有进行中的导出，继续等待: ${current.export_status}`));
+    } else {
+      console.log(ConsoleColors.progress(`正在触发源项目导出: ${sourceProject.path_with_namespace}`));
+      await this.requestSourceApi(repo, exportEndpoint, { method: 'POST', body: {} });
     }
+    
+    await this.waitForGitLabTask('源项目导出', async () => {
+      const status = await this.requestSourceApi(repo, exportEndpoint);
+      return { status: status.export_status };
+    }, 'finished', ['failed', 'none']);
+    console.log(ConsoleColors.success('源项目导出完成'));
   }
 
   /**
-   * 设置目标仓库的项目描述
+   * 下载源项目的导出文件到仓库临时目录
    */
-  private async updateRepositoryDescription(repoName: string, description: string): Promise<void> {
-    try {
-      console.log(ConsoleColors.info(`正在更新仓库描述: ${ConsoleColors.repo(repoName)}`));
+  private async downloadProjectExport(repo: TRepository): Promise<string> {
+    const sourceProject = await this.getSourceProject(repo);
+    const repoTempDir = this.getRepositoryTempDir(repo);
+    if (!existsSync(repoTempDir)) {
+      mkdirSync(repoTempDir, { recursive: true });
+    }
+    const archivePath = path.join(repoTempDir, `${this.extractRepoNameFromUrl(repo.originalUrl)}-export.tar.gz`);
+    
+    console.log(ConsoleColors.progress(`正在下载导出文件: ${ConsoleColors.dim(archivePath)}`));
+    const response = await fetch(`${this.getSourceApiBase(repo)}/projects/${sourceProject.id}/export/download`, {
+      headers: { 'Authorization': `Bearer ${this.requireSourceAccessToken(repo)}` }
+    });
+    if (!response.ok) {
+      const errorData = await response.text();
+      throw Object.assign(
+        new Error(`下载导出文件失败，HTTP状态码: ${response.status}，错误信息: ${errorData}`),
+        { status: response.status }
+      );
+    }
+    
+    // 边下载边写入临时文件，完成后再重命名，避免大文件整个读入内存或中断后留下不完整的导出文件
+    const tempPath = `${archivePath}.${process.pid}.tmp`;
+    try {
+      await pipeline(Readable.fromWeb(response.body as WebReadableStream<Uint8Array>), createWriteStream(tempPath));
+      renameSync(tempPath, archivePath);
+    } catch (error) {
+      rmSync(tempPath, { force: true });
+      throw error;
+    }
+    
+    console.log(ConsoleColors.success(`导出文件下载完成，大小: ${(statSync(archivePath).size / 1024 / 1024).toFixed(2)} MB`));
+    return archivePath;
+  }
+
+  /**
+   * 上传导出文件到目标命名空间，返回导入中的项目ID
+   * 目标位置已有空项目时覆盖该项目，已有非空项目时拒绝导入
+   */
+  private async startProjectImport(repo: TRepository, archivePath: string): Promise<{ projectId: number; overwrite: boolean }> {
+    const existing = await this.checkRepositoryExists(repo.name, false);
+    if (existing.exists && !existing.isEmpty) {
+      throw new Error('目标分组中已存在同名的非空仓库，无法导入');
+    }
+    
+    const namespaceId = await this.ensureTargetNamespace(repo);
+    const formData = new FormData();
+    formData.append('path', this.getTargetProjectSlug(repo.name));
+    formData.append('name', this.logs.get(repo.name)?.renamedTargetPath || repo.name);
+    formData.append('namespace', String(namespaceId));
+    formData.append('overwrite', String(existing.exists));
+    if (repo.visibility) {
+      formData.append('override_params[visibility]', repo.visibility);
+    }
+    // 以文件为后端的 Blob 上传，发送时才按块读取文件内容
+    formData.append('file', await openAsBlob(archivePath), path.basename(archivePath));
+    
+    console.log(ConsoleColors.progress(`正在上传导出文件到目标分组: ${this.getTargetNamespacePath(repo.name)}`));
+    const response = await fetch(`${this.getGitLabApiBase()}/projects/import`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${this.accessToken}` },
+      body: formData
+    });
+    if (!response.ok) {
+      const errorData = await response.text();
+      throw new Error(`上传导出文件失败，HTTP状态码: ${response.status}，错误信息: ${errorData}`);
+    }
+    
+    const importInfo = await response.json();
+    return { projectId: importInfo.id, overwrite: existing.exists };
+  }
+
+  /**
+   * 等待目标项目导入完成，返回目标仓库地址
+   */
+  private async waitForProjectImport(projectId: number): Promise<string> {
+    await this.waitForGitLabTask('目标项目导入', async () => {
+      const status = await this.requestTargetApi(`/projects/${projectId}/import`);
+      return { status: status.import_status, error: status.import_error };
+    }, 'finished', ['failed']);
+    
+    const projectInfo = await this.requestTargetApi(`/projects/${projectId}`);
+    // 根据目标分组URL的协议来决定返回HTTPS还是SSH URL
+    return this.targetGroupUrl.startsWith('https://') ? projectInfo.http_url_to_repo : projectInfo.ssh_url_to_repo;
+  }
+
+  /**
+   * 轮询 GitLab 后台任务（项目导出、导入）的状态，直到完成、失败或超时
+   */
+  private async waitForGitLabTask(
+    taskName: string,
+    getStatus: () => Promise<{ status: string; error?: string }>,
+    finishedStatus: string,
+    failedStatuses: string[]
+  ): Promise<void> {
+    const deadline = Date.now() + EXPORT_IMPORT_TIMEOUT_MS;
+    let lastStatus = '';
+    
+    while (true) {
+      const { status, error } = await getStatus();
+      if (status === finishedStatus) {
+        return;
+      }
+      if (failedStatuses.includes(status)) {
+        throw new Error(`${taskName}失败${error ? `: ${error}` : `，状态: ${status}`}`);
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`${taskName}超时，最后状态: ${status}`);
+      }
+      if (status !== lastStatus) {
+        console.log(ConsoleColors.dim(`${taskName}状态: ${status}`));
+        lastStatus = status;
+      }
+      await new Promise(resolve => setTimeout(resolve, EXPORT_IMPORT_POLL_INTERVAL_MS));
+    }
+  }
+
+  /**
+   * 推送镜像到目标仓库
+   */
+  private async pushMirrorToTarget(cloneDir: string, targetUrl: string): Promise<void> {
+    console.log(ConsoleColors.info(`正在推送镜像到目标仓库...`));
+    console.log(ConsoleColors.info(`目标仓库地址: ${ConsoleColors.url(targetUrl)}`));
+    console.log(ConsoleColors.info(`镜像目录: ${ConsoleColors.dim(cloneDir)}`));
+    
+    // 在镜像目录中执行命令（不切换进程工作目录，避免并发迁移时互相影响）
+    console.log(ConsoleColors.progress(`设置目标仓库远程地址...`));
+    const setUrlCommand = `git remote set-url origin "${targetUrl}"`;
+    await this.executeCommand(setUrlCommand, cloneDir);
+    // 镜像克隆会设置 remote.origin.mirror，与显式引用模式冲突；重复推送时该配置已被移除，--unset 会以状态 5 退出
+    const hasMirrorConfig = await this.runCommand('git config --get remote.origin.mirror', cloneDir).then(() => true, () => false);
+    if (hasMirrorConfig) {
+      await this.executeCommand('git config --unset-all remote.origin.mirror', cloneDir);
+    }
+    
+    // LFS 对象需要在推送引用之前上传，否则目标 GitLab 会因缺少 LFS 对象拒绝推送
+    const lfsObjects = this.listLocalLfsObjects(cloneDir);
+    if (lfsObjects.length > 0) {
+      await this.ensureGitLfsAvailable();
+      console.log(ConsoleColors.progress(`开始推送 ${lfsObjects.length} 个 LFS 对象...`));
+      await this.executeCommandWithProgress('git lfs push --all origin', cloneDir);
+    }
+    
+    // 只推送配置的引用（默认为分支和标签），GitLab 拒绝的隐藏引用不会被推送，推送失败即为真实错误
+    console.log(ConsoleColors.progress(`开始推送镜像到目标仓库...`));
+    const refspecs = this.pushRefs.map(pattern => `"${pattern}:${pattern}"`).join(' ');
+    const pushCommand = `git push origin ${refspecs}`;
+    await this.executeCommandWithProgress(pushCommand, cloneDir);
+    
+    console.log(ConsoleColors.success(`镜像推送完成`));
+  }
+
+  /**
+   * 读取远程仓库的分支和标签（忽略 GitLab 隐藏引用和附注标签的解引用行）
+   */
+  private async listRemoteRefs(remoteUrl: string): Promise<Map<string, string>> {
+    const output = await this.executeCommand(`git ls-remote --heads --tags "${remoteUrl}"`);
+    const refs = new Map<string, string>();
+    for (const line of output.split('\n')) {
+      const [sha, ref] = line.trim().split(/\s+/);
+      if (!sha || !ref || ref.endsWith('^{}')) continue;
+      if (!ref.startsWith('refs/heads/') && !ref.startsWith('refs/tags/')) continue;
+      refs.set(ref, sha);
+    }
+    return refs;
+  }
+
+  /**
+   * 比较源仓库与目标仓库的分支和标签，返回目标中缺失和指向不同提交的引用
+   */
+  private async verifyTargetRefs(sourceUrl: string, targetUrl: string): Promise<{ refCount: number; missingRefs: string[]; differingRefs: string[]; targetRefs: Map<string, string> }> {
+    const sourceRefs = await this.listRemoteRefs(sourceUrl);
+    const targetRefs = await this.listRemoteRefs(targetUrl);
+    
+    const missingRefs: string[] = [];
+    const differingRefs: string[] = [];
+    for (const [ref, sha] of sourceRefs) {
+      const targetSha = targetRefs.get(ref);
+      if (!targetSha) {
+        missingRefs.push(ref);
+      } else if (targetSha !== sha) {
+        differingRefs.push(ref);
+      }
+    }
+    
+    return { refCount: sourceRefs.size, missingRefs, differingRefs, targetRefs };
+  }
+
+  /**
+   * 设置目标仓库的默认分支（分支需已推送到目标仓库）
+   */
+  private async updateDefaultBranch(repoName: string, defaultBranch: string): Promise<void> {
+    console.log(ConsoleColors.progress(`正在设置默认分支: ${defaultBranch}`));
+    const targetProject = await this.getTargetProject(repoName);
+    await this.requestTargetApi(`/projects/${targetProject.id}`, {
+      method: 'PUT',
+      body: { default_branch: defaultBranch }
+    });
+    console.log(ConsoleColors.success(`默认分支已设置为: ${defaultBranch}`));
+  }
+
+  /**
+   * 读取镜像目录中 HEAD 指向的分支，即源项目的默认分支（分支不存在时返回 null）
+   */
+  private async getMirrorDefaultBranch(cloneDir: string): Promise<string | null> {
+    try {
+      const branch = await this.runCommand('git symbolic-ref --short HEAD', cloneDir);
+      await this.runCommand(`git rev-parse --verify --quiet "refs/heads/${branch}"`, cloneDir);
+      return branch || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 从保护规则的访问级别列表中取按角色授权的级别
+   * 按用户、分组或部署密钥授权的规则在两个实例之间无法对应，没有按角色授权的规则时使用 Maintainer
+   * 创建接口只接受一个角色级别，有多个时取其中最低的授权级别，原本允许的角色仍然允许
+   */
+  private toProtectedAccessLevel(accessLevels: any[] | undefined): { accessLevel: number; hasUnmappedRules: boolean; hasMultipleRoleLevels: boolean } {
+    const roleLevels = (accessLevels || []).filter(level => !level.user_id && !level.group_id && !level.deploy_key_id);
+    const grantingLevels = roleLevels.map(level => level.access_level).filter(level => level > 0);
+    return {
+      accessLevel: roleLevels.length === 0 ? 40 : grantingLevels.length > 0 ? Math.min(...grantingLevels) : 0,
+      hasUnmappedRules: roleLevels.length < (accessLevels || []).length,
+      hasMultipleRoleLevels: roleLevels.length > 1
+    };
+  }
+
+  /**
+   * 汇总保护规则中未能按原样复制的部分
+   */
+  private describeProtectionLoss(label: string, levels: { hasUnmappedRules: boolean; hasMultipleRoleLevels: boolean }[]): string[] {
+    const warnings: string[] = [];
+    if (levels.some(level => level.hasUnmappedRules)) {
+      warnings.push(`${label} 中按用户、分组或部署密钥授权的规则未复制`);
+    }
+    if (levels.some(level => level.hasMultipleRoleLevels)) {
+      warnings.push(`${label} 包含多个按角色授权的级别，已按其中最低的级别复制`);
+    }
+    return warnings;
+  }
+
+  /**
+   * 按源保护分支的设置在目标项目中创建保护分支，返回未能复制的规则说明
+   */
+  private async protectTargetBranch(projectId: number, branch: any): Promise<string[]> {
+    const push = this.toProtectedAccessLevel(branch.push_access_levels);
+    const merge = this.toProtectedAccessLevel(branch.merge_access_levels);
+    await this.requestTargetApi(`/projects/${projectId}/protected_branches`, {
+      method: 'POST',
+      body: {
+        name: branch.name,
+        push_access_level: push.accessLevel,
+        merge_access_level: merge.accessLevel,
+        allow_force_push: !!branch.allow_force_push,
+        ...(branch.code_owner_approval_required ? { code_owner_approval_required: true } : {})
+      }
+    });
+    return this.describeProtectionLoss(`保护分支 ${branch.name}`, [push, merge]);
+  }
+
+  /**
+   * 按源保护标签的设置在目标项目中创建保护标签，返回未能复制的规则说明
+   */
+  private async protectTargetTag(projectId: number, tag: any): Promise<string[]> {
+    const create = this.toProtectedAccessLevel(tag.create_access_levels);
+    await this.requestTargetApi(`/projects/${projectId}/protected_tags`, {
+      method: 'POST',
+      body: { name: tag.name, create_access_level: create.accessLevel }
+    });
+    return this.describeProtectionLoss(`保护标签 ${tag.name}`, [create]);
+  }
+
+  /**
+   * 用源项目的规则替换目标项目中同名的保护规则，创建失败时恢复目标项目原有的规则，返回未能复制的规则说明
+   */
+  private async replaceTargetProtection(
+    projectId: number,
+    kind: 'protected_branches' | 'protected_tags',
+    sourceRule: any,
+    existingRule: any | undefined,
+    protect: (rule: any) => Promise<string[]>
+  ): Promise<string[]> {
+    const label = `${kind === 'protected_branches' ? '保护分支' : '保护标签'} ${sourceRule.name}`;
+    // 保护规则的访问级别无法直接修改，需要先移除再重新创建
+    if (existingRule) {
+      await this.requestTargetApi(`/projects/${projectId}/${kind}/${encodeURIComponent(existingRule.name)}`, { method: 'DELETE' });
+    }
+    try {
+      return await protect(sourceRule);
+    } catch (error: any) {
+      if (!existingRule) {
+        return [`${label} 复制失败: ${error.message}`];
+      }
+      try {
+        await protect(existingRule);
+        return [`${label} 复制失败，已恢复目标项目原有的规则: ${error.message}`];
+      } catch (restoreError: any) {
+        return [`${label} 复制失败，目标项目原有的规则也无法恢复，请手动设置: ${restoreError.message}`];
+      }
+    }
+  }
+
+  /**
+   * 推送期间临时取消将被更新的分支上的保护规则，推送结束后（包括失败时）按原设置恢复，返回恢复失败的说明
+   * 保护分支会拒绝推送，取消保护后推送失败即为真实错误；按用户、分组或部署密钥授权的规则无法按原样恢复，不会取消
+   */
+  private async withTargetBranchesUnprotected(repoName: string, branchNames: string[], action: () => Promise<unknown>): Promise<string[]> {
+    if (branchNames.length === 0) {
+      await action();
+      return [];
+    }
+    
+    // 保护规则的名称可以是通配符（如 release/*），按规则匹配本次推送的分支
+    const targetProject = await this.getTargetProject(repoName);
+    const protectedBranches = (await this.fetchAllPages(this.getGitLabApiBase(), this.accessToken, `/projects/${targetProject.id}/protected_branches`))
+      .filter(branch => {
+        const pattern = globToRegExp(branch.name);
+        return branchNames.some(name => pattern.test(name));
+      });
+    const unrestorable = protectedBranches.filter(branch =>
+      [branch.push_access_levels, branch.merge_access_levels].some(levels => {
+        const level = this.toProtectedAccessLevel(levels);
+        return level.hasUnmappedRules || level.hasMultipleRoleLevels;
+      })
+    );
+    if (unrestorable.length > 0) {
+      throw new Error(`目标项目的保护分支 ${unrestorable.map(branch => branch.name).join(', ')} 包含按用户、分组、部署密钥授权或多个角色级别的规则，取消保护后无法按原样恢复，请先在目标项目中手动取消保护后重试`);
+    }
+    
+    for (const branch of protectedBranches) {
+      await this.requestTargetApi(`/projects/${targetProject.id}/protected_branches/${encodeURIComponent(branch.name)}`, { method: 'DELETE' });
+    }
+    if (protectedBranches.length > 0) {
+      console.log(ConsoleColors.dim(`推送期间临时取消保护分支: ${protectedBranches.map(branch => branch.name).join(', ')}`));
+    }
+    
+    const warnings: string[] = [];
+    try {
+      await action();
+    } finally {
+      for (const branch of protectedBranches) {
+        try {
+          await this.protectTargetBranch(targetProject.id, branch);
+        } catch (error: any) {
+          warnings.push(`恢复保护分支 ${branch.name} 失败，请在目标项目中手动设置: ${error.message}`);
+        }
+      }
+    }
+    return warnings;
+  }
+
+  /**
+   * 将源项目的保护分支和保护标签复制到目标项目，只替换目标项目中同名的规则，目标项目独有的规则保持不变
+   */
+  private async replicateProtections(repo: TRepository): Promise<{ branchCount: number; tagCount: number; warnings: string[] }> {
+    const sourceProject = await this.getSourceProject(repo);
+    const targetProject = await this.getTargetProject(repo.name);
+    const warnings: string[] = [];
+    
+    // 同名规则（如首次推送时自动保护的默认分支）按源项目的设置重新创建
+    const sourceBranches = await this.fetchAllSourcePages(repo, `/projects/${sourceProject.id}/protected_branches`);
+    const targetBranches = new Map(
+      (await this.fetchAllPages(this.getGitLabApiBase(), this.accessToken, `/projects/${targetProject.id}/protected_branches`))
+        .map(branch => [branch.name, branch])
+    );
+    for (const branch of sourceBranches) {
+      warnings.push(...await this.replaceTargetProtection(
+        targetProject.id, 'protected_branches', branch, targetBranches.get(branch.name),
+        rule => this.protectTargetBranch(targetProject.id, rule)
+      ));
+    }
+    
+    const sourceTags = await this.fetchAllSourcePages(repo, `/projects/${sourceProject.id}/protected_tags`);
+    const targetTags = new Map(
+      (await this.fetchAllPages(this.getGitLabApiBase(), this.accessToken, `/projects/${targetProject.id}/protected_tags`))
+        .map(tag => [tag.name, tag])
+    );
+    for (const tag of sourceTags) {
+      warnings.push(...await this.replaceTargetProtection(
+        targetProject.id, 'protected_tags', tag, targetTags.get(tag.name),
+        rule => this.protectTargetTag(targetProject.id, rule)
+      ));
+    }
+    
+    return { branchCount: sourceBranches.length, tagCount: sourceTags.length, warnings };
+  }
+
+  /**
+   * 设置目标仓库的项目描述
+   */
+  private async updateRepositoryDescription(repoName: string, description: string): Promise<void> {
+    try {
+      console.log(ConsoleColors.info(`正在更新仓库描述: ${ConsoleColors.repo(repoName)}`));
       
       if (!description || description.trim() === '') {
         console.log(ConsoleColors.warning(`描述为空，跳过更新`));
         return;
       }
       
-      // 从目标分组URL中提取分组路径
-      const groupPath = this.extractGroupPath(this.targetGroupUrl);
-      const projectPath = `${groupPath}/${repoName}`;
-      const apiUrl = `${this.getGitLabApiBase()}/projects/${encodeURIComponent(projectPath)}`;
+      const apiUrl = `${this.getGitLabApiBase()}/projects/${encodeURIComponent(this.getTargetProjectPath(repoName))}`;
       
       const updateData = {
         description: description.trim()
@@ -1236,7 +3114,7 @@ class GitLabMigrator {
   /**
    * 克隆迁移后的仓库到本地
    */
-  private cloneFinalRepository(targetUrl: string, repoName: string): void {
+  private async cloneFinalRepository(targetUrl: string, repoName: string): Promise<void> {
     console.log(ConsoleColors.info(`正在克隆迁移后的仓库到本地: ${ConsoleColors.repo(repoName)}`));
     console.log(ConsoleColors.info(`目标仓库地址: ${ConsoleColors.url(targetUrl)}`));
     console.log(ConsoleColors.info(`本地目录: ${ConsoleColors.dim(repoName)}`));
@@ -1249,1497 +3127,4367 @@ class GitLabMigrator {
 
     console.log(ConsoleColors.progress(`开始克隆迁移后的仓库...`));
     const cloneCommand = `git clone "${targetUrl}" "${repoName}"`;
-    this.executeCommandWithProgress(cloneCommand);
+    await this.executeCommandWithProgress(cloneCommand);
     
     console.log(ConsoleColors.success(`迁移后仓库克隆完成: ${ConsoleColors.repo(repoName)}`));
   }
 
   /**
-   * 延迟保存迁移日志，避免频繁创建备份
+   * 生成带访问凭据的 HTTPS 仓库地址（用于 GitLab 镜像配置）
    */
-  private scheduleSaveMigrationLogs(): void {
-    // 清除之前的定时器
-    if (this.saveTimeout) {
-      clearTimeout(this.saveTimeout);
+  private buildAuthenticatedRepoUrl(apiBase: string, projectPath: string, token: string): string {
+    const url = new URL(apiBase.replace(/\/api\/v4$/, ''));
+    url.username = 'oauth2';
+    url.password = token;
+    url.pathname = `/${projectPath}.git`;
+    return url.toString();
+  }
+
+  /**
+   * 配置镜像同步：目标项目拉取镜像和/或源项目推送镜像
+   */
+  private async configureRepositoryMirrors(repo: TRepository, log: TMigrationLog): Promise<void> {
+    const targetProject = await this.getTargetProject(repo.name);
+    const statusTexts: string[] = [];
+    
+    if (this.pullMirror) {
+      // 拉取镜像通过 HTTPS 访问源仓库，SSH 地址同样转换为 HTTPS
+      const { projectPath } = this.parseGitUrl(repo.originalUrl);
+      const importUrl = this.buildAuthenticatedRepoUrl(this.getSourceApiBase(repo), projectPath, this.requireSourceAccessToken(repo));
+      
+      console.log(ConsoleColors.progress('正在将目标项目配置为源仓库的拉取镜像...'));
+      await this.requestTargetApi(`/projects/${targetProject.id}`, {
+        method: 'PUT',
+        body: {
+          import_url: importUrl,
+          mirror: true,
+          mirror_trigger_builds: false
+        }
+      });
+      
+      const pullMirror = await this.getPullMirrorStatus(targetProject.id);
+      log.pullMirrorId = pullMirror.id;
+      statusTexts.push(`拉取镜像: ${pullMirror.status}`);
+      console.log(ConsoleColors.success(`拉取镜像配置完成${pullMirror.id ? ` (ID: ${pullMirror.id})` : ''}`));
     }
     
-    // 设置新的延迟保存定时器（2秒后保存）
-    this.saveTimeout = setTimeout(() => {
-      this.saveMigrationLogs();
-      this.saveTimeout = null;
-    }, 2000);
+    if (this.pushMirror) {
+      const sourceProject = await this.getSourceProject(repo);
+      const mirrorUrl = this.buildAuthenticatedRepoUrl(this.getGitLabApiBase(), this.getTargetProjectPath(repo.name), this.accessToken);
+      
+      console.log(ConsoleColors.progress('正在源项目上配置指向目标仓库的推送镜像...'));
+      const remoteMirror = await this.requestSourceApi(repo, `/projects/${sourceProject.id}/remote_mirrors`, {
+        method: 'POST',
+        body: {
+          url: mirrorUrl,
+          enabled: true,
+          only_protected_branches: false,
+          keep_divergent_refs: false
+        }
+      });
+      
+      log.pushMirrorId = remoteMirror.id;
+      statusTexts.push(`推送镜像: ${remoteMirror.update_status || 'none'}`);
+      console.log(ConsoleColors.success(`推送镜像配置完成 (ID: ${remoteMirror.id})`));
+    }
+    
+    log.mirrorStatus = statusTexts.join('; ');
   }
 
   /**
-   * 强制保存迁移日志（程序退出时调用）
+   * 查询目标项目拉取镜像的状态
+   * 旧版本 GitLab 没有 /mirror/pull 接口时，从项目的导入状态中读取
    */
-  public forceSaveMigrationLogs(): void {
-    if (this.saveTimeout) {
-      clearTimeout(this.saveTimeout);
-      this.saveTimeout = null;
+  private async getPullMirrorStatus(targetProjectId: number): Promise<{ id?: number; status: string; lastSuccessfulUpdateAt?: string; lastUpdateAt?: string; lastError?: string }> {
+    try {
+      const mirror = await this.requestTargetApi(`/projects/${targetProjectId}/mirror/pull`);
+      return {
+        id: mirror.id,
+        status: mirror.update_status || 'none',
+        lastSuccessfulUpdateAt: mirror.last_successful_update_at || undefined,
+        lastUpdateAt: mirror.last_update_at || undefined,
+        lastError: mirror.last_error || undefined
+      };
+    } catch (error: any) {
+      if (error.status !== 404) {
+        throw error;
+      }
+      const project = await this.requestTargetApi(`/projects/${targetProjectId}`);
+      return {
+        status: project.import_status || 'none',
+        lastError: project.import_error || undefined
+      };
     }
-    this.saveMigrationLogs();
   }
 
   /**
-   * 更新迁移日志
+   * 显示各项目的迁移状态和镜像同步状态
    */
-  private updateMigrationLog(log: TMigrationLog): void {
-    // 更新最后修改时间
-    log.lastUpdated = new Date().toISOString();
+  public async status(): Promise<void> {
+    console.log('\n' + ConsoleColors.box('GitLab 项目迁移状态'));
+    console.log('');
     
-    // 确保必要的字段存在
-    if (!log.steps) log.steps = [];
-    if (!log.warnings) log.warnings = [];
-    if (log.retryCount === undefined) log.retryCount = 0;
-    if (!log.errorType && log.failureReason) {
-      log.errorType = 'unknown';
-    }
+    this.parseMoveFile();
+    await this.ensureAccessToken();
     
-    this.logs.set(log.projectName, log);
-    // 延迟保存，避免频繁创建备份
-    this.scheduleSaveMigrationLogs();
+    for (const repo of this.getRepositoriesToMigrate()) {
+      const log = this.logs.get(repo.name);
+      console.log(`\n📦 项目: ${ConsoleColors.highlight(repo.name)}`);
+      
+      if (!log) {
+        console.log(`   迁移状态: ${ConsoleColors.dim('未开始')}`);
+        continue;
+      }
+      
+      if (this.isMigrationCompleted(log)) {
+        console.log(`   迁移状态: ${ConsoleColors.success('已完成')}`);
+      } else if (log.failureReason) {
+        console.log(`   迁移状态: ${ConsoleColors.error(`失败 - ${log.failureReason}`)}`);
+      } else {
+        console.log(`   迁移状态: ${ConsoleColors.warning(`进行中，下一步: ${this.analyzeMigrationState(log).nextStep}`)}`);
+      }
+      if (log.targetRepoUrl) {
+        console.log(`   目标仓库: ${ConsoleColors.url(log.targetRepoUrl)}`);
+      }
+      if (log.lastSyncTime) {
+        console.log(`   最后同步: ${ConsoleColors.dim(log.lastSyncTime)}`);
+      }
+      
+      const statusTexts: string[] = [];
+      if (log.pullMirrorId || (log.isMirrorConfigured && !log.pushMirrorId)) {
+        try {
+          const targetProject = await this.getTargetProject(repo.name);
+          const pullMirror = await this.getPullMirrorStatus(targetProject.id);
+          statusTexts.push(`拉取镜像: ${pullMirror.status}`);
+          console.log(`   拉取镜像: ${this.formatMirrorStatus(pullMirror.status, pullMirror.lastSuccessfulUpdateAt, pullMirror.lastUpdateAt, pullMirror.lastError)}`);
+        } catch (error: any) {
+          console.log(`   拉取镜像: ${ConsoleColors.error(`查询失败 - ${error.message}`)}`);
+        }
+      }
+      if (log.pushMirrorId) {
+        try {
+          const sourceProject = await this.getSourceProject(repo);
+          const remoteMirror = await this.requestSourceApi(repo, `/projects/${sourceProject.id}/remote_mirrors/${log.pushMirrorId}`);
+          statusTexts.push(`推送镜像: ${remoteMirror.update_status || 'none'}`);
+          console.log(`   推送镜像: ${this.formatMirrorStatus(remoteMirror.update_status || 'none', remoteMirror.last_successful_update_at, remoteMirror.last_update_at, remoteMirror.last_error)}`);
+        } catch (error: any) {
+          console.log(`   推送镜像: ${ConsoleColors.error(`查询失败 - ${error.message}`)}`);
+        }
+      }
+      
+      if (statusTexts.length > 0) {
+        log.mirrorStatus = statusTexts.join('; ');
+        this.updateMigrationLog(log);
+      }
+    }
   }
 
   /**
-   * 创建配置文件备份
+   * 格式化镜像状态的显示文本
    */
-  private createConfigBackup(): string {
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const backupPath = this.moveFilePath.replace(/\.md$/, `.backup.${timestamp}.md`);
+  private formatMirrorStatus(status: string, lastSuccessfulUpdateAt?: string, lastUpdateAt?: string, lastError?: string): string {
+    const parts = [status === 'failed' ? ConsoleColors.error(status) : ConsoleColors.success(status)];
+    parts.push(`最后成功更新: ${lastSuccessfulUpdateAt || '无'}`);
+    if (lastUpdateAt) {
+      parts.push(`最后更新: ${lastUpdateAt}`);
+    }
+    if (lastError) {
+      parts.push(ConsoleColors.error(`错误: ${lastError}`));
+    }
+    return parts.join('，');
+  }
+
+  /**
+   * 判断目标 Access Token 是否属于管理员（管理员可通过 Sudo 以原作者身份创建内容）
+   */
+  private async checkTargetAdmin(): Promise<boolean> {
+    if (this.isTargetAdmin === null) {
+      try {
+        const user = await this.requestTargetApi('/user');
+        this.isTargetAdmin = !!user.is_admin;
+      } catch {
+        this.isTargetAdmin = false;
+      }
+    }
+    return this.isTargetAdmin;
+  }
+
+  /**
+   * 在目标 GitLab 中查找与源用户对应的用户（优先使用用户映射，否则按用户名匹配）
+   */
+  private async resolveTargetUser(sourceUser: { username?: string } | null | undefined): Promise<TTargetUser | null> {
+    if (!sourceUser || !sourceUser.username) {
+      return null;
+    }
+    if (this.targetUserCache.has(sourceUser.username)) {
+      return this.targetUserCache.get(sourceUser.username) ?? null;
+    }
     
+    const targetUsername = this.userMap[sourceUser.username] || sourceUser.username;
+    let targetUser: TTargetUser | null = null;
     try {
-      const content = readFileSync(this.moveFilePath, 'utf-8');
-      writeFileSync(backupPath, content, 'utf-8');
-      console.log(ConsoleColors.dim(`📋 已创建配置文件备份: ${path.basename(backupPath)}`));
-      return backupPath;
-    } catch (error) {
-      console.log(ConsoleColors.warning(`⚠️  创建备份失败: ${error instanceof Error ? error.message : String(error)}`));
-      return '';
+      const users = await this.requestTargetApi(`/users?username=${encodeURIComponent(targetUsername)}`);
+      if (users.length > 0) {
+        targetUser = { id: users[0].id, username: users[0].username };
+      }
+    } catch (error: any) {
+      console.log(ConsoleColors.dim(`查找目标用户 ${targetUsername} 失败: ${error.message}`));
     }
+    
+    this.targetUserCache.set(sourceUser.username, targetUser);
+    return targetUser;
   }
 
   /**
-   * 清理旧备份文件（保留最近5个）
+   * 查找与源成员对应的目标用户：先按用户映射和用户名匹配，找不到时按源用户的邮箱匹配
+   * 源用户的邮箱只有公开邮箱或源 Token 为管理员时可以读取
    */
-  private cleanupOldBackups(): void {
+  private async resolveTargetMember(repo: TRepository, member: any): Promise<TTargetUser | null> {
+    const targetUser = await this.resolveTargetUser(member);
+    if (targetUser || this.userMap[member.username]) {
+      return targetUser;
+    }
+    
     try {
-      const dir = path.dirname(this.moveFilePath);
-      const baseName = path.basename(this.moveFilePath, '.md');
-      const files = readdirSync(dir);
-       
-       const backupFiles = files
-         .filter((file: string) => file.startsWith(`${baseName}.backup.`) && file.endsWith('.md'))
-         .map((file: string) => ({
-           name: file,
-           path: path.join(dir, file),
-           time: statSync(path.join(dir, file)).mtime
-         }))
-        .sort((a: any, b: any) => b.time.getTime() - a.time.getTime());
-      
-      // 保留最近5个备份，删除其余的
-      if (backupFiles.length > 5) {
-        const filesToDelete = backupFiles.slice(5);
-        filesToDelete.forEach((file: any) => {
-          try {
-            rmSync(file.path);
-            console.log(ConsoleColors.dim(`🗑️  已删除旧备份: ${file.name}`));
-          } catch (error) {
-            console.log(ConsoleColors.warning(`⚠️  删除备份失败: ${file.name}`));
-          }
-        });
+      const sourceUser = await this.requestSourceApi(repo, `/users/${member.id}`);
+      const email = (sourceUser.email || sourceUser.public_email || '').toLowerCase();
+      if (!email) {
+        return null;
       }
-    } catch (error) {
-      // 清理失败不影响主流程，只记录警告
-      console.log(ConsoleColors.dim('⚠️  清理旧备份时出现问题，但不影响主流程'));
+      const users = await this.requestTargetApi(`/users?search=${encodeURIComponent(email)}`);
+      const matchedUser = users.find((user: any) =>
+        [user.email, user.public_email].some(userEmail => (userEmail || '').toLowerCase() === email)
+      );
+      if (matchedUser) {
+        const matchedTargetUser = { id: matchedUser.id, username: matchedUser.username };
+        this.targetUserCache.set(member.username, matchedTargetUser);
+        console.log(ConsoleColors.dim(`按邮箱匹配成员 ${member.username} → ${matchedUser.username}`));
+        return matchedTargetUser;
+      }
+    } catch (error: any) {
+      console.log(ConsoleColors.dim(`按邮箱查找成员 ${member.username} 失败: ${error.message}`));
     }
+    return null;
   }
 
   /**
-   * 清理旧的临时目录（保留最近3个，删除超过24小时的）
+   * 生成保留原作者和创建时间的引用头
    */
+  private formatOriginalAuthorHeader(author: any, createdAt: string, webUrl?: string): string {
+    const authorText = author ? `**${author.name}** (${author.username})` : '**未知用户**';
+    const linkText = webUrl ? ` · [原始链接](${webUrl})` : '';
+    return `> 原作者: ${authorText} · 创建于 ${createdAt}${linkText}\n\n`;
+  }
+
   /**
-   * 清理旧的临时目录
-   * 增强版本：更好的错误处理、详细日志、空目录检测、强制清理策略
+   * 在目标项目中创建内容，尽量保留原作者
+   * 原作者能映射到目标用户且 Token 为管理员时通过 Sudo 以原作者身份创建，否则在正文前添加原作者引用头
    */
-  private cleanupOldTempDirectories(): void {
-    try {
-      const currentDir = process.cwd();
-      
-      // 检查当前目录是否存在
-      if (!existsSync(currentDir)) {
-        console.warn(ConsoleColors.warning('当前目录不存在，跳过临时目录清理'));
-        return;
-      }
-      
-      const files = readdirSync(currentDir);
-      const now = new Date().getTime();
-      const oneDayMs = 24 * 60 * 60 * 1000; // 24小时的毫秒数
-      const oneHourMs = 60 * 60 * 1000; // 1小时的毫秒数
-      
-      // 查找所有临时目录
-      const tempDirs = files
-        .filter((file: string) => {
-          try {
-            return file.startsWith('temp-migration-') && 
-                   statSync(path.join(currentDir, file)).isDirectory();
-          } catch {
-            return false;
-          }
-        })
-        .map((dir: string) => {
-          const dirPath = path.join(currentDir, dir);
-          try {
-            const stat = statSync(dirPath);
-            
-            // 检查目录是否为空
-            let isEmpty = false;
-            let fileCount = 0;
-            try {
-              const dirContents = readdirSync(dirPath);
-              fileCount = dirContents.length;
-              isEmpty = fileCount === 0;
-            } catch (error) {
-              console.warn(ConsoleColors.warning(`检查目录 ${dir} 内容时出错: ${error}`));
-            }
-            
-            return {
-              name: dir,
-              path: dirPath,
-              time: stat.mtime,
-              age: now - stat.mtime.getTime(),
-              isEmpty: isEmpty,
-              fileCount: fileCount,
-              size: this.getDirectorySize(dirPath)
-            };
-          } catch (error) {
-            console.warn(ConsoleColors.warning(`获取目录 ${dir} 信息时出错: ${error}`));
-            return null;
-          }
-        })
-        .filter((dir): dir is NonNullable<typeof dir> => dir !== null)
-        .sort((a, b) => b.time.getTime() - a.time.getTime());
-      
-      if (tempDirs.length === 0) {
-        console.log(ConsoleColors.dim('未发现需要清理的临时目录'));
-        return;
+  private async createTargetContent(
+    endpoint: string,
+    body: Record<string, any>,
+    textField: string,
+    author: any,
+    createdAt: string,
+    webUrl?: string
+  ): Promise<any> {
+    const targetUser = await this.resolveTargetUser(author);
+    if (targetUser && await this.checkTargetAdmin()) {
+      try {
+        return await this.requestTargetApi(endpoint, {
+          method: 'POST',
+          body: { ...body, created_at: createdAt },
+          sudo: targetUser.username
+        });
+      } catch (error: any) {
+        if (error.status !== 401 && error.status !== 403) {
+          throw error;
+        }
+        // Token 缺少 sudo 权限，后续统一改用原作者引用头
+        console.log(ConsoleColors.warning('Access Token 无法使用 Sudo，改为在正文中保留原作者信息'));
+        this.isTargetAdmin = false;
       }
+    }
+    
+    const header = this.formatOriginalAuthorHeader(author, createdAt, webUrl);
+    return this.requestTargetApi(endpoint, {
+      method: 'POST',
+      body: { ...body, [textField]: header + (body[textField] || ''), created_at: createdAt }
+    });
+  }
 
-      console.log(ConsoleColors.info(`发现 ${tempDirs.length} 个临时目录`));
-      
-      // 分类需要删除的目录
-      const emptyDirs = tempDirs.filter(dir => dir.isEmpty);
-      const oldDirs = tempDirs.filter(dir => dir.age > oneDayMs && !dir.isEmpty);
-      const veryOldDirs = tempDirs.filter(dir => dir.age > oneHourMs && !dir.isEmpty); // 超过1小时的非空目录
-      const excessDirs = tempDirs.slice(3).filter(dir => !dir.isEmpty && dir.age < oneDayMs);
-      
-      // 强制清理策略：空目录立即删除，超过1小时的目录也删除（而不是24小时）
-      const dirsToDelete = [
-        ...emptyDirs, // 所有空目录
-        ...oldDirs,   // 超过24小时的目录
-        ...excessDirs, // 超出保留数量的目录
-        ...veryOldDirs.filter(dir => !oldDirs.includes(dir) && !excessDirs.includes(dir)) // 超过1小时但不在其他分类中的目录
-      ];
-      
-      // 去重
-      const uniqueDirsToDelete = Array.from(new Set(dirsToDelete));
-      
-      if (uniqueDirsToDelete.length === 0) {
-        console.log(ConsoleColors.dim('所有临时目录都在保留范围内，无需清理'));
-        return;
-      }
+  /**
+   * 将源对象的评论复制到目标对象（忽略系统评论）
+   * 断点续传时跳过前 skipCount 条已复制的评论，每复制一条通过 onCopied 报告已复制的数量
+   */
+  private async copyNotes(
+    repo: TRepository,
+    sourceNotesEndpoint: string,
+    targetNotesEndpoint: string,
+    webUrl: string,
+    skipCount: number = 0,
+    onCopied?: (copiedCount: number) => void
+  ): Promise<number> {
+    const notes = await this.fetchAllSourcePages(repo, `${sourceNotesEndpoint}?sort=asc&order_by=created_at`);
+    const userNotes = notes.filter(note => !note.system);
+    
+    for (let index = skipCount; index < userNotes.length; index++) {
+      const note = userNotes[index];
+      await this.createTargetContent(
+        targetNotesEndpoint,
+        { body: note.body },
+        'body',
+        note.author,
+        note.created_at,
+        `${webUrl}#note_${note.id}`
+      );
+      onCopied?.(index + 1);
+    }
+    
+    return userNotes.length;
+  }
 
-      console.log(ConsoleColors.info(`🧹 准备清理 ${uniqueDirsToDelete.length} 个临时目录:`));
-      if (emptyDirs.length > 0) {
-        console.log(ConsoleColors.dim(`  - ${emptyDirs.length} 个空目录`));
-      }
-      if (oldDirs.length > 0) {
-        console.log(ConsoleColors.dim(`  - ${oldDirs.length} 个超过24小时的目录`));
-      }
-      if (veryOldDirs.length > 0) {
-        console.log(ConsoleColors.dim(`  - ${veryOldDirs.filter(dir => !oldDirs.includes(dir)).length} 个超过1小时的目录`));
-      }
-      if (excessDirs.length > 0) {
-        console.log(ConsoleColors.dim(`  - ${excessDirs.length} 个超出保留数量的目录`));
+  /**
+   * 将源指派人映射为目标用户ID，返回无法映射的用户名
+   */
+  private async mapAssignees(assignees: any[] | undefined): Promise<{ assigneeIds: number[]; unmappedAssignees: string[] }> {
+    const assigneeIds: number[] = [];
+    const unmappedAssignees: string[] = [];
+    for (const assignee of assignees || []) {
+      const targetUser = await this.resolveTargetUser(assignee);
+      if (targetUser) {
+        assigneeIds.push(targetUser.id);
+      } else {
+        unmappedAssignees.push(assignee.username);
       }
-      
-      let successCount = 0;
-      let failureCount = 0;
-      
-      uniqueDirsToDelete.forEach(dir => {
-        try {
-          const ageHours = Math.round(dir.age / oneHourMs * 10) / 10;
-          const sizeInfo = dir.size > 0 ? ` (${this.formatBytes(dir.size)})` : ' (空)';
-          const ageInfo = ageHours < 1 ? ' (新建)' : ` (${ageHours}h前)`;
-          
-          rmSync(dir.path, { recursive: true, force: true });
-          console.log(ConsoleColors.dim(`  ✓ 已删除: ${dir.name}${sizeInfo}${ageInfo}`));
-          successCount++;
-        } catch (error) {
-          console.warn(ConsoleColors.warning(`  ✗ 删除失败: ${dir.name} - ${error}`));
-          failureCount++;
+    }
+    return { assigneeIds, unmappedAssignees };
+  }
+
+  /**
+   * 获取目标项目中同名里程碑的ID，不存在时创建
+   */
+  private async ensureTargetMilestone(targetProjectId: number, milestone: any): Promise<number> {
+    const cacheKey = `${targetProjectId}:${milestone.title}`;
+    const cachedId = this.targetMilestoneCache.get(cacheKey);
+    if (cachedId) {
+      return cachedId;
+    }
+    
+    const existing = await this.requestTargetApi(
+      `/projects/${targetProjectId}/milestones?include_ancestors=true&title=${encodeURIComponent(milestone.title)}`
+    );
+    let milestoneId: number;
+    if (existing.length > 0) {
+      milestoneId = existing[0].id;
+    } else {
+      const created = await this.requestTargetApi(`/projects/${targetProjectId}/milestones`, {
+        method: 'POST',
+        body: {
+          title: milestone.title,
+          description: milestone.description || '',
+          due_date: milestone.due_date || undefined,
+          start_date: milestone.start_date || undefined
         }
       });
-      
-      // 清理结果摘要
-      if (successCount > 0) {
-        console.log(ConsoleColors.success(`✓ 成功清理 ${successCount} 个临时目录`));
+      milestoneId = created.id;
+      if (milestone.state === 'closed') {
+        await this.requestTargetApi(`/projects/${targetProjectId}/milestones/${milestoneId}`, {
+          method: 'PUT',
+          body: { state_event: 'close' }
+        });
       }
-      if (failureCount > 0) {
-        console.warn(ConsoleColors.warning(`⚠ ${failureCount} 个目录清理失败`));
+    }
+    
+    this.targetMilestoneCache.set(cacheKey, milestoneId);
+    return milestoneId;
+  }
+
+  /**
+   * 迁移源项目的标签（名称、颜色、描述、优先级），目标项目或其上级分组中已有的同名标签跳过
+   * @returns 新建的标签数量
+   */
+  private async migrateProjectLabels(repo: TRepository): Promise<number> {
+    const sourceProject = await this.getSourceProject(repo);
+    const targetProject = await this.getTargetProject(repo.name);
+    
+    // 只迁移项目级标签，源分组的标签不属于该项目
+    const labels = (await this.fetchAllSourcePages(repo, `/projects/${sourceProject.id}/labels?include_ancestor_groups=false`))
+      .filter(label => label.is_project_label !== false);
+    const existingLabels = await this.fetchAllPages(this.getGitLabApiBase(), this.accessToken, `/projects/${targetProject.id}/labels?include_ancestor_groups=true`);
+    const existingNames = new Set(existingLabels.map(label => label.name));
+    console.log(ConsoleColors.info(`待迁移标签: ${labels.length} 个`));
+    
+    let createdCount = 0;
+    for (const label of labels) {
+      if (existingNames.has(label.name)) {
+        console.log(ConsoleColors.dim(`标签 ${label.name} 已存在，跳过`));
+        continue;
       }
-      
-    } catch (error) {
-      console.warn(ConsoleColors.warning(`清理临时目录时出错: ${error}`));
+      await this.requestTargetApi(`/projects/${targetProject.id}/labels`, {
+        method: 'POST',
+        body: {
+          name: label.name,
+          color: label.color,
+          description: label.description || undefined,
+          priority: label.priority ?? undefined
+        }
+      });
+      existingNames.add(label.name);
+      createdCount++;
     }
+    return createdCount;
   }
-  
+
   /**
-   * 获取目录大小（字节）
+   * 迁移源项目的里程碑（标题、描述、开始和截止日期、状态），目标项目或其上级分组中已有的同名里程碑跳过
+   * @returns 新建的里程碑数量
    */
-  private getDirectorySize(dirPath: string): number {
-    try {
-      let totalSize = 0;
-      const files = readdirSync(dirPath);
-      
-      for (const file of files) {
-        const filePath = path.join(dirPath, file);
-        const stats = statSync(filePath);
-        
-        if (stats.isDirectory()) {
-          totalSize += this.getDirectorySize(filePath);
-        } else {
-          totalSize += stats.size;
+  private async migrateProjectMilestones(repo: TRepository): Promise<number> {
+    const sourceProject = await this.getSourceProject(repo);
+    const targetProject = await this.getTargetProject(repo.name);
+    
+    const milestones = await this.fetchAllSourcePages(repo, `/projects/${sourceProject.id}/milestones`);
+    const existingMilestones = await this.fetchAllPages(this.getGitLabApiBase(), this.accessToken, `/projects/${targetProject.id}/milestones?include_ancestors=true`);
+    const existingTitles = new Set(existingMilestones.map(milestone => milestone.title));
+    console.log(ConsoleColors.info(`待迁移里程碑: ${milestones.length} 个`));
+    
+    let createdCount = 0;
+    for (const milestone of milestones) {
+      if (existingTitles.has(milestone.title)) {
+        console.log(ConsoleColors.dim(`里程碑 ${milestone.title} 已存在，跳过`));
+        continue;
+      }
+      const created = await this.requestTargetApi(`/projects/${targetProject.id}/milestones`, {
+        method: 'POST',
+        body: {
+          title: milestone.title,
+          description: milestone.description || '',
+          due_date: milestone.due_date || undefined,
+          start_date: milestone.start_date || undefined
         }
+      });
+      if (milestone.state === 'closed') {
+        await this.requestTargetApi(`/projects/${targetProject.id}/milestones/${created.id}`, {
+          method: 'PUT',
+          body: { state_event: 'close' }
+        });
       }
-      
-      return totalSize;
-    } catch (error) {
-      return 0;
+      // 迁移议题和合并请求时直接复用
+      this.targetMilestoneCache.set(`${targetProject.id}:${milestone.title}`, created.id);
+      existingTitles.add(milestone.title);
+      createdCount++;
     }
+    return createdCount;
   }
-  
+
   /**
-   * 格式化字节大小为可读格式
+   * 迁移源项目的发布：按标签重建发布说明、发布时间、关联里程碑和资源链接
+   * 目标项目中已有发布的标签跳过，标签未推送到目标仓库的发布无法创建，作为警告返回
    */
-  private formatBytes(bytes: number): string {
-    if (bytes === 0) return '0 B';
+  private async migrateProjectReleases(repo: TRepository, log: TMigrationLog): Promise<{ createdCount: number; warnings: string[] }> {
+    const sourceProject = await this.getSourceProject(repo);
+    const targetProject = await this.getTargetProject(repo.name);
     
-    const k = 1024;
-    const sizes = ['B', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    const releases = await this.fetchAllSourcePages(repo, `/projects/${sourceProject.id}/releases?order_by=released_at&sort=asc`);
+    const existingReleases = await this.fetchAllPages(this.getGitLabApiBase(), this.accessToken, `/projects/${targetProject.id}/releases`);
+    const existingTags = new Set(existingReleases.map(release => release.tag_name));
+    const targetTags = new Set(
+      Array.from((await this.listRemoteRefs(log.targetRepoUrl)).keys())
+        .filter(ref => ref.startsWith('refs/tags/'))
+        .map(ref => ref.substring('refs/tags/'.length))
+    );
+    // 发布只能关联目标项目中已存在的里程碑
+    const targetMilestoneTitles = new Set(
+      (await this.fetchAllPages(this.getGitLabApiBase(), this.accessToken, `/projects/${targetProject.id}/milestones?include_ancestors=true`))
+        .map(milestone => milestone.title)
+    );
+    console.log(ConsoleColors.info(`待迁移发布: ${releases.length} 个`));
     
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
+    const warnings: string[] = [];
+    let createdCount = 0;
+    for (const release of releases) {
+      if (existingTags.has(release.tag_name)) {
+        console.log(ConsoleColors.dim(`发布 ${release.tag_name} 已存在，跳过`));
+        continue;
+      }
+      if (!targetTags.has(release.tag_name)) {
+        warnings.push(`发布 ${release.name || release.tag_name} 的标签 ${release.tag_name} 不在目标仓库中，未迁移`);
+        continue;
+      }
+      
+      const milestones = (release.milestones || [])
+        .map((milestone: any) => milestone.title)
+        .filter((title: string) => targetMilestoneTitles.has(title));
+      const links = ((release.assets && release.assets.links) || []).map((link: any) => ({
+        name: link.name,
+        url: link.url,
+        link_type: link.link_type || undefined,
+        direct_asset_path: link.direct_asset_path || undefined
+      }));
+      // 发布证据由目标 GitLab 在创建时重新生成，在发布说明末尾保留源发布证据的链接
+      const evidences = (release.evidences || []).filter((evidence: any) => evidence.filepath);
+      const evidenceNote = evidences.length > 0
+        ? `\n\n---\n源发布证据：\n${evidences.map((evidence: any) => `- [${evidence.collected_at || evidence.sha}](${evidence.filepath})`).join('\n')}`
+        : '';
+      
+      await this.requestTargetApi(`/projects/${targetProject.id}/releases`, {
+        method: 'POST',
+        body: {
+          tag_name: release.tag_name,
+          name: release.name || release.tag_name,
+          description: release.description ? `${release.description}${evidenceNote}` : evidenceNote.trimStart(),
+          released_at: release.released_at || undefined,
+          ...(milestones.length > 0 ? { milestones } : {}),
+          ...(links.length > 0 ? { assets: { links } } : {})
+        }
+      });
+      existingTags.add(release.tag_name);
+      createdCount++;
+      console.log(ConsoleColors.success(`已创建发布: ${release.name || release.tag_name}`));
+    }
+    return { createdCount, warnings };
   }
 
   /**
-   * 保存迁移日志到move.md文件
+   * 复制源项目的 CI/CD 变量（类型、保护、掩码、环境范围），目标项目中已有的同名同环境变量保持不变
+   * 变量值只在 API 请求中传递，不输出到控制台和日志
    */
-  private saveMigrationLogs(): void {
-    try {
-      // 只在重要节点创建备份（如迁移完成或失败）
-      const shouldCreateBackup = Array.from(this.logs.values()).some(log => 
-        log.isFinalCloned || log.failureReason
-      );
-      
-      if (shouldCreateBackup) {
-        this.createConfigBackup();
+  private async migrateProjectVariables(repo: TRepository, log: TMigrationLog): Promise<{ createdCount: number; warnings: string[] }> {
+    const sourceProject = await this.getSourceProject(repo);
+    const targetProject = await this.getTargetProject(repo.name);
+    
+    const variables = await this.fetchAllSourcePages(repo, `/projects/${sourceProject.id}/variables`);
+    const existingVariables = await this.fetchAllPages(this.getGitLabApiBase(), this.accessToken, `/projects/${targetProject.id}/variables`);
+    const variableId = (variable: any) => `${variable.key}@${variable.environment_scope || '*'}`;
+    const existingIds = new Set(existingVariables.map(variableId));
+    console.log(ConsoleColors.info(`待迁移 CI/CD 变量: ${variables.length} 个`));
+    
+    const skippedVariables: string[] = [];
+    const warnings: string[] = [];
+    let createdCount = 0;
+    for (const variable of variables) {
+      const name = `${variable.key} (${variable.environment_scope || '*'})`;
+      if (this.skipVariablePatterns.some(pattern => pattern.test(variable.key))) {
+        skippedVariables.push(name);
+        continue;
       }
-      
-      // 确保目录存在
-      const dir = path.dirname(this.moveFilePath);
-      if (!existsSync(dir)) {
-        mkdirSync(dir, { recursive: true });
+      if (existingIds.has(variableId(variable))) {
+        console.log(ConsoleColors.dim(`变量 ${name} 已存在，跳过`));
+        continue;
       }
       
-      // 检查文件是否存在，如果不存在则创建基础内容
-      let content: string;
-      if (existsSync(this.moveFilePath)) {
-        content = readFileSync(this.moveFilePath, 'utf-8');
+      try {
+        await this.requestTargetApi(`/projects/${targetProject.id}/variables`, {
+          method: 'POST',
+          body: {
+            key: variable.key,
+            value: variable.value,
+            variable_type: variable.variable_type || 'env_var',
+            protected: !!variable.protected,
+            ...(variable.hidden ? { masked_and_hidden: true } : { masked: !!variable.masked }),
+            raw: !!variable.raw,
+            environment_scope: variable.environment_scope || '*',
+            ...(variable.description ? { description: variable.description } : {})
+          }
+        });
+        existingIds.add(variableId(variable));
+        createdCount++;
+        console.log(ConsoleColors.success(`已复制变量: ${name}`));
+      } catch (error: any) {
+        // 目标实例的掩码规则可能更严格，单个变量失败不影响其他变量
+        warnings.push(`复制变量 ${name} 失败: ${error.message}`);
+      }
+    }
+    
+    log.skippedVariables = skippedVariables;
+    if (skippedVariables.length > 0) {
+      warnings.push(`以下变量未复制，需要在目标项目中重新设置: ${skippedVariables.join(', ')}`);
+    }
+    return { createdCount, warnings };
+  }
+
+  /**
+   * 将源项目的设置按允许列表同步到目标项目
+   * GitLab 会忽略不认识的参数，因此设置后重新读取目标项目，值不一致的属性视为未生效
+   */
+  private async syncProjectSettings(repo: TRepository, log: TMigrationLog): Promise<{ appliedCount: number; warnings: string[] }> {
+    const sourceProject = await this.getSourceProject(repo);
+    const targetProject = await this.getTargetProject(repo.name);
+    
+    // 仓库配置中单独指定的属性以配置为准，不用源项目的值覆盖
+    const overriddenAttributes = new Set<string>();
+    if (repo.topics && repo.topics.length > 0) overriddenAttributes.add('topics');
+    if (repo.visibility) overriddenAttributes.add('visibility');
+    if (repo.defaultBranch) overriddenAttributes.add('default_branch');
+    
+    const settings: Record<string, any> = {};
+    const unappliedSettings: string[] = [];
+    for (const attribute of this.settingsAttributes) {
+      if (attribute === 'avatar' || overriddenAttributes.has(attribute)) {
+        continue;
+      }
+      if (!(attribute in sourceProject)) {
+        unappliedSettings.push(`${attribute}: 源项目未返回该属性`);
+        continue;
+      }
+      // 源项目未设置的属性保持目标项目的默认值
+      if (sourceProject[attribute] !== null) {
+        settings[attribute] = sourceProject[attribute];
+      }
+    }
+    console.log(ConsoleColors.info(`待同步项目设置: ${Object.keys(settings).length} 项`));
+    
+    const failedAttributes = new Set<string>();
+    if (Object.keys(settings).length > 0) {
+      try {
+        await this.requestTargetApi(`/projects/${targetProject.id}`, { method: 'PUT', body: settings });
+      } catch (error: any) {
+        if (error.status !== 400) {
+          throw error;
+        }
+        // 目标实例拒绝了部分取值，逐项设置以找出不支持的属性
+        for (const [attribute, value] of Object.entries(settings)) {
+          try {
+            await this.requestTargetApi(`/projects/${targetProject.id}`, { method: 'PUT', body: { [attribute]: value } });
+          } catch (attributeError: any) {
+            if (attributeError.status !== 400) {
+              throw attributeError;
+            }
+            failedAttributes.add(attribute);
+            unappliedSettings.push(`${attribute}: 目标实例拒绝了该设置`);
+          }
+        }
+      }
+    }
+    
+    const normalize = (attribute: string, value: any) =>
+      JSON.stringify(attribute === 'topics' && Array.isArray(value) ? [...value].sort() : value ?? null);
+    const updatedProject = await this.getTargetProject(repo.name);
+    let appliedCount = 0;
+    for (const [attribute, value] of Object.entries(settings)) {
+      if (failedAttributes.has(attribute)) {
+        continue;
+      }
+      if (normalize(attribute, updatedProject[attribute]) === normalize(attribute, value)) {
+        appliedCount++;
       } else {
-        console.log('📝 move.md 文件不存在，创建新的日志文件');
-        content = '# GitLab 仓库迁移配置\n\n## 日志';
+        unappliedSettings.push(`${attribute}: 目标实例不支持该设置`);
+      }
+    }
+    
+    if (this.settingsAttributes.includes('avatar') && sourceProject.avatar_url) {
+      try {
+        await this.copyProjectAvatar(repo, sourceProject, targetProject.id);
+        appliedCount++;
+      } catch (error: any) {
+        unappliedSettings.push(`avatar: ${error.message}`);
+      }
+    }
+    
+    log.unappliedSettings = unappliedSettings;
+    const warnings: string[] = [];
+    if (unappliedSettings.length > 0) {
+      warnings.push(`以下项目设置未能在目标项目中生效，可能是两个实例的版本或版本类型不同: ${unappliedSettings.join('; ')}`);
+    }
+    return { appliedCount, warnings };
+  }
+
+  /**
+   * 下载源项目头像并上传到目标项目
+   */
+  private async copyProjectAvatar(repo: TRepository, sourceProject: any, targetProjectId: number): Promise<void> {
+    // 项目头像下载接口需要 GitLab 16.9 及以上版本
+    const downloadResponse = await fetch(`${this.getSourceApiBase(repo)}/projects/${sourceProject.id}/avatar`, {
+      headers: { 'Authorization': `Bearer ${this.requireSourceAccessToken(repo)}` }
+    });
+    if (!downloadResponse.ok) {
+      throw new Error(`下载源项目头像失败，HTTP状态码: ${downloadResponse.status}`);
+    }
+    
+    const formData = new FormData();
+    const fileName = path.basename(new URL(sourceProject.avatar_url).pathname) || 'avatar.png';
+    formData.append('avatar', await downloadResponse.blob(), fileName);
+    const uploadResponse = await fetch(`${this.getGitLabApiBase()}/projects/${targetProjectId}`, {
+      method: 'PUT',
+      headers: { 'Authorization': `Bearer ${this.accessToken}` },
+      body: formData
+    });
+    if (!uploadResponse.ok) {
+      const errorData = await uploadResponse.text();
+      throw new Error(`上传项目头像失败，HTTP状态码: ${uploadResponse.status}，错误信息: ${errorData}`);
+    }
+    console.log(ConsoleColors.success(`已复制项目头像: ${fileName}`));
+  }
+
+  /**
+   * 迁移源项目的成员及其访问级别和过期时间
+   * 目标项目中已有相同或更高访问级别的用户保持不变，找不到对应用户的成员记录到日志中
+   */
+  private async migrateProjectMembers(repo: TRepository, log: TMigrationLog): Promise<{ addedCount: number; warnings: string[] }> {
+    const sourceProject = await this.getSourceProject(repo);
+    const targetProject = await this.getTargetProject(repo.name);
+    
+    // members/all 包含从上级分组继承的成员
+    const membersEndpoint = this.withGroupMembers ? 'members/all' : 'members';
+    const members = await this.fetchAllSourcePages(repo, `/projects/${sourceProject.id}/${membersEndpoint}`);
+    const targetMembers = await this.fetchAllPages(this.getGitLabApiBase(), this.accessToken, `/projects/${targetProject.id}/members/all`);
+    const targetAccessLevels = new Map<number, number>(targetMembers.map(member => [member.id, member.access_level]));
+    console.log(ConsoleColors.info(`待迁移成员: ${members.length} 个`));
+    
+    const unmatchedMembers: string[] = [];
+    const warnings: string[] = [];
+    let addedCount = 0;
+    for (const member of members) {
+      const targetUser = await this.resolveTargetMember(repo, member);
+      if (!targetUser) {
+        unmatchedMembers.push(member.username);
+        continue;
       }
       
-      const lines = content.split('\n');
-      
-      // 找到日志部分的开始位置
-      let logStartIndex = lines.findIndex(line => line.includes('## 日志'));
-      let beforeLogLines: string[];
+      const existingLevel = targetAccessLevels.get(targetUser.id);
+      if (existingLevel !== undefined && existingLevel >= member.access_level) {
+        console.log(ConsoleColors.dim(`成员 ${targetUser.username} 已有访问权限，跳过`));
+        continue;
+      }
       
-      if (logStartIndex === -1) {
-        // 如果没有找到日志部分，自动添加
-        console.log('📝 未找到日志部分，自动创建日志部分');
-        beforeLogLines = [...lines, '', '## 日志'];
+      const memberData = {
+        access_level: member.access_level,
+        expires_at: member.expires_at || undefined
+      };
+      try {
+        try {
+          await this.requestTargetApi(`/projects/${targetProject.id}/members`, {
+            method: 'POST',
+            body: { user_id: targetUser.id, ...memberData }
+          });
+        } catch (error: any) {
+          // 已是项目的直接成员时提升访问级别
+          if (error.status !== 409) {
+            throw error;
+          }
+          await this.requestTargetApi(`/projects/${targetProject.id}/members/${targetUser.id}`, {
+            method: 'PUT',
+            body: memberData
+          });
+        }
+        targetAccessLevels.set(targetUser.id, member.access_level);
+        addedCount++;
+        console.log(ConsoleColors.success(`已添加成员: ${targetUser.username} (访问级别 ${member.access_level})`));
+      } catch (error: any) {
+        warnings.push(`添加成员 ${targetUser.username} 失败: ${error.message}`);
+      }
+    }
+    
+    log.unmatchedMembers = unmatchedMembers;
+    if (unmatchedMembers.length > 0) {
+      console.log(ConsoleColors.warning(`${unmatchedMembers.length} 个成员在目标 GitLab 中没有对应用户: ${unmatchedMembers.join(', ')}`));
+    }
+    return { addedCount, warnings };
+  }
+
+  /**
+   * 迁移源项目的议题（按 iid 顺序创建，支持从最后迁移的议题之后继续）
+   */
+  private async migrateProjectIssues(repo: TRepository, log: TMigrationLog): Promise<number> {
+    const sourceProject = await this.getSourceProject(repo);
+    const targetProject = await this.getTargetProject(repo.name);
+    const lastMigratedIid = log.lastMigratedIssueIid || 0;
+    
+    const issues = (await this.fetchAllSourcePages(repo, `/projects/${sourceProject.id}/issues?scope=all&order_by=created_at&sort=asc`))
+      .filter(issue => issue.iid > lastMigratedIid)
+      .sort((a, b) => a.iid - b.iid);
+    
+    if (lastMigratedIid > 0) {
+      console.log(ConsoleColors.info(`从议题 #${lastMigratedIid} 之后继续迁移，剩余 ${issues.length} 个议题`));
+    } else {
+      console.log(ConsoleColors.info(`待迁移议题: ${issues.length} 个`));
+    }
+    
+    for (const issue of issues) {
+      let pending = log.pendingIssue;
+      if (pending && pending.sourceIid === issue.iid) {
+        // 上次中断时议题已创建，继续迁移剩余的评论和状态
+        console.log(ConsoleColors.info(`议题 #${issue.iid} 已创建为 #${pending.targetIid}，继续迁移评论和状态`));
       } else {
-        // 保留日志部分之前的内容
-        beforeLogLines = lines.slice(0, logStartIndex + 1);
+        const { assigneeIds, unmappedAssignees } = await this.mapAssignees(issue.assignees);
+        
+        let description = issue.description || '';
+        if (unmappedAssignees.length > 0) {
+          description += `\n\n> 原指派人: ${unmappedAssignees.join(', ')}`;
+        }
+        
+        const milestoneId = issue.milestone ? await this.ensureTargetMilestone(targetProject.id, issue.milestone) : undefined;
+        const createdIssue = await this.createTargetContent(
+          `/projects/${targetProject.id}/issues`,
+          {
+            title: issue.title,
+            description,
+            labels: (issue.labels || []).join(','),
+            assignee_ids: assigneeIds,
+            milestone_id: milestoneId,
+            confidential: issue.confidential,
+            due_date: issue.due_date || undefined
+          },
+          'description',
+          issue.author,
+          issue.created_at,
+          issue.web_url
+        );
+        
+        // 创建后立即记录源和目标议题的对应关系，中断后不会重复创建
+        pending = { sourceIid: issue.iid, targetIid: createdIssue.iid, copiedNoteCount: 0 };
+        log.pendingIssue = pending;
+        this.updateMigrationLog(log, true);
       }
       
-      // 生成新的日志内容
-      const logLines: string[] = [''];
+      const pendingIssue = pending;
+      await this.copyNotes(
+        repo,
+        `/projects/${sourceProject.id}/issues/${issue.iid}/notes`,
+        `/projects/${targetProject.id}/issues/${pendingIssue.targetIid}/notes`,
+        issue.web_url,
+        pendingIssue.copiedNoteCount,
+        copiedCount => {
+          pendingIssue.copiedNoteCount = copiedCount;
+          this.updateMigrationLog(log);
+        }
+      );
       
-      // 严格按照 move.md 文件中的项目顺序添加日志记录，只保存配置文件中存在的项目
-      const configuredProjectNames = new Set(this.repositories.map(repo => repo.name));
-      let savedLogsCount = 0;
+      if (issue.state === 'closed') {
+        await this.requestTargetApi(`/projects/${targetProject.id}/issues/${pendingIssue.targetIid}`, {
+          method: 'PUT',
+          body: { state_event: 'close' }
+        });
+      }
       
-      for (const repo of this.repositories) {
-        const log = this.logs.get(repo.name);
-        if (log && configuredProjectNames.has(repo.name)) {
-          logLines.push(`### ${log.projectName}`);
-          logLines.push(`- **项目名称**: ${log.projectName}`);
-          logLines.push(`- **项目描述**: ${log.projectDescription}`);
-          logLines.push(`- **原仓库地址**: ${log.originalRepoUrl}`);
-          logLines.push(`- **目标分组**: ${log.targetGroup}`);
-          logLines.push(`- **目标仓库地址**: ${log.targetRepoUrl}`);
-          logLines.push(`- **开始时间**: ${log.startTime}`);
-          logLines.push(`- **结束时间**: ${log.endTime}`);
-          logLines.push(`- **耗时**: ${log.duration}`);
-          logLines.push(`- **是否已克隆原仓库镜像**: ${log.isOriginalCloned ? '✅' : '❌'}`);
-          logLines.push(`- **是否已创建目标仓库**: ${log.isTargetCreated ? '✅' : '❌'}`);
-          logLines.push(`- **是否已推送镜像到目标仓库**: ${log.isMirrorPushed ? '✅' : '❌'}`);
-          logLines.push(`- **是否已修改目标仓库的项目描述**: ${log.isDescriptionUpdated ? '✅' : '❌'}`);
-          logLines.push(`- **是否已克隆迁移后的仓库**: ${log.isFinalCloned ? '✅' : '❌'}`);
-          if (log.warnings && log.warnings.length > 0) {
-            logLines.push(`- **警告原因**: ${log.warnings.join('; ')}`);
+      // 每迁移完一个议题即记录进度，中断后从下一个议题继续
+      log.lastMigratedIssueIid = issue.iid;
+      log.pendingIssue = undefined;
+      this.updateMigrationLog(log, true);
+      
+      if (!this.quietMode) {
+        console.log(ConsoleColors.dim(`已迁移议题 #${issue.iid} → #${pendingIssue.targetIid}: ${issue.title}`));
+      }
+    }
+    
+    return issues.length;
+  }
+
+  /**
+   * 迁移源项目的合并请求（按 iid 顺序创建，支持从最后迁移的合并请求之后继续）
+   * 无法直接重建的合并请求（分支已不存在、来自派生项目等）从源合并请求引用推送临时分支后创建并关闭，创建后删除临时分支
+   */
+  private async migrateProjectMergeRequests(repo: TRepository, log: TMigrationLog): Promise<{ migratedCount: number; warnings: string[] }> {
+    const warnings: string[] = [];
+    const sourceProject = await this.getSourceProject(repo);
+    const targetProject = await this.getTargetProject(repo.name);
+    const lastMigratedIid = log.lastMigratedMergeRequestIid || 0;
+    
+    const mergeRequests = (await this.fetchAllSourcePages(repo, `/projects/${sourceProject.id}/merge_requests?scope=all&state=all&order_by=created_at&sort=asc`))
+      .filter(mergeRequest => mergeRequest.iid > lastMigratedIid)
+      .sort((a, b) => a.iid - b.iid);
+    
+    if (lastMigratedIid > 0) {
+      console.log(ConsoleColors.info(`从合并请求 !${lastMigratedIid} 之后继续迁移，剩余 ${mergeRequests.length} 个合并请求`));
+    } else {
+      console.log(ConsoleColors.info(`待迁移合并请求: ${mergeRequests.length} 个`));
+    }
+    
+    // 推送后目标仓库中实际存在的分支
+    const targetBranches = new Set(
+      (await this.fetchAllPages(this.getGitLabApiBase(), this.accessToken, `/projects/${targetProject.id}/repository/branches`))
+        .map(branch => branch.name)
+    );
+    
+    let migratedCount = 0;
+    for (const mergeRequest of mergeRequests) {
+      const stateText = mergeRequest.state === 'merged' ? '已合并' : mergeRequest.state === 'opened' ? '开启' : '已关闭';
+      let pending = log.pendingMergeRequest;
+      if (pending && pending.sourceIid === mergeRequest.iid) {
+        // 上次中断时合并请求已创建，继续迁移剩余的评论和状态
+        console.log(ConsoleColors.info(`合并请求 !${mergeRequest.iid} 已创建为 !${pending.targetIid}，继续迁移评论和状态`));
+      } else {
+        let rebuildReason = '';
+        if (mergeRequest.source_project_id !== sourceProject.id) {
+          rebuildReason = '来自派生项目';
+        } else if (!targetBranches.has(mergeRequest.source_branch) || !targetBranches.has(mergeRequest.target_branch)) {
+          rebuildReason = `分支 ${mergeRequest.source_branch} → ${mergeRequest.target_branch} 已不存在`;
+        }
+        
+        let createdMergeRequest: any = null;
+        let temporaryBranch: string | undefined;
+        if (!rebuildReason) {
+          try {
+            createdMergeRequest = await this.createTargetMergeRequest(targetProject.id, mergeRequest, mergeRequest.source_branch, mergeRequest.target_branch);
+          } catch (error: any) {
+            // 同一分支已有开启的合并请求时 GitLab 返回 409
+            if (error.status !== 409) {
+              throw error;
+            }
+            rebuildReason = '与目标中已开启的同分支合并请求冲突';
           }
-          if (log.failureReason) {
-            logLines.push(`- **失败原因**: ${log.failureReason}`);
+        }
+        
+        let isPlaceholderIssue = false;
+        if (!createdMergeRequest) {
+          // 源项目为每个合并请求保留 refs/merge-requests/<iid>/head，推送为临时分支后创建，保留提交和差异
+          temporaryBranch = `migrated/mr-${mergeRequest.iid}`;
+          const targetBranch = targetBranches.has(mergeRequest.target_branch) ? mergeRequest.target_branch : targetProject.default_branch;
+          let rebuildError = '';
+          try {
+            await this.pushMergeRequestHead(repo, mergeRequest.iid, temporaryBranch, log.targetRepoUrl);
+          } catch (error: any) {
+            // 命令错误包含多行输出，只保留第一行，避免破坏日志格式
+            rebuildError = error.message.split('\n')[0];
+          }
+          if (!rebuildError) {
+            try {
+              createdMergeRequest = await this.createTargetMergeRequest(
+                targetProject.id,
+                mergeRequest,
+                temporaryBranch,
+                targetBranch,
+                `> 原合并请求（${stateText}）${rebuildReason}，由临时分支重建后关闭: ${mergeRequest.web_url}\n\n`
+              );
+            } catch (error: any) {
+              // 网络错误和 5xx 可以重试，迁移失败后从该合并请求继续；4xx 表示目标拒绝创建，改为占位议题
+              if (!(error.status >= 400 && error.status < 500)) {
+                throw error;
+              }
+              rebuildError = error.message.split('\n')[0];
+            }
+          }
+          
+          if (!createdMergeRequest) {
+            await this.deleteTargetBranch(targetProject.id, temporaryBranch);
+            temporaryBranch = undefined;
+            createdMergeRequest = await this.createMergeRequestPlaceholderIssue(
+              targetProject.id,
+              mergeRequest,
+              `> 原合并请求（${stateText}）${rebuildReason}，无法从源合并请求引用重建，以议题记录后关闭: ${mergeRequest.web_url}\n\n`
+            );
+            isPlaceholderIssue = true;
+            const warning = `合并请求 !${mergeRequest.iid}（${stateText}）${rebuildReason}，无法从源合并请求引用重建（${rebuildError}），已创建为议题 #${createdMergeRequest.iid}: ${mergeRequest.web_url}`;
+            warnings.push(warning);
+            console.log(ConsoleColors.warning(warning));
           }
-          logLines.push('');
-          savedLogsCount++;
         }
+        
+        // 创建后立即记录源和目标合并请求的对应关系，中断后不会重复创建
+        pending = {
+          sourceIid: mergeRequest.iid,
+          targetIid: createdMergeRequest.iid,
+          copiedNoteCount: 0,
+          temporaryBranch,
+          ...(isPlaceholderIssue ? { isPlaceholderIssue } : {})
+        };
+        log.pendingMergeRequest = pending;
+        this.updateMigrationLog(log, true);
       }
       
-      // 合并所有内容
-      const newContent = [...beforeLogLines, ...logLines].join('\n');
+      const pendingMergeRequest = pending;
+      const targetEndpoint = pendingMergeRequest.isPlaceholderIssue
+        ? `/projects/${targetProject.id}/issues/${pendingMergeRequest.targetIid}`
+        : `/projects/${targetProject.id}/merge_requests/${pendingMergeRequest.targetIid}`;
+      await this.copyNotes(
+        repo,
+        `/projects/${sourceProject.id}/merge_requests/${mergeRequest.iid}/notes`,
+        `${targetEndpoint}/notes`,
+        mergeRequest.web_url,
+        pendingMergeRequest.copiedNoteCount,
+        copiedCount => {
+          pendingMergeRequest.copiedNoteCount = copiedCount;
+          this.updateMigrationLog(log);
+        }
+      );
       
-      // 写入文件
-      writeFileSync(this.moveFilePath, newContent, 'utf-8');
+      // 已合并的合并请求无法通过 API 重新合并，与已关闭的一样在目标中关闭；由临时分支重建的合并请求和占位议题同样关闭
+      if (mergeRequest.state !== 'opened' || pendingMergeRequest.temporaryBranch || pendingMergeRequest.isPlaceholderIssue) {
+        await this.requestTargetApi(targetEndpoint, {
+          method: 'PUT',
+          body: { state_event: 'close' }
+        });
+      }
+      // 关闭后的合并请求保留提交和差异，临时分支可以删除
+      if (pendingMergeRequest.temporaryBranch) {
+        await this.deleteTargetBranch(targetProject.id, pendingMergeRequest.temporaryBranch);
+      }
       
-      console.log(`💾 已保存 ${savedLogsCount} 个项目的迁移日志，顺序与配置文件一致`);
+      if (!this.quietMode) {
+        const targetRef = pendingMergeRequest.isPlaceholderIssue ? `议题 #${pendingMergeRequest.targetIid}` : `!${pendingMergeRequest.targetIid}`;
+        console.log(ConsoleColors.dim(`已迁移合并请求 !${mergeRequest.iid} → ${targetRef} (${stateText}): ${mergeRequest.title}`));
+      }
       
-    } catch (error: any) {
-      console.error(`❌ 保存日志失败: ${error.message}`);
+      // 每处理完一个合并请求即记录进度，中断后从下一个继续
+      log.lastMigratedMergeRequestIid = mergeRequest.iid;
+      log.pendingMergeRequest = undefined;
+      this.updateMigrationLog(log, true);
+      migratedCount++;
     }
+    
+    return { migratedCount, warnings };
   }
 
   /**
-   * 记录迁移步骤
+   * 在目标项目中创建与源合并请求对应的合并请求，header 为附加在描述开头的说明
    */
-  private recordMigrationStep(
-    projectName: string,
-    stepName: string,
-    status: TStepStatus,
-    error?: string,
-    errorType?: TErrorType,
-    warnings?: string[]
-  ): void {
-    const log = this.logs.get(projectName);
-    if (!log) return;
-
-    const existingStepIndex = log.steps.findIndex(step => step.name === stepName);
-    const now = new Date().toISOString();
-    
-    if (existingStepIndex >= 0) {
-      // 更新现有步骤
-      const step = log.steps[existingStepIndex];
-      const startTime = step.startTime || now;
-      
-      log.steps[existingStepIndex] = {
-        ...step,
-        status,
-        endTime: status === 'completed' || status === 'failed' || status === 'warning' ? now : step.endTime,
-        duration: status === 'completed' || status === 'failed' || status === 'warning' 
-          ? new Date(now).getTime() - new Date(startTime).getTime() 
-          : step.duration,
-        error,
-        errorType,
-        warnings: warnings || step.warnings || []
-      };
-    } else {
-      // 添加新步骤
-      log.steps.push({
-        name: stepName,
-        status,
-        startTime: status === 'in_progress' ? now : undefined,
-        endTime: status === 'completed' || status === 'failed' || status === 'warning' ? now : undefined,
-        duration: status === 'completed' || status === 'failed' || status === 'warning' ? 0 : undefined,
-        error,
-        errorType,
-        warnings: warnings || []
-      });
+  private async createTargetMergeRequest(targetProjectId: number, mergeRequest: any, sourceBranch: string, targetBranch: string, header: string = ''): Promise<any> {
+    const { assigneeIds, unmappedAssignees } = await this.mapAssignees(mergeRequest.assignees);
+    let description = mergeRequest.description || '';
+    if (mergeRequest.state === 'merged') {
+      description = `> 原合并请求已于 ${mergeRequest.merged_at || '未知时间'} 合并\n\n${description}`;
     }
+    description = header + description;
+    if (unmappedAssignees.length > 0) {
+      description += `\n\n> 原指派人: ${unmappedAssignees.join(', ')}`;
+    }
+    
+    const milestoneId = mergeRequest.milestone ? await this.ensureTargetMilestone(targetProjectId, mergeRequest.milestone) : undefined;
+    return this.createTargetContent(
+      `/projects/${targetProjectId}/merge_requests`,
+      {
+        source_branch: sourceBranch,
+        target_branch: targetBranch,
+        title: mergeRequest.title,
+        description,
+        labels: (mergeRequest.labels || []).join(','),
+        assignee_ids: assigneeIds,
+        milestone_id: milestoneId
+      },
+      'description',
+      mergeRequest.author,
+      mergeRequest.created_at,
+      mergeRequest.web_url
+    );
+  }
 
-    this.updateMigrationLog(log);
+  /**
+   * 无法重建的合并请求在目标项目中创建为议题，保留标题、描述、标签和原链接，header 为附加在描述开头的说明
+   */
+  private async createMergeRequestPlaceholderIssue(targetProjectId: number, mergeRequest: any, header: string): Promise<any> {
+    const { assigneeIds, unmappedAssignees } = await this.mapAssignees(mergeRequest.assignees);
+    let description = header + (mergeRequest.description || '');
+    if (unmappedAssignees.length > 0) {
+      description += `\n\n> 原指派人: ${unmappedAssignees.join(', ')}`;
+    }
+    
+    const milestoneId = mergeRequest.milestone ? await this.ensureTargetMilestone(targetProjectId, mergeRequest.milestone) : undefined;
+    return this.createTargetContent(
+      `/projects/${targetProjectId}/issues`,
+      {
+        title: `[合并请求 !${mergeRequest.iid}] ${mergeRequest.title}`,
+        description,
+        labels: (mergeRequest.labels || []).join(','),
+        assignee_ids: assigneeIds,
+        milestone_id: milestoneId
+      },
+      'description',
+      mergeRequest.author,
+      mergeRequest.created_at,
+      mergeRequest.web_url
+    );
   }
 
   /**
-   * 添加警告信息
+   * 从源项目获取合并请求的 refs/merge-requests/<iid>/head，作为临时分支推送到目标仓库
+   * 使用仓库临时目录下的裸仓库，多个合并请求之间复用已获取的对象
    */
-  private addWarning(projectName: string, warning: string): void {
-    const log = this.logs.get(projectName);
-    if (!log) return;
+  private async pushMergeRequestHead(repo: TRepository, mergeRequestIid: number, branch: string, targetUrl: string): Promise<void> {
+    const workDir = path.join(this.getRepositoryTempDir(repo), 'merge-requests.git');
+    if (!existsSync(workDir)) {
+      mkdirSync(workDir, { recursive: true });
+      await this.executeCommand('git init --bare --quiet', workDir);
+    }
+    await this.executeCommand(
+      `git fetch --no-tags "${this.getSourceRepositoryUrl(repo)}" "+refs/merge-requests/${mergeRequestIid}/head:refs/heads/${branch}"`,
+      workDir
+    );
+    await this.executeCommand(`git push --force "${targetUrl}" "refs/heads/${branch}:refs/heads/${branch}"`, workDir);
+  }
 
-    if (!log.warnings.includes(warning)) {
-      log.warnings.push(warning);
-      this.updateMigrationLog(log);
+  /**
+   * 删除目标项目中的分支（分支不存在时忽略）
+   */
+  private async deleteTargetBranch(targetProjectId: number, branch: string): Promise<void> {
+    try {
+      await this.requestTargetApi(`/projects/${targetProjectId}/repository/branches/${encodeURIComponent(branch)}`, { method: 'DELETE' });
+    } catch (error: any) {
+      if (error.status !== 404) {
+        throw error;
+      }
     }
   }
 
   /**
-   * 分类错误类型
+   * 延迟保存迁移日志，避免频繁创建备份
    */
-  private classifyError(error: string): TErrorType {
-    const errorLower = error.toLowerCase();
+  private scheduleSaveMigrationLogs(): void {
+    // 清除之前的定时器
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+    }
     
-    // Git 操作错误 - 更详细的模式匹配
-    if (errorLower.includes('git') || 
-        errorLower.includes('clone') || 
-        errorLower.includes('push') || 
-        errorLower.includes('pull') || 
-        errorLower.includes('fetch') ||
-        errorLower.includes('remote') ||
-        errorLower.includes('repository not found') ||
-        errorLower.includes('authentication failed') ||
-        errorLower.includes('fatal: not a git repository') ||
-        errorLower.includes('fatal: repository') ||
-        errorLower.includes('error: failed to push') ||
-        errorLower.includes('error: src refspec') ||
-        errorLower.includes('error: pathspec') ||
-        errorLower.includes('fatal: could not read from remote repository') ||
-        errorLower.includes('fatal: unable to access') ||
-        errorLower.includes('ssh: connect to host') ||
-        errorLower.includes('host key verification failed') ||
-        errorLower.includes('permission denied (publickey)') ||
-        errorLower.includes('branch not found') ||
-        errorLower.includes('ref does not exist') ||
-        errorLower.includes('non-fast-forward') ||
-        errorLower.includes('merge conflict') ||
-        errorLower.includes('working tree clean')) {
-      return 'git_operation';
+    // 设置新的延迟保存定时器（2秒后保存）
+    this.saveTimeout = setTimeout(() => {
+      this.saveMigrationLogs();
+      this.saveTimeout = null;
+    }, 2000);
+  }
+
+  /**
+   * 强制保存迁移日志（程序退出时调用）
+   */
+  public forceSaveMigrationLogs(): void {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = null;
     }
+    this.saveMigrationLogs();
+  }
+
+  /**
+   * 更新迁移日志
+   * immediate 为 true 时立即写入（不创建备份），用于记录进程被强制结束后无法从目标实例推断的状态，如已创建的议题
+   */
+  private updateMigrationLog(log: TMigrationLog, immediate: boolean = false): void {
+    // 更新最后修改时间
+    log.lastUpdated = new Date().toISOString();
     
-    // API 操作错误 - 增强 GitLab API 特定错误
-    if (errorLower.includes('api') || 
-        errorLower.includes('http') || 
-        errorLower.includes('401') || 
-        errorLower.includes('403') || 
-        errorLower.includes('404') || 
-        errorLower.includes('422') || 
-        errorLower.includes('500') || 
-        errorLower.includes('502') || 
-        errorLower.includes('503') ||
-        errorLower.includes('unauthorized') ||
-        errorLower.includes('forbidden') ||
-        errorLower.includes('bad gateway') ||
-        errorLower.includes('service unavailable') ||
-        errorLower.includes('internal server error') ||
-        errorLower.includes('gitlab api') ||
-        errorLower.includes('project already exists') ||
-        errorLower.includes('name has already been taken') ||
-        errorLower.includes('path has already been taken') ||
-        errorLower.includes('invalid token') ||
-        errorLower.includes('token expired') ||
-        errorLower.includes('insufficient scope')) {
-      return 'api_operation';
+    // 确保必要的字段存在
+    if (!log.steps) log.steps = [];
+    if (!log.warnings) log.warnings = [];
+    if (log.retryCount === undefined) log.retryCount = 0;
+    if (!log.errorType && log.failureReason) {
+      log.errorType = 'unknown';
     }
     
-    // 网络错误 - 增强网络相关错误模式
-    if (errorLower.includes('network') || 
-        errorLower.includes('timeout') || 
-        errorLower.includes('connection') || 
-        errorLower.includes('dns') ||
-        errorLower.includes('enotfound') ||
-        errorLower.includes('econnrefused') ||
-        errorLower.includes('econnreset') ||
-        errorLower.includes('etimedout') ||
-        errorLower.includes('socket hang up') ||
-        errorLower.includes('network is unreachable') ||
-        errorLower.includes('host is unreachable') ||
-        errorLower.includes('connection timed out') ||
-        errorLower.includes('unable to resolve host') ||
-        errorLower.includes('name resolution failed') ||
-        errorLower.includes('temporary failure in name resolution')) {
-      return 'network';
+    this.logs.set(log.projectName, log);
+    if (immediate) {
+      if (this.saveTimeout) {
+        clearTimeout(this.saveTimeout);
+        this.saveTimeout = null;
+      }
+      this.saveMigrationLogs(false);
+      return;
     }
-    
-    // 文件系统错误 - 文件操作相关错误
-    if (errorLower.includes('ebusy') ||
-        errorLower.includes('resource busy or locked') ||
-        errorLower.includes('file is being used by another process') ||
-        errorLower.includes('cannot delete') ||
-        errorLower.includes('cannot remove') ||
-        errorLower.includes('directory not empty') ||
-        errorLower.includes('enoent') ||
-        errorLower.includes('no such file or directory') ||
-        errorLower.includes('eacces') ||
-        errorLower.includes('permission denied') ||
-        errorLower.includes('eperm') ||
-        errorLower.includes('operation not permitted') ||
-        errorLower.includes('emfile') ||
-        errorLower.includes('too many open files') ||
-        errorLower.includes('enospc') ||
-        errorLower.includes('no space left on device') ||
-        errorLower.includes('disk full') ||
-        errorLower.includes('cleanup failed') ||
-        errorLower.includes('failed to delete') ||
-        errorLower.includes('failed to remove')) {
-      return 'filesystem';
+    // 延迟保存，避免频繁创建备份；并发迁移时所有仓库的日志都由 saveMigrationLogs 统一同步写入，不会交错
+    this.scheduleSaveMigrationLogs();
+  }
+
+  /**
+   * 创建配置文件备份（YAML / JSON 配置只备份日志文件）
+   */
+  private createConfigBackup(): string {
+    const logFilePath = this.getLogFilePath();
+    if (!existsSync(logFilePath)) {
+      return '';
     }
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupPath = logFilePath.replace(/\.md$/, `.backup.${timestamp}.md`);
     
-    // 权限错误 - 增强权限相关错误模式
-    if (errorLower.includes('permission') || 
-        errorLower.includes('access') || 
-        errorLower.includes('denied') ||
-        errorLower.includes('insufficient privileges') ||
-        errorLower.includes('not authorized') ||
-        errorLower.includes('access forbidden') ||
-        errorLower.includes('you are not allowed') ||
-        errorLower.includes('insufficient permissions') ||
-        errorLower.includes('operation not permitted') ||
-        errorLower.includes('access level') ||
-        errorLower.includes('maintainer access required') ||
-        errorLower.includes('owner access required')) {
-      return 'permission';
+    try {
+      const content = readFileSync(logFilePath, 'utf-8');
+      writeFileSync(backupPath, content, 'utf-8');
+      console.log(ConsoleColors.dim(`📋 已创建配置文件备份: ${path.basename(backupPath)}`));
+      return backupPath;
+    } catch (error) {
+      console.log(ConsoleColors.warning(`⚠️  创建备份失败: ${error instanceof Error ? error.message : String(error)}`));
+      return '';
     }
-    
-    // 验证错误 - 增强数据验证错误模式
-    if (errorLower.includes('validation') || 
-        errorLower.includes('invalid') || 
-        errorLower.includes('malformed') ||
-        errorLower.includes('format') ||
-        errorLower.includes('bad request') ||
-        errorLower.includes('unprocessable entity') ||
-        errorLower.includes('missing required') ||
-        errorLower.includes('field is required') ||
-        errorLower.includes('must be') ||
-        errorLower.includes('cannot be blank') ||
-        errorLower.includes('is too long') ||
-        errorLower.includes('is too short') ||
-        errorLower.includes('contains invalid characters') ||
-        errorLower.includes('url is invalid') ||
-        errorLower.includes('email is invalid')) {
-      return 'validation';
+  }
+
+  /**
+   * 清理旧备份文件（保留最近5个）
+   */
+  private cleanupOldBackups(): void {
+    try {
+      const dir = path.dirname(this.moveFilePath);
+      const baseName = path.basename(this.getLogFilePath(), '.md');
+      const files = readdirSync(dir);
+       
+       const backupFiles = files
+         .filter((file: string) => file.startsWith(`${baseName}.backup.`) && file.endsWith('.md'))
+         .map((file: string) => ({
+           name: file,
+           path: path.join(dir, file),
+           time: statSync(path.join(dir, file)).mtime
+         }))
+        .sort((a: any, b: any) => b.time.getTime() - a.time.getTime());
+      
+      // 保留最近5个备份，删除其余的
+      if (backupFiles.length > 5) {
+        const filesToDelete = backupFiles.slice(5);
+        filesToDelete.forEach((file: any) => {
+          try {
+            rmSync(file.path);
+            console.log(ConsoleColors.dim(`🗑️  已删除旧备份: ${file.name}`));
+          } catch (error) {
+            console.log(ConsoleColors.warning(`⚠️  删除备份失败: ${file.name}`));
+          }
+        });
+      }
+    } catch (error) {
+      // 清理失败不影响主流程，只记录警告
+      console.log(ConsoleColors.dim('⚠️  清理旧备份时出现问题，但不影响主流程'));
     }
-    
-    return 'unknown';
   }
 
   /**
-   * 获取可读的错误信息
+   * 清理旧的临时目录（保留最近3个，删除超过24小时的）
    */
-  private getReadableErrorMessage(error: string, errorType: TErrorType): string {
-    const baseMessage = error.length > 200 ? error.substring(0, 200) + '...' : error;
-    const errorLower = baseMessage.toLowerCase();
-    
-    switch (errorType) {
-      case 'git_operation':
-        if (errorLower.includes('clone')) {
-          return `Git 克隆失败: ${baseMessage}。请检查源仓库地址是否正确，网络连接是否正常。`;
-        } else if (errorLower.includes('push')) {
-          return `Git 推送失败: ${baseMessage}。请检查目标仓库权限和网络连接。`;
-        } else if (errorLower.includes('fetch')) {
-          return `Git 获取失败: ${baseMessage}。请检查仓库地址和网络连接。`;
-        } else if (errorLower.includes('authentication failed')) {
-          return `Git 认证失败: ${baseMessage}。请检查 Access Token 是否有效。`;
-        } else {
-          return `Git 操作失败: ${baseMessage}`;
-        }
-        
-      case 'api_operation':
-        if (errorLower.includes('401')) {
-          return `API 认证失败: ${baseMessage}。请检查 Access Token 是否有效且具有足够权限。`;
-        } else if (errorLower.includes('403')) {
-          return `API 权限不足: ${baseMessage}。请确保 Access Token 具有创建仓库和管理项目的权限。`;
-        } else if (errorLower.includes('404')) {
-          return `API 资源未找到: ${baseMessage}。请检查目标分组路径是否正确。`;
-        } else if (errorLower.includes('409')) {
-          return `API 资源冲突: ${baseMessage}。目标仓库可能已存在，请检查仓库名称。`;
-        } else if (errorLower.includes('422')) {
-          return `API 参数验证失败: ${baseMessage}。请检查仓库名称和描述是否符合要求。`;
-        } else if (errorLower.includes('500')) {
-          return `API 服务器错误: ${baseMessage}。GitLab 服务器可能暂时不可用，请稍后重试。`;
+  /**
+   * 清理旧的临时目录
+   * 增强版本：更好的错误处理、详细日志、空目录检测、强制清理策略
+   */
+  private cleanupOldTempDirectories(): void {
+    try {
+      const currentDir = process.cwd();
+      
+      // 检查当前目录是否存在
+      if (!existsSync(currentDir)) {
+        console.warn(ConsoleColors.warning('当前目录不存在，跳过临时目录清理'));
+        return;
+      }
+      
+      const files = readdirSync(currentDir);
+      const now = new Date().getTime();
+      const oneDayMs = 24 * 60 * 60 * 1000; // 24小时的毫秒数
+      const oneHourMs = 60 * 60 * 1000; // 1小时的毫秒数
+      
+      // 查找所有临时目录
+      const tempDirs = files
+        .filter((file: string) => {
+          try {
+            return file.startsWith('temp-migration-') && 
+                   statSync(path.join(currentDir, file)).isDirectory();
+          } catch {
+            return false;
+          }
+        })
+        .map((dir: string) => {
+          const dirPath = path.join(currentDir, dir);
+          try {
+            const stat = statSync(dirPath);
+            
+            // 检查目录是否为空
+            let isEmpty = false;
+            let fileCount = 0;
+            try {
+              const dirContents = readdirSync(dirPath);
+              fileCount = dirContents.length;
+              isEmpty = fileCount === 0;
+            } catch (error) {
+              console.warn(ConsoleColors.warning(`检查目录 ${dir} 内容时出错: ${error}`));
+            }
+            
+            return {
+              name: dir,
+              path: dirPath,
+              time: stat.mtime,
+              age: now - stat.mtime.getTime(),
+              isEmpty: isEmpty,
+              fileCount: fileCount,
+              size: this.getDirectorySize(dirPath)
+            };
+          } catch (error) {
+            console.warn(ConsoleColors.warning(`获取目录 ${dir} 信息时出错: ${error}`));
+            return null;
+          }
+        })
+        .filter((dir): dir is NonNullable<typeof dir> => dir !== null)
+        .sort((a, b) => b.time.getTime() - a.time.getTime());
+      
+      if (tempDirs.length === 0) {
+        console.log(ConsoleColors.dim('未发现需要清理的临时目录'));
+        return;
+      }
+
+      console.log(ConsoleColors.info(`发现 ${tempDirs.length} 个临时目录`));
+      
+      // 分类需要删除的目录
+      const emptyDirs = tempDirs.filter(dir => dir.isEmpty);
+      const oldDirs = tempDirs.filter(dir => dir.age > oneDayMs && !dir.isEmpty);
+      const veryOldDirs = tempDirs.filter(dir => dir.age > oneHourMs && !dir.isEmpty); // 超过1小时的非空目录
+      const excessDirs = tempDirs.slice(3).filter(dir => !dir.isEmpty && dir.age < oneDayMs);
+      
+      // 强制清理策略：空目录立即删除，超过1小时的目录也删除（而不是24小时）
+      const dirsToDelete = [
+        ...emptyDirs, // 所有空目录
+        ...oldDirs,   // 超过24小时的目录
+        ...excessDirs, // 超出保留数量的目录
+        ...veryOldDirs.filter(dir => !oldDirs.includes(dir) && !excessDirs.includes(dir)) // 超过1小时但不在其他分类中的目录
+      ];
+      
+      // 去重
+      const uniqueDirsToDelete = Array.from(new Set(dirsToDelete));
+      
+      if (uniqueDirsToDelete.length === 0) {
+        console.log(ConsoleColors.dim('所有临时目录都在保留范围内，无需清理'));
+        return;
+      }
+
+      console.log(ConsoleColors.info(`🧹 准备清理 ${uniqueDirsToDelete.length} 个临时目录:`));
+      if (emptyDirs.length > 0) {
+        console.log(ConsoleColors.dim(`  - ${emptyDirs.length} 个空目录`));
+      }
+      if (oldDirs.length > 0) {
+        console.log(ConsoleColors.dim(`  - ${oldDirs.length} 个超过24小时的目录`));
+      }
+      if (veryOldDirs.length > 0) {
+        console.log(ConsoleColors.dim(`  - ${veryOldDirs.filter(dir => !oldDirs.includes(dir)).length} 个超过1小时的目录`));
+      }
+      if (excessDirs.length > 0) {
+        console.log(ConsoleColors.dim(`  - ${excessDirs.length} 个超出保留数量的目录`));
+      }
+      
+      let successCount = 0;
+      let failureCount = 0;
+      
+      uniqueDirsToDelete.forEach(dir => {
+        try {
+          const ageHours = Math.round(dir.age / oneHourMs * 10) / 10;
+          const sizeInfo = dir.size > 0 ? ` (${this.formatBytes(dir.size)})` : ' (空)';
+          const ageInfo = ageHours < 1 ? ' (新建)' : ` (${ageHours}h前)`;
+          
+          rmSync(dir.path, { recursive: true, force: true });
+          console.log(ConsoleColors.dim(`  ✓ 已删除: ${dir.name}${sizeInfo}${ageInfo}`));
+          successCount++;
+        } catch (error) {
+          console.warn(ConsoleColors.warning(`  ✗ 删除失败: ${dir.name} - ${error}`));
+          failureCount++;
+        }
+      });
+      
+      // 清理结果摘要
+      if (successCount > 0) {
+        console.log(ConsoleColors.success(`✓ 成功清理 ${successCount} 个临时目录`));
+      }
+      if (failureCount > 0) {
+        console.warn(ConsoleColors.warning(`⚠ ${failureCount} 个目录清理失败`));
+      }
+      
+    } catch (error) {
+      console.warn(ConsoleColors.warning(`清理临时目录时出错: ${error}`));
+    }
+  }
+  
+  /**
+   * 获取目录大小（字节）
+   */
+  private getDirectorySize(dirPath: string): number {
+    try {
+      let totalSize = 0;
+      const files = readdirSync(dirPath);
+      
+      for (const file of files) {
+        const filePath = path.join(dirPath, file);
+        const stats = statSync(filePath);
+        
+        if (stats.isDirectory()) {
+          totalSize += this.getDirectorySize(filePath);
+        } else {
+          totalSize += stats.size;
+        }
+      }
+      
+      return totalSize;
+    } catch (error) {
+      return 0;
+    }
+  }
+  
+  /**
+   * 格式化字节大小为可读格式
+   */
+  private formatBytes(bytes: number): string {
+    if (bytes === 0) return '0 B';
+    
+    const k = 1024;
+    const sizes = ['B', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
+  }
+
+  /**
+   * 保存迁移日志：先写入状态文件，再生成move.md文件中的日志部分（YAML / JSON 配置生成到日志文件）
+   */
+  private saveMigrationLogs(allowBackup: boolean = true): void {
+    const logFilePath = this.getLogFilePath();
+    const stateFilePath = this.getStateFilePath();
+    try {
+      // 只在重要节点创建备份（如迁移完成或失败）
+      const shouldCreateBackup = allowBackup && Array.from(this.logs.values()).some(log => 
+        log.isFinalCloned || log.failureReason
+      );
+      
+      if (shouldCreateBackup) {
+        this.createConfigBackup();
+      }
+      
+      // 确保目录存在
+      const dir = path.dirname(logFilePath);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+      
+      // 状态文件是迁移日志的数据来源，严格按照配置文件中的项目顺序写入
+      const state: TMigrationState = {
+        version: MIGRATION_STATE_VERSION,
+        updatedAt: new Date().toISOString(),
+        projects: this.repositories
+          .map(repo => this.logs.get(repo.name))
+          .filter((log): log is TMigrationLog => Boolean(log))
+      };
+      writeFileAtomic(stateFilePath, `${JSON.stringify(state, null, 2)}\n`);
+      
+      // 检查文件是否存在，如果不存在则创建基础内容
+      let content: string;
+      if (existsSync(logFilePath)) {
+        content = readFileSync(logFilePath, 'utf-8');
+      } else {
+        console.log(`📝 ${path.basename(logFilePath)} 文件不存在，创建新的日志文件`);
+        content = '# GitLab 仓库迁移配置\n\n## 日志';
+      }
+      
+      const lines = content.split('\n');
+      
+      // 找到日志部分的开始位置
+      let logStartIndex = lines.findIndex(line => line.includes('## 日志'));
+      let beforeLogLines: string[];
+      
+      if (logStartIndex === -1) {
+        // 如果没有找到日志部分，自动添加
+        console.log('📝 未找到日志部分，自动创建日志部分');
+        beforeLogLines = [...lines, '', '## 日志'];
+      } else {
+        // 保留日志部分之前的内容
+        beforeLogLines = lines.slice(0, logStartIndex + 1);
+      }
+      
+      // 生成新的日志内容
+      const logLines: string[] = ['', `> 本部分由 ${path.basename(stateFilePath)} 生成，仅供查看，修改不会生效`, ''];
+      
+      // 严格按照 move.md 文件中的项目顺序添加日志记录，只保存配置文件中存在的项目
+      const configuredProjectNames = new Set(this.repositories.map(repo => repo.name));
+      let savedLogsCount = 0;
+      
+      for (const repo of this.repositories) {
+        const log = this.logs.get(repo.name);
+        if (log && configuredProjectNames.has(repo.name)) {
+          logLines.push(`### ${log.projectName}`);
+          logLines.push(`- **项目名称**: ${log.projectName}`);
+          logLines.push(`- **项目描述**: ${log.projectDescription}`);
+          logLines.push(`- **原仓库地址**: ${log.originalRepoUrl}`);
+          logLines.push(`- **目标分组**: ${log.targetGroup}`);
+          logLines.push(`- **目标仓库地址**: ${log.targetRepoUrl}`);
+          if (log.targetProjectId) {
+            logLines.push(`- **目标项目ID**: ${log.targetProjectId}`);
+          }
+          if (log.renamedTargetPath) {
+            logLines.push(`- **重命名后的目标路径**: ${log.renamedTargetPath}`);
+          }
+          if (log.isPushIntoExisting) {
+            logLines.push(`- **推送到已存在的项目**: ✅`);
+          }
+          logLines.push(`- **开始时间**: ${log.startTime}`);
+          logLines.push(`- **结束时间**: ${log.endTime}`);
+          logLines.push(`- **耗时**: ${log.duration}`);
+          if (log.lastSyncTime) {
+            logLines.push(`- **最后同步时间**: ${log.lastSyncTime}`);
+          }
+          if (log.migrationMode) {
+            logLines.push(`- **迁移方式**: ${log.migrationMode}`);
+          }
+          if (log.isExportFinished !== undefined) {
+            logLines.push(`- **是否已导出源项目**: ${log.isExportFinished ? '✅' : '❌'}`);
+          }
+          logLines.push(`- **是否已克隆原仓库镜像**: ${log.isOriginalCloned ? '✅' : '❌'}`);
+          logLines.push(`- **是否已创建目标仓库**: ${log.isTargetCreated ? '✅' : '❌'}`);
+          logLines.push(`- **是否已推送镜像到目标仓库**: ${log.isMirrorPushed ? '✅' : '❌'}`);
+          logLines.push(`- **是否已校验目标仓库引用**: ${log.isRefsVerified ? '✅' : '❌'}`);
+          logLines.push(`- **是否已推送Wiki仓库**: ${log.isWikiPushed ? '✅' : '❌'}`);
+          logLines.push(`- **是否已修改目标仓库的项目描述**: ${log.isDescriptionUpdated ? '✅' : '❌'}`);
+          logLines.push(`- **是否已克隆迁移后的仓库**: ${log.isFinalCloned ? '✅' : '❌'}`);
+          if (log.isProtectionsReplicated !== undefined) {
+            logLines.push(`- **是否已复制保护规则**: ${log.isProtectionsReplicated ? '✅' : '❌'}`);
+          }
+          if (log.isLabelsMigrated !== undefined) {
+            logLines.push(`- **是否已迁移标签**: ${log.isLabelsMigrated ? '✅' : '❌'}`);
+          }
+          if (log.migratedLabelCount !== undefined) {
+            logLines.push(`- **新建标签数**: ${log.migratedLabelCount}`);
+          }
+          if (log.isMilestonesMigrated !== undefined) {
+            logLines.push(`- **是否已迁移里程碑**: ${log.isMilestonesMigrated ? '✅' : '❌'}`);
+          }
+          if (log.migratedMilestoneCount !== undefined) {
+            logLines.push(`- **新建里程碑数**: ${log.migratedMilestoneCount}`);
+          }
+          if (log.isReleasesMigrated !== undefined) {
+            logLines.push(`- **是否已迁移发布**: ${log.isReleasesMigrated ? '✅' : '❌'}`);
+          }
+          if (log.migratedReleaseCount !== undefined) {
+            logLines.push(`- **新建发布数**: ${log.migratedReleaseCount}`);
+          }
+          if (log.isVariablesMigrated !== undefined) {
+            logLines.push(`- **是否已迁移CI/CD变量**: ${log.isVariablesMigrated ? '✅' : '❌'}`);
+          }
+          if (log.migratedVariableCount !== undefined) {
+            logLines.push(`- **新建CI/CD变量数**: ${log.migratedVariableCount}`);
+          }
+          if (log.skippedVariables && log.skippedVariables.length > 0) {
+            logLines.push(`- **未复制的CI/CD变量**: ${log.skippedVariables.join(', ')}`);
+          }
+          if (log.isMembersMigrated !== undefined) {
+            logLines.push(`- **是否已迁移项目成员**: ${log.isMembersMigrated ? '✅' : '❌'}`);
+          }
+          if (log.unmatchedMembers && log.unmatchedMembers.length > 0) {
+            logLines.push(`- **未匹配的成员**: ${log.unmatchedMembers.join(', ')}`);
+          }
+          if (log.isSettingsSynced !== undefined) {
+            logLines.push(`- **是否已同步项目设置**: ${log.isSettingsSynced ? '✅' : '❌'}`);
+          }
+          if (log.unappliedSettings && log.unappliedSettings.length > 0) {
+            logLines.push(`- **未生效的项目设置**: ${log.unappliedSettings.join('; ')}`);
+          }
+          if (log.isIssuesMigrated !== undefined) {
+            logLines.push(`- **是否已迁移议题**: ${log.isIssuesMigrated ? '✅' : '❌'}`);
+          }
+          if (log.lastMigratedIssueIid) {
+            logLines.push(`- **最后迁移的议题**: #${log.lastMigratedIssueIid}`);
+          }
+          if (log.pendingIssue) {
+            logLines.push(`- **未迁移完的议题**: #${log.pendingIssue.sourceIid} → #${log.pendingIssue.targetIid}`);
+          }
+          if (log.isMergeRequestsMigrated !== undefined) {
+            logLines.push(`- **是否已迁移合并请求**: ${log.isMergeRequestsMigrated ? '✅' : '❌'}`);
+          }
+          if (log.lastMigratedMergeRequestIid) {
+            logLines.push(`- **最后迁移的合并请求**: !${log.lastMigratedMergeRequestIid}`);
+          }
+          if (log.pendingMergeRequest) {
+            logLines.push(`- **未迁移完的合并请求**: !${log.pendingMergeRequest.sourceIid} → ${log.pendingMergeRequest.isPlaceholderIssue ? '议题 #' : '!'}${log.pendingMergeRequest.targetIid}`);
+          }
+          if (log.isMirrorConfigured !== undefined) {
+            logLines.push(`- **是否已配置镜像同步**: ${log.isMirrorConfigured ? '✅' : '❌'}`);
+          }
+          if (log.pullMirrorId) {
+            logLines.push(`- **拉取镜像ID**: ${log.pullMirrorId}`);
+          }
+          if (log.pushMirrorId) {
+            logLines.push(`- **推送镜像ID**: ${log.pushMirrorId}`);
+          }
+          if (log.mirrorStatus) {
+            logLines.push(`- **镜像状态**: ${log.mirrorStatus}`);
+          }
+          if (log.warnings && log.warnings.length > 0) {
+            logLines.push(`- **警告原因**: ${log.warnings.join('; ')}`);
+          }
+          if (log.skippedReason) {
+            logLines.push(`- **跳过原因**: ${log.skippedReason}`);
+          }
+          if (log.failureReason) {
+            logLines.push(`- **失败原因**: ${log.failureReason}`);
+          }
+          if (log.retryCount > 0) {
+            logLines.push(`- **重试次数**: ${log.retryCount}`);
+          }
+          logLines.push('');
+          savedLogsCount++;
+        }
+      }
+      
+      // 合并所有内容
+      const newContent = [...beforeLogLines, ...logLines].join('\n');
+      
+      // 写入文件
+      writeFileAtomic(logFilePath, newContent);
+      
+      console.log(`💾 已保存 ${savedLogsCount} 个项目的迁移日志，顺序与配置文件一致`);
+      
+    } catch (error: any) {
+      console.error(`❌ 保存日志失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 记录迁移步骤
+   */
+  private recordMigrationStep(
+    projectName: string,
+    stepName: string,
+    status: TStepStatus,
+    error?: string,
+    errorType?: TErrorType,
+    warnings?: string[]
+  ): void {
+    const log = this.logs.get(projectName);
+    if (!log) return;
+
+    const existingStepIndex = log.steps.findIndex(step => step.name === stepName);
+    const now = new Date().toISOString();
+    
+    if (existingStepIndex >= 0) {
+      // 更新现有步骤
+      const step = log.steps[existingStepIndex];
+      const startTime = step.startTime || now;
+      
+      log.steps[existingStepIndex] = {
+        ...step,
+        status,
+        endTime: status === 'completed' || status === 'failed' || status === 'warning' ? now : step.endTime,
+        duration: status === 'completed' || status === 'failed' || status === 'warning' 
+          ? new Date(now).getTime() - new Date(startTime).getTime() 
+          : step.duration,
+        error,
+        errorType,
+        warnings: warnings || step.warnings || []
+      };
+    } else {
+      // 添加新步骤
+      log.steps.push({
+        name: stepName,
+        status,
+        startTime: status === 'in_progress' ? now : undefined,
+        endTime: status === 'completed' || status === 'failed' || status === 'warning' ? now : undefined,
+        duration: status === 'completed' || status === 'failed' || status === 'warning' ? 0 : undefined,
+        error,
+        errorType,
+        warnings: warnings || []
+      });
+    }
+
+    this.updateMigrationLog(log);
+  }
+
+  /**
+   * 添加警告信息
+   */
+  private addWarning(projectName: string, warning: string): void {
+    const log = this.logs.get(projectName);
+    if (!log) return;
+
+    if (!log.warnings.includes(warning)) {
+      log.warnings.push(warning);
+      this.updateMigrationLog(log);
+    }
+  }
+
+  /**
+   * 分类错误类型
+   */
+  private classifyError(error: string): TErrorType {
+    const errorLower = error.toLowerCase();
+    
+    // Git 操作错误 - 更详细的模式匹配
+    if (errorLower.includes('git') || 
+        errorLower.includes('clone') || 
+        errorLower.includes('push') || 
+        errorLower.includes('pull') || 
+        errorLower.includes('fetch') ||
+        errorLower.includes('remote') ||
+        errorLower.includes('repository not found') ||
+        errorLower.includes('authentication failed') ||
+        errorLower.includes('fatal: not a git repository') ||
+        errorLower.includes('fatal: repository') ||
+        errorLower.includes('error: failed to push') ||
+        errorLower.includes('error: src refspec') ||
+        errorLower.includes('error: pathspec') ||
+        errorLower.includes('fatal: could not read from remote repository') ||
+        errorLower.includes('fatal: unable to access') ||
+        errorLower.includes('ssh: connect to host') ||
+        errorLower.includes('host key verification failed') ||
+        errorLower.includes('permission denied (publickey)') ||
+        errorLower.includes('branch not found') ||
+        errorLower.includes('ref does not exist') ||
+        errorLower.includes('non-fast-forward') ||
+        errorLower.includes('merge conflict') ||
+        errorLower.includes('working tree clean')) {
+      return 'git_operation';
+    }
+    
+    // API 操作错误 - 增强 GitLab API 特定错误
+    if (errorLower.includes('api') || 
+        errorLower.includes('http') || 
+        errorLower.includes('401') || 
+        errorLower.includes('403') || 
+        errorLower.includes('404') || 
+        errorLower.includes('422') || 
+        errorLower.includes('500') || 
+        errorLower.includes('502') || 
+        errorLower.includes('503') ||
+        errorLower.includes('unauthorized') ||
+        errorLower.includes('forbidden') ||
+        errorLower.includes('bad gateway') ||
+        errorLower.includes('service unavailable') ||
+        errorLower.includes('internal server error') ||
+        errorLower.includes('gitlab api') ||
+        errorLower.includes('project already exists') ||
+        errorLower.includes('name has already been taken') ||
+        errorLower.includes('path has already been taken') ||
+        errorLower.includes('invalid token') ||
+        errorLower.includes('token expired') ||
+        errorLower.includes('insufficient scope')) {
+      return 'api_operation';
+    }
+    
+    // 网络错误 - 增强网络相关错误模式
+    if (errorLower.includes('network') || 
+        errorLower.includes('timeout') || 
+        errorLower.includes('connection') || 
+        errorLower.includes('dns') ||
+        errorLower.includes('enotfound') ||
+        errorLower.includes('econnrefused') ||
+        errorLower.includes('econnreset') ||
+        errorLower.includes('etimedout') ||
+        errorLower.includes('socket hang up') ||
+        errorLower.includes('network is unreachable') ||
+        errorLower.includes('host is unreachable') ||
+        errorLower.includes('connection timed out') ||
+        errorLower.includes('unable to resolve host') ||
+        errorLower.includes('name resolution failed') ||
+        errorLower.includes('temporary failure in name resolution')) {
+      return 'network';
+    }
+    
+    // 文件系统错误 - 文件操作相关错误
+    if (errorLower.includes('ebusy') ||
+        errorLower.includes('resource busy or locked') ||
+        errorLower.includes('file is being used by another process') ||
+        errorLower.includes('cannot delete') ||
+        errorLower.includes('cannot remove') ||
+        errorLower.includes('directory not empty') ||
+        errorLower.includes('enoent') ||
+        errorLower.includes('no such file or directory') ||
+        errorLower.includes('eacces') ||
+        errorLower.includes('permission denied') ||
+        errorLower.includes('eperm') ||
+        errorLower.includes('operation not permitted') ||
+        errorLower.includes('emfile') ||
+        errorLower.includes('too many open files') ||
+        errorLower.includes('enospc') ||
+        errorLower.includes('no space left on device') ||
+        errorLower.includes('disk full') ||
+        errorLower.includes('cleanup failed') ||
+        errorLower.includes('failed to delete') ||
+        errorLower.includes('failed to remove')) {
+      return 'filesystem';
+    }
+    
+    // 权限错误 - 增强权限相关错误模式
+    if (errorLower.includes('permission') || 
+        errorLower.includes('access') || 
+        errorLower.includes('denied') ||
+        errorLower.includes('insufficient privileges') ||
+        errorLower.includes('not authorized') ||
+        errorLower.includes('access forbidden') ||
+        errorLower.includes('you are not allowed') ||
+        errorLower.includes('insufficient permissions') ||
+        errorLower.includes('operation not permitted') ||
+        errorLower.includes('access level') ||
+        errorLower.includes('maintainer access required') ||
+        errorLower.includes('owner access required')) {
+      return 'permission';
+    }
+    
+    // 验证错误 - 增强数据验证错误模式
+    if (errorLower.includes('validation') || 
+        errorLower.includes('invalid') || 
+        errorLower.includes('malformed') ||
+        errorLower.includes('format') ||
+        errorLower.includes('bad request') ||
+        errorLower.includes('unprocessable entity') ||
+        errorLower.includes('missing required') ||
+        errorLower.includes('field is required') ||
+        errorLower.includes('must be') ||
+        errorLower.includes('cannot be blank') ||
+        errorLower.includes('is too long') ||
+        errorLower.includes('is too short') ||
+        errorLower.includes('contains invalid characters') ||
+        errorLower.includes('url is invalid') ||
+        errorLower.includes('email is invalid')) {
+      return 'validation';
+    }
+    
+    return 'unknown';
+  }
+
+  /**
+   * 获取可读的错误信息
+   */
+  private getReadableErrorMessage(error: string, errorType: TErrorType): string {
+    const baseMessage = error.length > 200 ? error.substring(0, 200) + '...' : error;
+    const errorLower = baseMessage.toLowerCase();
+    
+    switch (errorType) {
+      case 'git_operation':
+        if (errorLower.includes('clone')) {
+          return `Git 克隆失败: ${baseMessage}。请检查源仓库地址是否正确，网络连接是否正常。`;
+        } else if (errorLower.includes('push')) {
+          return `Git 推送失败: ${baseMessage}。请检查目标仓库权限和网络连接。`;
+        } else if (errorLower.includes('fetch')) {
+          return `Git 获取失败: ${baseMessage}。请检查仓库地址和网络连接。`;
+        } else if (errorLower.includes('authentication failed')) {
+          return `Git 认证失败: ${baseMessage}。请检查 Access Token 是否有效。`;
+        } else {
+          return `Git 操作失败: ${baseMessage}`;
+        }
+        
+      case 'api_operation':
+        if (errorLower.includes('401')) {
+          return `API 认证失败: ${baseMessage}。请检查 Access Token 是否有效且具有足够权限。`;
+        } else if (errorLower.includes('403')) {
+          return `API 权限不足: ${baseMessage}。请确保 Access Token 具有创建仓库和管理项目的权限。`;
+        } else if (errorLower.includes('404')) {
+          return `API 资源未找到: ${baseMessage}。请检查目标分组路径是否正确。`;
+        } else if (errorLower.includes('409')) {
+          return `API 资源冲突: ${baseMessage}。目标仓库可能已存在，请检查仓库名称。`;
+        } else if (errorLower.includes('422')) {
+          return `API 参数验证失败: ${baseMessage}。请检查仓库名称和描述是否符合要求。`;
+        } else if (errorLower.includes('500')) {
+          return `API 服务器错误: ${baseMessage}。GitLab 服务器可能暂时不可用，请稍后重试。`;
+        } else {
+          return `API 调用失败: ${baseMessage}`;
+        }
+        
+      case 'network':
+        if (errorLower.includes('timeout')) {
+          return `网络超时: ${baseMessage}。请检查网络连接或稍后重试。`;
+        } else if (errorLower.includes('enotfound') || errorLower.includes('getaddrinfo')) {
+          return `DNS 解析失败: ${baseMessage}。请检查网络连接和 GitLab 服务器地址。`;
+        } else if (errorLower.includes('econnrefused')) {
+          return `连接被拒绝: ${baseMessage}。请检查 GitLab 服务器是否可访问。`;
+        } else {
+          return `网络连接失败: ${baseMessage}。请检查网络连接状态。`;
+        }
+        
+      case 'permission':
+        if (errorLower.includes('access denied')) {
+          return `访问被拒绝: ${baseMessage}。请检查 Access Token 权限或联系管理员。`;
+        } else if (errorLower.includes('insufficient privileges')) {
+          return `权限不足: ${baseMessage}。请确保具有目标分组的创建仓库权限。`;
+        } else {
+          return `权限不足: ${baseMessage}。请检查相关权限设置。`;
+        }
+        
+      case 'validation':
+        if (errorLower.includes('invalid repository name')) {
+          return `仓库名称无效: ${baseMessage}。请使用有效的仓库名称格式。`;
+        } else if (errorLower.includes('invalid group path')) {
+          return `分组路径无效: ${baseMessage}。请检查目标分组路径格式。`;
+        } else {
+          return `数据验证失败: ${baseMessage}。请检查输入参数的格式和有效性。`;
+        }
+        
+      case 'filesystem':
+        if (errorLower.includes('ebusy') || errorLower.includes('resource busy or locked')) {
+          return `文件系统忙碌: ${baseMessage}。文件正被其他进程使用，这通常不影响迁移结果。`;
+        } else if (errorLower.includes('cannot delete') || errorLower.includes('cannot remove')) {
+          return `文件删除失败: ${baseMessage}。临时文件清理失败，但不影响迁移结果。`;
+        } else if (errorLower.includes('enoent') || errorLower.includes('no such file or directory')) {
+          return `文件不存在: ${baseMessage}。目标文件可能已被删除，这通常不影响迁移结果。`;
+        } else if (errorLower.includes('enospc') || errorLower.includes('no space left on device')) {
+          return `磁盘空间不足: ${baseMessage}。请清理磁盘空间后重试。`;
+        } else {
+          return `文件系统错误: ${baseMessage}。这通常不影响迁移结果，可以忽略。`;
+        }
+        
+      default:
+          return `未知错误: ${baseMessage}。如果问题持续存在，请联系技术支持。`;
+    }
+  }
+
+  /**
+   * 预检查机制：验证迁移前的各项条件
+   */
+  private async performPreChecks(): Promise<{ success: boolean; errors: string[] }> {
+    const errors: string[] = [];
+    
+    console.log('🔍 开始执行预检查...');
+    
+    try {
+      // 1. 检查网络连通性
+      console.log('1. 检查网络连通性...');
+      const networkCheck = await this.checkNetworkConnectivity();
+      if (!networkCheck.success) {
+        errors.push(`网络连通性检查失败: ${networkCheck.error}`);
+      } else {
+        console.log('✓ 网络连通性正常');
+      }
+      
+      // 2. 验证 GitLab API 权限
+      console.log('2. 验证 GitLab API 权限...');
+      const apiCheck = await this.checkGitLabApiPermissions();
+      if (!apiCheck.success) {
+        errors.push(`GitLab API 权限验证失败: ${apiCheck.error}`);
+      } else {
+        console.log('✓ GitLab API 权限验证通过');
+      }
+      
+      // 3. 验证目标分组访问权限
+      console.log('3. 验证目标分组访问权限...');
+      const groupCheck = await this.checkTargetGroupPermissions();
+      if (!groupCheck.success) {
+        errors.push(`目标分组权限验证失败: ${groupCheck.error}`);
+      } else {
+        console.log('✓ 目标分组权限验证通过');
+      }
+      
+      // 4. 检查本地 Git 环境
+      console.log('4. 检查本地 Git 环境...');
+      const gitCheck = await this.checkLocalGitEnvironment();
+      if (!gitCheck.success) {
+        errors.push(`本地 Git 环境检查失败: ${gitCheck.error}`);
+      } else {
+        console.log('✓ 本地 Git 环境正常');
+      }
+      
+      // 5. 迁移议题等内容时需要访问源 GitLab API
+      if (this.requiresSourceApi()) {
+        console.log('5. 验证源 GitLab API 访问权限...');
+        const sourceCheck = await this.checkSourceApiAccess();
+        if (!sourceCheck.success) {
+          errors.push(`源 GitLab API 访问验证失败: ${sourceCheck.error}`);
+        } else {
+          console.log('✓ 源 GitLab API 访问验证通过');
+        }
+      }
+      
+      const success = errors.length === 0;
+      if (success) {
+        console.log('✅ 所有预检查项目通过，可以开始迁移');
+      } else {
+        console.log('❌ 预检查发现问题，请解决后重试');
+        errors.forEach(error => console.log(`  - ${error}`));
+      }
+      
+      return { success, errors };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      errors.push(`预检查过程中发生异常: ${errorMsg}`);
+      return { success: false, errors };
+    }
+  }
+
+  /**
+   * 检查网络连通性
+   */
+  private async checkNetworkConnectivity(): Promise<{ success: boolean; error?: string }> {
+    try {
+      // 检查目标 GitLab 服务器连通性
+      const gitlabHost = new URL(this.targetGroupUrl).hostname;
+      const response = await fetch(`https://${gitlabHost}/api/v4/version`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${this.accessToken}`
+        },
+        signal: AbortSignal.timeout(10000) // 10秒超时
+      });
+      
+      if (!response.ok) {
+        return { success: false, error: `无法连接到 GitLab 服务器 (${response.status})` };
+      }
+      
+      return { success: true };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return { success: false, error: `网络连接失败: ${errorMsg}` };
+    }
+  }
+
+  /**
+   * 检查 GitLab API 权限
+   */
+  private async checkGitLabApiPermissions(): Promise<{ success: boolean; error?: string }> {
+    try {
+      const apiUrl = `${this.getGitLabApiBase()}/user`;
+      const response = await fetch(apiUrl, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${this.accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        signal: AbortSignal.timeout(10000)
+      });
+      
+      if (!response.ok) {
+        if (response.status === 401) {
+          return { success: false, error: 'Access Token 无效或已过期' };
+        } else if (response.status === 403) {
+          return { success: false, error: 'Access Token 权限不足' };
+        } else {
+          return { success: false, error: `API 调用失败 (${response.status})` };
+        }
+      }
+      
+      const userInfo = await response.json();
+      console.log(`  当前用户: ${userInfo.name} (${userInfo.username})`);
+      
+      return { success: true };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return { success: false, error: `API 权限验证失败: ${errorMsg}` };
+    }
+  }
+
+  /**
+   * 检查目标分组权限
+   */
+  private async checkTargetGroupPermissions(): Promise<{ success: boolean; error?: string }> {
+    try {
+      const groupId = await this.getGroupId(this.targetGroupUrl);
+      const apiUrl = `${this.getGitLabApiBase()}/groups/${groupId}`;
+      
+      const response = await fetch(apiUrl, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${this.accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        signal: AbortSignal.timeout(10000)
+      });
+      
+      if (!response.ok) {
+        if (response.status === 404) {
+          return { success: false, error: '目标分组不存在或无访问权限' };
+        } else if (response.status === 403) {
+          return { success: false, error: '对目标分组没有足够的权限' };
+        } else {
+          return { success: false, error: `分组权限检查失败 (${response.status})` };
+        }
+      }
+      
+      const groupInfo = await response.json();
+      console.log(`  目标分组: ${groupInfo.name} (${groupInfo.full_path})`);
+      
+      // 检查是否有创建项目的权限
+      if (groupInfo.permissions && groupInfo.permissions.group_access) {
+        const accessLevel = groupInfo.permissions.group_access.access_level;
+        if (accessLevel < 30) { // 30 = Developer, 40 = Maintainer, 50 = Owner
+          return { success: false, error: '在目标分组中没有创建项目的权限（需要 Developer 及以上权限）' };
+        }
+      }
+      
+      return { success: true };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return { success: false, error: `分组权限验证失败: ${errorMsg}` };
+    }
+  }
+
+  /**
+   * 是否启用了需要访问源 GitLab API 的迁移内容
+   */
+  private requiresSourceApi(): boolean {
+    return this.withIssues || this.withMergeRequests || this.withProtections || this.withLabels || this.withMilestones || this.withReleases || this.withVariables || this.withMembers || this.withSettings || this.migrationMode === 'export-import' || this.pullMirror || this.pushMirror || this.preserveSubgroups;
+  }
+
+  /**
+   * 检查源 GitLab API 访问权限（每个源实例检查一次）
+   */
+  private async checkSourceApiAccess(): Promise<{ success: boolean; error?: string }> {
+    const checkedHosts = new Set<string>();
+    for (const repo of this.getRepositoriesToMigrate()) {
+      const { host } = this.parseGitUrl(repo.originalUrl);
+      if (checkedHosts.has(host)) {
+        continue;
+      }
+      checkedHosts.add(host);
+      
+      if (!this.getSourceAccessToken(repo)) {
+        return { success: false, error: `未配置源 GitLab (${host}) 的 Access Token，请在配置文件中添加"迁移源 Access Token"或使用 --source-token 参数` };
+      }
+      
+      try {
+        const userInfo = await this.requestSourceApi(repo, '/user');
+        console.log(`  源 GitLab: ${host}，当前用户: ${userInfo.name} (${userInfo.username})`);
+      } catch (error: any) {
+        return { success: false, error: `无法访问源 GitLab (${host}) API: ${error.message}` };
+      }
+    }
+    return { success: true };
+  }
+
+  /**
+   * 检查本地 Git 环境
+   */
+  private async checkLocalGitEnvironment(): Promise<{ success: boolean; error?: string }> {
+    try {
+      // 检查 Git 是否安装
+      try {
+        await this.executeCommand('git --version');
+      } catch (error) {
+        return { success: false, error: 'Git 未安装或不在 PATH 环境变量中' };
+      }
+      
+      // 检查 Git 配置
+      try {
+        const userName = (await this.executeCommand('git config --global user.name')).trim();
+        const userEmail = (await this.executeCommand('git config --global user.email')).trim();
+        
+        if (!userName || !userEmail) {
+          return { 
+            success: false, 
+            error: 'Git 用户信息未配置，请运行: git config --global user.name "Your Name" 和 git config --global user.email "your.email@example.com"' 
+          };
+        }
+        
+        console.log(`  Git 用户: ${userName} <${userEmail}>`);
+      } catch (error) {
+        return { success: false, error: 'Git 配置检查失败' };
+      }
+      
+      // 检查 Git LFS（仅迁移使用 LFS 的仓库时必需）
+      try {
+        const lfsVersion = (await this.runCommand('git lfs version')).trim();
+        this.isGitLfsAvailable = true;
+        console.log(`  Git LFS: ${lfsVersion}`);
+      } catch (error) {
+        this.isGitLfsAvailable = false;
+        console.log(ConsoleColors.warning('  未安装 git-lfs，使用 Git LFS 的仓库将无法迁移 (https://git-lfs.com)'));
+      }
+      
+      // 检查临时目录权限
+      try {
+        if (!existsSync(this.tempDir)) {
+          mkdirSync(this.tempDir, { recursive: true });
+        }
+        
+        // 测试写入权限
+        const testFile = path.join(this.tempDir, 'test-write-permission.tmp');
+        writeFileSync(testFile, 'test');
+        rmSync(testFile);
+      } catch (error) {
+        return { success: false, error: `临时目录权限不足: ${this.tempDir}` };
+      }
+      
+      return { success: true };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return { success: false, error: `Git 环境检查失败: ${errorMsg}` };
+    }
+  }
+
+  /**
+   * 智能重试机制：根据错误类型决定是否重试
+   */
+  private shouldRetry(errorType: TErrorType, retryCount: number): boolean {
+    const maxRetries = this.getMaxRetries(errorType);
+    return retryCount < maxRetries;
+  }
+
+  /**
+   * 获取不同错误类型的最大重试次数
+   */
+  private getMaxRetries(errorType: TErrorType): number {
+    const maxRetries = {
+      'network': 3,
+      'api_operation': 2,
+      'git_operation': 1,
+      'permission': 0,
+      'validation': 0,
+      'filesystem': 0,  // 文件系统错误通常不需要重试，直接降级为警告
+      'unknown': 1
+    };
+    
+    return maxRetries[errorType];
+  }
+
+  /**
+   * 获取重试延迟时间（毫秒）
+   */
+  private getRetryDelay(retryCount: number): number {
+    // 指数退避：1秒、2秒、4秒
+    return Math.min(1000 * Math.pow(2, retryCount), 8000);
+  }
+
+  /**
+   * 恢复迁移状态：分析日志并确定下一步操作
+   */
+  private analyzeMigrationState(log: TMigrationLog): {
+    nextStep: string;
+    canResume: boolean;
+    needsCleanup: boolean;
+    recommendations: string[];
+  } {
+    const recommendations: string[] = [];
+    let nextStep = '开始迁移';
+    let canResume = true;
+    let needsCleanup = false;
+    
+    // 分析完成状态
+    if (this.isMigrationCompleted(log)) {
+      return {
+        nextStep: '已完成',
+        canResume: false,
+        needsCleanup: false,
+        recommendations: ['迁移已完成，无需操作']
+      };
+    }
+    
+    // 分析失败状态和重试建议
+    if (log.failureReason) {
+      const errorType = log.errorType || 'unknown';
+      
+      if (this.shouldRetry(errorType, log.retryCount || 0)) {
+        recommendations.push(`可以重试，当前重试次数: ${log.retryCount || 0}`);
+        
+        switch (errorType) {
+          case 'network':
+            recommendations.push('网络错误，建议检查网络连接后重试');
+            break;
+          case 'api_operation':
+            recommendations.push('API 错误，建议检查 Access Token 权限');
+            break;
+          case 'git_operation':
+            recommendations.push('Git 操作错误，建议检查仓库地址和权限');
+            needsCleanup = true;
+            break;
+        }
+      } else {
+        recommendations.push('已达到最大重试次数，建议手动检查问题');
+        canResume = false;
+      }
+    }
+    
+    // 按冲突策略跳过的仓库在目标位置空出后才能继续
+    if (log.skippedReason) {
+      recommendations.push(`${log.skippedReason}，处理目标项目或更换冲突策略后重新运行`);
+    }
+    
+    // 确定下一步操作
+    if (log.skippedReason) {
+      nextStep = '检查目标仓库';
+    } else if (log.migrationMode === 'export-import' && !log.isExportFinished) {
+      nextStep = '导出源项目';
+    } else if (log.migrationMode === 'export-import' && !log.isTargetCreated) {
+      nextStep = '导入到目标分组';
+    } else if (log.migrationMode !== 'export-import' && !log.isOriginalCloned) {
+      nextStep = '克隆原仓库镜像';
+    } else if (!log.isTargetCreated) {
+      nextStep = '创建目标仓库';
+    } else if (!log.isMirrorPushed) {
+      nextStep = '推送镜像到目标仓库';
+    } else if (!log.isDescriptionUpdated) {
+      nextStep = '更新仓库描述';
+    } else if (!log.isRefsVerified) {
+      nextStep = '校验目标仓库引用';
+    } else if (!log.isWikiPushed) {
+      nextStep = '推送Wiki仓库';
+    } else if (this.withProtections && !log.isProtectionsReplicated) {
+      nextStep = '复制保护规则';
+    } else if ((this.pullMirror || this.pushMirror) && !log.isMirrorConfigured) {
+      nextStep = '配置镜像同步';
+    } else if (this.withLabels && !log.isLabelsMigrated) {
+      nextStep = '迁移标签';
+    } else if (this.withMilestones && !log.isMilestonesMigrated) {
+      nextStep = '迁移里程碑';
+    } else if (this.withReleases && !log.isReleasesMigrated) {
+      nextStep = '迁移发布';
+    } else if (this.withVariables && !log.isVariablesMigrated) {
+      nextStep = '迁移CI/CD变量';
+    } else if (this.withMembers && !log.isMembersMigrated) {
+      nextStep = '迁移项目成员';
+    } else if (this.withIssues && !log.isIssuesMigrated) {
+      nextStep = '迁移议题';
+    } else if (this.withMergeRequests && !log.isMergeRequestsMigrated) {
+      nextStep = '迁移合并请求';
+    } else if (this.withSettings && !log.isSettingsSynced) {
+      nextStep = '同步项目设置';
+    } else if (!log.isFinalCloned) {
+      nextStep = '克隆迁移后的仓库';
+    }
+    
+    return { nextStep, canResume, needsCleanup, recommendations };
+  }
+
+  /**
+   * 判断仓库是否已完成迁移（包括本次启用的可选迁移内容）
+   */
+  private isMigrationCompleted(log: TMigrationLog): boolean {
+    if (!log.isFinalCloned || log.failureReason) {
+      return false;
+    }
+    if (this.withProtections && !log.isProtectionsReplicated) {
+      return false;
+    }
+    if (this.withLabels && !log.isLabelsMigrated) {
+      return false;
+    }
+    if (this.withMilestones && !log.isMilestonesMigrated) {
+      return false;
+    }
+    if (this.withReleases && !log.isReleasesMigrated) {
+      return false;
+    }
+    if (this.withVariables && !log.isVariablesMigrated) {
+      return false;
+    }
+    if (this.withMembers && !log.isMembersMigrated) {
+      return false;
+    }
+    if (this.withIssues && !log.isIssuesMigrated) {
+      return false;
+    }
+    if (this.withMergeRequests && !log.isMergeRequestsMigrated) {
+      return false;
+    }
+    if (this.withSettings && !log.isSettingsSynced) {
+      return false;
+    }
+    if ((this.pullMirror || this.pushMirror) && !log.isMirrorConfigured) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * 显示断点续传状态报告
+   */
+  private showResumeReport(): void {
+    const resumableProjects = Array.from(this.logs.values()).filter(log => 
+      !this.isMigrationCompleted(log)
+    );
+    
+    if (resumableProjects.length === 0) {
+      console.log(ConsoleColors.success('✅ 没有需要断点续传的项目，所有项目状态正常'));
+      return;
+    }
+    
+    console.log('\n' + ConsoleColors.info('📋 断点续传状态报告:'));
+    console.log(ConsoleColors.separator(80));
+    
+    for (const log of resumableProjects) {
+      const analysis = this.analyzeMigrationState(log);
+      
+      console.log(`\n📦 项目: ${ConsoleColors.highlight(log.projectName)}`);
+      console.log(`   状态: ${analysis.canResume ? ConsoleColors.warning('可继续') : ConsoleColors.error('需要手动处理')}`);
+      console.log(`   下一步: ${ConsoleColors.info(analysis.nextStep)}`);
+      
+      if (log.retryCount && log.retryCount > 0) {
+        console.log(`   重试次数: ${ConsoleColors.dim(log.retryCount.toString())}`);
+      }
+      
+      if (log.failureReason) {
+        console.log(`   失败原因: ${ConsoleColors.error(log.failureReason)}`);
+      }
+      
+      if (analysis.recommendations.length > 0) {
+        console.log(`   建议:`);
+        analysis.recommendations.forEach(rec => {
+          console.log(`     - ${ConsoleColors.dim(rec)}`);
+        });
+      }
+    }
+    
+    console.log(ConsoleColors.separator(80));
+  }
+
+  /**
+   * 迁移单个仓库
+   */
+  private async migrateSingleRepository(repo: TRepository): Promise<void> {
+    console.log('\n' + ConsoleColors.separator(60));
+    console.log(ConsoleColors.progress(`开始迁移仓库: ${ConsoleColors.highlight(repo.name)}`));
+    console.log(ConsoleColors.description(`项目描述: ${repo.description}`));
+    console.log(ConsoleColors.url(`原仓库地址: ${repo.originalUrl}`));
+    console.log(ConsoleColors.separator(60));
+    
+    // 检查是否已有日志记录
+    let log = this.logs.get(repo.name);
+    
+    if (log) {
+      console.log(ConsoleColors.info('发现现有日志记录，检查迁移状态...'));
+      
+      // 如果已经完全迁移成功，跳过
+      if (this.isMigrationCompleted(log)) {
+        console.log(ConsoleColors.success(`仓库 ${ConsoleColors.highlight(repo.name)} 已完成迁移，跳过`));
+        return;
+      }
+      
+      console.log(ConsoleColors.info('继续未完成的迁移步骤...'));
+    } else {
+      // 创建新的日志记录
+      const startTime = new Date();
+      log = {
+        projectName: repo.name,
+        projectDescription: repo.description,
+        originalRepoUrl: repo.originalUrl,
+        targetGroup: this.targetGroupUrl,
+        targetRepoUrl: '',
+        startTime: startTime.toISOString(),
+        endTime: '',
+        duration: '',
+        isOriginalCloned: false,
+        isTargetCreated: false,
+        isMirrorPushed: false,
+        isRefsVerified: false,
+        isWikiPushed: false,
+        isDescriptionUpdated: false,
+        isFinalCloned: false,
+        failureReason: '',
+        steps: [],
+        warnings: [],
+        retryCount: 0,
+        lastUpdated: new Date().toISOString()
+      };
+      if (this.migrationMode === 'export-import') {
+        log.migrationMode = 'export-import';
+        log.isExportFinished = false;
+      }
+      if (this.withProtections) {
+        log.isProtectionsReplicated = false;
+      }
+      if (this.withLabels) {
+        log.isLabelsMigrated = false;
+      }
+      if (this.withMilestones) {
+        log.isMilestonesMigrated = false;
+      }
+      if (this.withReleases) {
+        log.isReleasesMigrated = false;
+      }
+      if (this.withVariables) {
+        log.isVariablesMigrated = false;
+      }
+      if (this.withMembers) {
+        log.isMembersMigrated = false;
+      }
+      if (this.withIssues) {
+        log.isIssuesMigrated = false;
+      }
+      if (this.withMergeRequests) {
+        log.isMergeRequestsMigrated = false;
+      }
+      if (this.withSettings) {
+        log.isSettingsSynced = false;
+      }
+      if (this.pullMirror || this.pushMirror) {
+        log.isMirrorConfigured = false;
+      }
+    }
+    
+    const migrationStartTime = log.startTime ? new Date(log.startTime) : new Date();
+    if (!log.startTime) {
+      log.startTime = migrationStartTime.toISOString();
+    }
+    
+    // 已开始的迁移沿用原来的迁移方式，避免两种方式的步骤交叉
+    const migrationMode = log.migrationMode || 'push';
+    if (migrationMode !== this.migrationMode) {
+      console.log(ConsoleColors.warning(`该仓库已按 ${migrationMode} 方式开始迁移，继续使用该方式`));
+    }
+    if (migrationMode === 'export-import' && (this.withIssues || this.withMergeRequests || this.withLabels || this.withMilestones || this.withReleases)) {
+      log.failureReason = '该仓库按 export-import 方式迁移，导出文件已包含议题、合并请求等内容，请去掉 --with-issues 等选项后重新运行';
+      this.recordMigrationStep(repo.name, '检查迁移方式', 'failed', log.failureReason);
+      this.updateMigrationLog(log);
+      console.log(ConsoleColors.error(log.failureReason));
+      return;
+    }
+
+    try {
+      // 清理失败状态，准备重新开始
+      if (log.failureReason) {
+        log.failureReason = '';
+      }
+
+      // 1. 检查目标分组中是否已存在同名仓库
+      let repositoryInfo: { exists: boolean; isEmpty?: boolean; targetUrl?: string } | null = null;
+      if (!log.isTargetCreated) {
+        // 检查是否已有完成的检查步骤
+        const existingCheckStep = log.steps.find(step => step.name === '检查目标仓库');
+        if (existingCheckStep && existingCheckStep.status === 'completed') {
+          console.log(ConsoleColors.success('目标仓库检查已完成，跳过'));
+        } else {
+          this.recordMigrationStep(repo.name, '检查目标仓库', 'in_progress');
+          try {
+            // 设置了冲突策略时不再询问，直接使用已存在的空仓库
+            const conflictPolicy = repo.onConflict || this.onConflict;
+            log.skippedReason = undefined;
+            repositoryInfo = await this.checkRepositoryExists(repo.name, !conflictPolicy);
+            if (repositoryInfo.exists && !repositoryInfo.isEmpty) {
+              repositoryInfo = await this.resolveTargetConflict(repo, log, conflictPolicy || 'fail', repositoryInfo, migrationMode);
+              if (!repositoryInfo) {
+                this.updateMigrationLog(log);
+                return;
+              }
+            }
+            this.recordMigrationStep(repo.name, '检查目标仓库', 'completed');
+          } catch (error: any) {
+            const errorMsg = error.message;
+            const errorType = this.classifyError(errorMsg);
+            this.recordMigrationStep(repo.name, '检查目标仓库', 'failed', errorMsg, errorType);
+            throw error;
+          }
+        }
+      } else {
+        // 只有在没有已完成的检查步骤时才记录为跳过
+        const existingCheckStep = log.steps.find(step => step.name === '检查目标仓库');
+        if (!existingCheckStep || existingCheckStep.status !== 'completed') {
+          this.recordMigrationStep(repo.name, '检查目标仓库', 'skipped');
+        } else {
+          console.log(ConsoleColors.success('目标仓库检查已完成，跳过'));
+        }
+      }
+
+      // 始终使用从URL提取的实际仓库名作为目录名，镜像目录位于仓库专属的临时目录中
+      const actualRepoName = this.extractRepoNameFromUrl(repo.originalUrl);
+      let cloneDir = path.join(this.getRepositoryTempDir(repo), `${actualRepoName}.git`);
+      if (migrationMode === 'export-import') {
+        // 2. 导出源项目
+        if (!log.isExportFinished) {
+          console.log(ConsoleColors.step(1, '导出源项目'));
+          this.recordMigrationStep(repo.name, '导出源项目', 'in_progress');
+          try {
+            await this.exportSourceProject(repo);
+            log.isExportFinished = true;
+            this.recordMigrationStep(repo.name, '导出源项目', 'completed');
+            this.updateMigrationLog(log);
+          } catch (error: any) {
+            const errorMsg = error.message;
+            const errorType = this.classifyError(errorMsg);
+            this.recordMigrationStep(repo.name, '导出源项目', 'failed', errorMsg, errorType);
+            throw error;
+          }
+        } else {
+          console.log(ConsoleColors.success('源项目已导出，跳过'));
+          const existingStep = log.steps.find(step => step.name === '导出源项目');
+          if (!existingStep || existingStep.status !== 'completed') {
+            this.recordMigrationStep(repo.name, '导出源项目', 'skipped');
+          }
+        }
+        
+        // 3. 下载导出文件并导入到目标分组（代替创建目标仓库和推送镜像）
+        // 临时目录按运行创建，断点续传时导出文件不存在需要重新下载
+        if (!log.isTargetCreated && !log.importProjectId && !(log.exportArchivePath && existsSync(log.exportArchivePath))) {
+          this.recordMigrationStep(repo.name, '下载导出文件', 'in_progress');
+          try {
+            log.exportArchivePath = await this.downloadProjectExport(repo);
+            this.recordMigrationStep(repo.name, '下载导出文件', 'completed');
+            this.updateMigrationLog(log);
+          } catch (error: any) {
+            // 导出文件过期后需要重新导出
+            if (error.status === 404) {
+              log.isExportFinished = false;
+            }
+            const errorMsg = error.message;
+            const errorType = this.classifyError(errorMsg);
+            this.recordMigrationStep(repo.name, '下载导出文件', 'failed', errorMsg, errorType);
+            throw error;
+          }
+        }
+        
+        // 上传导出文件并等待导入完成
+        if (!log.isTargetCreated) {
+          console.log(ConsoleColors.step(2, '导入到目标分组'));
+          this.recordMigrationStep(repo.name, '导入到目标分组', 'in_progress');
+          try {
+            if (!log.importProjectId) {
+              const { projectId, overwrite } = await this.startProjectImport(repo, log.exportArchivePath!);
+              log.importProjectId = projectId;
+              // 覆盖迁移前已存在的空仓库时不记录项目ID，回滚时不会删除该项目
+              if (!overwrite) {
+                log.targetProjectId = projectId;
+              }
+              // 导入可能持续很久，立即写入导入中的项目ID，进程被强制结束后重新运行时继续等待而不会再次导入
+              this.updateMigrationLog(log, true);
+            }
+            
+            try {
+              log.targetRepoUrl = await this.waitForProjectImport(log.importProjectId);
+            } catch (error: any) {
+              // 导入失败的项目为空项目，重试时覆盖导入
+              log.importProjectId = undefined;
+              log.targetProjectId = undefined;
+              throw error;
+            }
+            
+            // 导出文件包含仓库、Wiki 和默认分支
+            log.isTargetCreated = true;
+            log.isMirrorPushed = true;
+            log.isWikiPushed = true;
+            log.importProjectId = undefined;
+            if (repo.defaultBranch) {
+              await this.updateDefaultBranch(repo.name, repo.defaultBranch);
+            }
+            if (log.exportArchivePath) {
+              rmSync(log.exportArchivePath, { force: true });
+              log.exportArchivePath = undefined;
+            }
+            this.recordMigrationStep(repo.name, '导入到目标分组', 'completed');
+            this.updateMigrationLog(log);
+            console.log(ConsoleColors.success(`目标项目导入完成: ${ConsoleColors.url(log.targetRepoUrl)}`));
+          } catch (error: any) {
+            const errorMsg = error.message;
+            const errorType = this.classifyError(errorMsg);
+            this.recordMigrationStep(repo.name, '导入到目标分组', 'failed', errorMsg, errorType);
+            throw error;
+          }
+        } else {
+          console.log(ConsoleColors.success(`目标项目已导入，跳过: ${ConsoleColors.dim(log.targetRepoUrl)}`));
+          const existingStep = log.steps.find(step => step.name === '导入到目标分组');
+          if (!existingStep || existingStep.status !== 'completed') {
+            this.recordMigrationStep(repo.name, '导入到目标分组', 'skipped');
+          }
+        }
+      } else {
+        // 2. 克隆原仓库镜像
+        if (!log.isOriginalCloned) {
+          console.log(ConsoleColors.step(1, '克隆原仓库镜像'));
+          this.recordMigrationStep(repo.name, '克隆原仓库镜像', 'in_progress');
+          try {
+            cloneDir = await this.cloneOriginalRepository(repo);
+            log.isOriginalCloned = true;
+            this.recordMigrationStep(repo.name, '克隆原仓库镜像', 'completed');
+            this.updateMigrationLog(log);
+          } catch (error: any) {
+            const errorMsg = error.message;
+            const errorType = this.classifyError(errorMsg);
+            this.recordMigrationStep(repo.name, '克隆原仓库镜像', 'failed', errorMsg, errorType);
+            throw error;
+          }
+        } else {
+          console.log(ConsoleColors.success(`原仓库镜像已克隆，跳过: ${ConsoleColors.dim(cloneDir)}`));
+          // 检查是否已有完成状态的步骤记录，如果有则不覆盖
+          const existingStep = log.steps.find(step => step.name === '克隆原仓库镜像');
+          if (!existingStep || existingStep.status !== 'completed') {
+            this.recordMigrationStep(repo.name, '克隆原仓库镜像', 'skipped');
+          }
+        }
+
+        // 3. 创建目标仓库或使用现有空仓库
+        if (!log.isTargetCreated) {
+          if (log.isPushIntoExisting || (repositoryInfo && repositoryInfo.exists && repositoryInfo.isEmpty && repositoryInfo.targetUrl)) {
+            // 使用现有的空仓库，或按 push-into 冲突策略使用现有的非空仓库（地址已在检查时记录）
+            console.log(ConsoleColors.step(2, log.isPushIntoExisting ? '使用现有仓库' : '使用现有空仓库'));
+            this.recordMigrationStep(repo.name, '创建目标仓库', 'in_progress');
+            log.targetRepoUrl = repositoryInfo?.targetUrl || log.targetRepoUrl;
+            log.isTargetCreated = true;
+            this.recordMigrationStep(repo.name, '创建目标仓库', 'completed');
+            this.updateMigrationLog(log);
+          } else {
+            // 创建新仓库
+            console.log(ConsoleColors.step(2, '创建目标仓库'));
+            this.recordMigrationStep(repo.name, '创建目标仓库', 'in_progress');
+            try {
+              const { targetUrl, projectId } = await this.createTargetRepository(repo);
+              log.targetRepoUrl = targetUrl;
+              log.targetProjectId = projectId;
+              log.isTargetCreated = true;
+              this.recordMigrationStep(repo.name, '创建目标仓库', 'completed');
+              this.updateMigrationLog(log);
+            } catch (error: any) {
+              const errorMsg = error.message;
+              const errorType = this.classifyError(errorMsg);
+              this.recordMigrationStep(repo.name, '创建目标仓库', 'failed', errorMsg, errorType);
+              throw error;
+            }
+          }
+        } else {
+          console.log(ConsoleColors.success(`目标仓库已创建，跳过: ${ConsoleColors.dim(log.targetRepoUrl)}`));
+          // 检查是否已有完成状态的步骤记录，如果有则不覆盖
+          const existingStep = log.steps.find(step => step.name === '创建目标仓库');
+          if (!existingStep || existingStep.status !== 'completed') {
+            this.recordMigrationStep(repo.name, '创建目标仓库', 'skipped');
+          }
+        }
+      }
+
+      // 4. 设置目标仓库的项目描述
+      if (!log.isDescriptionUpdated) {
+        console.log(ConsoleColors.step(3, '设置仓库描述'));
+        this.recordMigrationStep(repo.name, '设置仓库描述', 'in_progress');
+        try {
+          await this.updateRepositoryDescription(repo.name, repo.description);
+          log.isDescriptionUpdated = true;
+          this.recordMigrationStep(repo.name, '设置仓库描述', 'completed');
+          this.updateMigrationLog(log);
+        } catch (error: any) {
+          const errorMsg = error.message;
+          const errorType = this.classifyError(errorMsg);
+          this.recordMigrationStep(repo.name, '设置仓库描述', 'failed', errorMsg, errorType);
+          throw error;
+        }
+      } else {
+        console.log(ConsoleColors.success('仓库描述已更新，跳过'));
+        // 检查是否已有完成状态的步骤记录，如果有则不覆盖
+        const existingStep = log.steps.find(step => step.name === '设置仓库描述');
+        if (!existingStep || existingStep.status !== 'completed') {
+          this.recordMigrationStep(repo.name, '设置仓库描述', 'skipped');
+        }
+      }
+
+      // 5. 推送镜像到目标仓库（导出导入模式下已随导入完成）
+      if (migrationMode === 'push') {
+        if (!log.isMirrorPushed) {
+          console.log(ConsoleColors.step(4, '推送镜像到目标仓库'));
+          this.recordMigrationStep(repo.name, '推送镜像到目标仓库', 'in_progress');
+          try {
+            if (log.isPushIntoExisting) {
+              await this.checkHistoryCompatibility(cloneDir, log.targetRepoUrl);
+            }
+            // 只有目标仓库中不存在或指向不同提交的分支会被推送更新，其余分支的保护规则保持不变
+            const existingTargetRefs = await this.listRemoteRefs(log.targetRepoUrl);
+            const pushedBranches = Object.entries(await this.listMirrorRefs(cloneDir))
+              .filter(([ref, sha]) => ref.startsWith('refs/heads/') && existingTargetRefs.get(ref) !== sha)
+              .map(([ref]) => ref.substring('refs/heads/'.length));
+            const restoreWarnings = await this.withTargetBranchesUnprotected(repo.name, pushedBranches, () => this.pushMirrorToTarget(cloneDir, log.targetRepoUrl));
+            await this.verifyLfsObjects(repo.name, cloneDir);
+            // 未单独指定默认分支时使用源项目的默认分支，而不是目标项目最先收到的分支
+            const defaultBranch = repo.defaultBranch || await this.getMirrorDefaultBranch(cloneDir);
+            if (defaultBranch) {
+              await this.updateDefaultBranch(repo.name, defaultBranch);
+            }
+            log.isMirrorPushed = true;
+            if (restoreWarnings.length > 0) {
+              this.recordMigrationStep(repo.name, '推送镜像到目标仓库', 'warning', undefined, undefined, restoreWarnings);
+              restoreWarnings.forEach(warning => {
+                this.addWarning(repo.name, warning);
+                console.log(ConsoleColors.warning(warning));
+              });
+            } else {
+              this.recordMigrationStep(repo.name, '推送镜像到目标仓库', 'completed');
+            }
+            this.updateMigrationLog(log);
+          } catch (error: any) {
+            const errorMsg = error.message;
+            const errorType = this.classifyError(errorMsg);
+          
+            this.recordMigrationStep(repo.name, '推送镜像到目标仓库', 'failed', errorMsg, errorType);
+            throw error;
+          }
+        } else {
+          console.log(ConsoleColors.success('镜像已推送，跳过'));
+          // 检查是否已有完成状态的步骤记录，如果有则不覆盖
+          const existingStep = log.steps.find(step => step.name === '推送镜像到目标仓库');
+          if (!existingStep || (existingStep.status !== 'completed' && existingStep.status !== 'warning')) {
+            this.recordMigrationStep(repo.name, '推送镜像到目标仓库', 'skipped');
+          }
+        }
+      }
+
+      // 6. 校验目标仓库的分支和标签
+      if (!log.isRefsVerified) {
+        console.log(ConsoleColors.step(5, '校验目标仓库引用'));
+        this.recordMigrationStep(repo.name, '校验目标仓库引用', 'in_progress');
+        try {
+          const { refCount, missingRefs, differingRefs, targetRefs } = await this.verifyTargetRefs(this.getSourceRepositoryUrl(repo), log.targetRepoUrl);
+          
+          if (differingRefs.length > 0) {
+            const warning = `目标仓库中 ${differingRefs.length} 个引用与源仓库指向不同的提交: ${differingRefs.join(', ')}`;
+            this.recordMigrationStep(repo.name, '校验目标仓库引用', 'warning', undefined, undefined, [warning]);
+            this.addWarning(repo.name, warning);
+            console.log(ConsoleColors.warning(warning));
+          }
+          
+          if (missingRefs.length > 0) {
+            // 重试时重新克隆并推送镜像（导出导入模式无法在已导入的项目上重新导入）
+            if (migrationMode === 'push') {
+              log.isOriginalCloned = false;
+              log.isMirrorPushed = false;
+            }
+            throw new Error(`目标仓库缺少 ${missingRefs.length} 个分支或标签: ${missingRefs.join(', ')}`);
+          }
+          
+          log.isRefsVerified = true;
+          log.targetRefs = Object.fromEntries(targetRefs);
+          if (differingRefs.length === 0) {
+            this.recordMigrationStep(repo.name, '校验目标仓库引用', 'completed');
+          }
+          this.updateMigrationLog(log);
+          console.log(ConsoleColors.success(`目标仓库引用校验完成，共 ${refCount} 个分支和标签`));
+        } catch (error: any) {
+          const errorMsg = error.message;
+          const errorType = this.classifyError(errorMsg);
+          this.recordMigrationStep(repo.name, '校验目标仓库引用', 'failed', errorMsg, errorType);
+          throw error;
+        }
+      } else {
+        console.log(ConsoleColors.success('目标仓库引用已校验，跳过'));
+        const existingStep = log.steps.find(step => step.name === '校验目标仓库引用');
+        if (!existingStep || (existingStep.status !== 'completed' && existingStep.status !== 'warning')) {
+          this.recordMigrationStep(repo.name, '校验目标仓库引用', 'skipped');
+        }
+      }
+
+      // 7. 推送 Wiki 仓库
+      if (!log.isWikiPushed) {
+        console.log(ConsoleColors.step(6, '推送Wiki仓库'));
+        this.recordMigrationStep(repo.name, '推送Wiki仓库', 'in_progress');
+        try {
+          // 本次已克隆主仓库镜像时 Wiki 已一并检测；断点续传时镜像目录已被清理，需要重新检测并克隆
+          let wikiCloneDir: string | null = this.getWikiCloneDir(cloneDir);
+          if (!existsSync(wikiCloneDir)) {
+            wikiCloneDir = existsSync(cloneDir)
+              ? null
+              : await this.cloneWikiRepository(repo, cloneDir);
+          }
+          
+          if (wikiCloneDir) {
+            await this.pushMirrorToTarget(wikiCloneDir, this.getWikiRepositoryUrl(log.targetRepoUrl));
+            this.recordMigrationStep(repo.name, '推送Wiki仓库', 'completed');
+          } else {
+            this.recordMigrationStep(repo.name, '推送Wiki仓库', 'skipped');
+          }
+          
+          log.isWikiPushed = true;
+          this.updateMigrationLog(log);
+        } catch (error: any) {
+          const errorMsg = error.message;
+          const errorType = this.classifyError(errorMsg);
+          this.recordMigrationStep(repo.name, '推送Wiki仓库', 'failed', errorMsg, errorType);
+          throw error;
+        }
+      } else {
+        console.log(ConsoleColors.success('Wiki 仓库已推送，跳过'));
+        const existingStep = log.steps.find(step => step.name === '推送Wiki仓库');
+        if (!existingStep) {
+          this.recordMigrationStep(repo.name, '推送Wiki仓库', 'skipped');
+        }
+      }
+
+      // 可选迁移内容的步骤编号依次顺延
+      let nextStepNumber = 7;
+
+      // 8. 复制保护分支和保护标签
+      if (this.withProtections) {
+        if (!log.isProtectionsReplicated && log.isPushIntoExisting) {
+          // 推送到的项目在迁移前已存在，不属于本次迁移，保留其原有的保护规则
+          const warning = '推送到已存在的项目，未复制保护规则，目标项目原有的保护分支和保护标签保持不变';
+          console.log(ConsoleColors.step(nextStepNumber, '复制保护规则'));
+          log.isProtectionsReplicated = true;
+          this.recordMigrationStep(repo.name, '复制保护规则', 'skipped', undefined, undefined, [warning]);
+          this.addWarning(repo.name, warning);
+          this.updateMigrationLog(log);
+          console.log(ConsoleColors.warning(warning));
+        } else if (!log.isProtectionsReplicated) {
+          console.log(ConsoleColors.step(nextStepNumber, '复制保护规则'));
+          this.recordMigrationStep(repo.name, '复制保护规则', 'in_progress');
+          try {
+            const protectionResult = await this.replicateProtections(repo);
+            log.isProtectionsReplicated = true;
+            
+            if (protectionResult.warnings.length > 0) {
+              this.recordMigrationStep(repo.name, '复制保护规则', 'warning', undefined, undefined, protectionResult.warnings);
+              protectionResult.warnings.forEach(warning => this.addWarning(repo.name, warning));
+            } else {
+              this.recordMigrationStep(repo.name, '复制保护规则', 'completed');
+            }
+            
+            this.updateMigrationLog(log);
+            console.log(ConsoleColors.success(`保护规则复制完成，共 ${protectionResult.branchCount} 个保护分支、${protectionResult.tagCount} 个保护标签`));
+          } catch (error: any) {
+            const errorMsg = error.message;
+            const errorType = this.classifyError(errorMsg);
+            this.recordMigrationStep(repo.name, '复制保护规则', 'failed', errorMsg, errorType);
+            throw error;
+          }
+        } else {
+          console.log(ConsoleColors.success('保护规则已复制，跳过'));
+          const existingStep = log.steps.find(step => step.name === '复制保护规则');
+          if (!existingStep || (existingStep.status !== 'completed' && existingStep.status !== 'warning')) {
+            this.recordMigrationStep(repo.name, '复制保护规则', 'skipped');
+          }
+        }
+        nextStepNumber++;
+      }
+
+      // 9. 配置镜像同步（首次完整复制后由 GitLab 持续同步）
+      if (this.pullMirror || this.pushMirror) {
+        if (!log.isMirrorConfigured) {
+          console.log(ConsoleColors.step(nextStepNumber, '配置镜像同步'));
+          this.recordMigrationStep(repo.name, '配置镜像同步', 'in_progress');
+          try {
+            await this.configureRepositoryMirrors(repo, log);
+            log.isMirrorConfigured = true;
+            this.recordMigrationStep(repo.name, '配置镜像同步', 'completed');
+            this.updateMigrationLog(log);
+          } catch (error: any) {
+            const errorMsg = error.message;
+            const errorType = this.classifyError(errorMsg);
+            this.recordMigrationStep(repo.name, '配置镜像同步', 'failed', errorMsg, errorType);
+            throw error;
+          }
+        } else {
+          console.log(ConsoleColors.success('镜像同步已配置，跳过'));
+          const existingStep = log.steps.find(step => step.name === '配置镜像同步');
+          if (!existingStep || existingStep.status !== 'completed') {
+            this.recordMigrationStep(repo.name, '配置镜像同步', 'skipped');
+          }
+        }
+        nextStepNumber++;
+      }
+
+      // 10. 迁移标签
+      if (this.withLabels) {
+        if (!log.isLabelsMigrated) {
+          console.log(ConsoleColors.step(nextStepNumber, '迁移标签'));
+          this.recordMigrationStep(repo.name, '迁移标签', 'in_progress');
+          try {
+            log.migratedLabelCount = await this.migrateProjectLabels(repo);
+            log.isLabelsMigrated = true;
+            this.recordMigrationStep(repo.name, '迁移标签', 'completed');
+            this.updateMigrationLog(log);
+            console.log(ConsoleColors.success(`标签迁移完成，新建 ${log.migratedLabelCount} 个标签`));
+          } catch (error: any) {
+            const errorMsg = error.message;
+            const errorType = this.classifyError(errorMsg);
+            this.recordMigrationStep(repo.name, '迁移标签', 'failed', errorMsg, errorType);
+            throw error;
+          }
+        } else {
+          console.log(ConsoleColors.success('标签已迁移，跳过'));
+          const existingStep = log.steps.find(step => step.name === '迁移标签');
+          if (!existingStep || existingStep.status !== 'completed') {
+            this.recordMigrationStep(repo.name, '迁移标签', 'skipped');
+          }
+        }
+        nextStepNumber++;
+      }
+
+      // 11. 迁移里程碑
+      if (this.withMilestones) {
+        if (!log.isMilestonesMigrated) {
+          console.log(ConsoleColors.step(nextStepNumber, '迁移里程碑'));
+          this.recordMigrationStep(repo.name, '迁移里程碑', 'in_progress');
+          try {
+            log.migratedMilestoneCount = await this.migrateProjectMilestones(repo);
+            log.isMilestonesMigrated = true;
+            this.recordMigrationStep(repo.name, '迁移里程碑', 'completed');
+            this.updateMigrationLog(log);
+            console.log(ConsoleColors.success(`里程碑迁移完成，新建 ${log.migratedMilestoneCount} 个里程碑`));
+          } catch (error: any) {
+            const errorMsg = error.message;
+            const errorType = this.classifyError(errorMsg);
+            this.recordMigrationStep(repo.name, '迁移里程碑', 'failed', errorMsg, errorType);
+            throw error;
+          }
+        } else {
+          console.log(ConsoleColors.success('里程碑已迁移，跳过'));
+          const existingStep = log.steps.find(step => step.name === '迁移里程碑');
+          if (!existingStep || existingStep.status !== 'completed') {
+            this.recordMigrationStep(repo.name, '迁移里程碑', 'skipped');
+          }
+        }
+        nextStepNumber++;
+      }
+
+      // 12. 迁移发布（依赖已推送的标签和已迁移的里程碑）
+      if (this.withReleases) {
+        if (!log.isReleasesMigrated) {
+          console.log(ConsoleColors.step(nextStepNumber, '迁移发布'));
+          this.recordMigrationStep(repo.name, '迁移发布', 'in_progress');
+          try {
+            const releaseResult = await this.migrateProjectReleases(repo, log);
+            log.isReleasesMigrated = true;
+            log.migratedReleaseCount = releaseResult.createdCount;
+            
+            if (releaseResult.warnings.length > 0) {
+              this.recordMigrationStep(repo.name, '迁移发布', 'warning', undefined, undefined, releaseResult.warnings);
+              releaseResult.warnings.forEach(warning => this.addWarning(repo.name, warning));
+            } else {
+              this.recordMigrationStep(repo.name, '迁移发布', 'completed');
+            }
+            
+            this.updateMigrationLog(log);
+            console.log(ConsoleColors.success(`发布迁移完成，新建 ${releaseResult.createdCount} 个发布`));
+          } catch (error: any) {
+            const errorMsg = error.message;
+            const errorType = this.classifyError(errorMsg);
+            this.recordMigrationStep(repo.name, '迁移发布', 'failed', errorMsg, errorType);
+            throw error;
+          }
         } else {
-          return `API 调用失败: ${baseMessage}`;
+          console.log(ConsoleColors.success('发布已迁移，跳过'));
+          const existingStep = log.steps.find(step => step.name === '迁移发布');
+          if (!existingStep || (existingStep.status !== 'completed' && existingStep.status !== 'warning')) {
+            this.recordMigrationStep(repo.name, '迁移发布', 'skipped');
+          }
         }
-        
-      case 'network':
-        if (errorLower.includes('timeout')) {
-          return `网络超时: ${baseMessage}。请检查网络连接或稍后重试。`;
-        } else if (errorLower.includes('enotfound') || errorLower.includes('getaddrinfo')) {
-          return `DNS 解析失败: ${baseMessage}。请检查网络连接和 GitLab 服务器地址。`;
-        } else if (errorLower.includes('econnrefused')) {
-          return `连接被拒绝: ${baseMessage}。请检查 GitLab 服务器是否可访问。`;
+        nextStepNumber++;
+      }
+
+      // 13. 迁移 CI/CD 变量
+      if (this.withVariables) {
+        if (!log.isVariablesMigrated) {
+          console.log(ConsoleColors.step(nextStepNumber, '迁移CI/CD变量'));
+          this.recordMigrationStep(repo.name, '迁移CI/CD变量', 'in_progress');
+          try {
+            const variableResult = await this.migrateProjectVariables(repo, log);
+            log.isVariablesMigrated = true;
+            log.migratedVariableCount = variableResult.createdCount;
+            
+            if (variableResult.warnings.length > 0) {
+              this.recordMigrationStep(repo.name, '迁移CI/CD变量', 'warning', undefined, undefined, variableResult.warnings);
+              variableResult.warnings.forEach(warning => this.addWarning(repo.name, warning));
+            } else {
+              this.recordMigrationStep(repo.name, '迁移CI/CD变量', 'completed');
+            }
+            
+            this.updateMigrationLog(log);
+            console.log(ConsoleColors.success(`CI/CD 变量迁移完成，新建 ${variableResult.createdCount} 个变量`));
+          } catch (error: any) {
+            const errorMsg = error.message;
+            const errorType = this.classifyError(errorMsg);
+            this.recordMigrationStep(repo.name, '迁移CI/CD变量', 'failed', errorMsg, errorType);
+            throw error;
+          }
         } else {
-          return `网络连接失败: ${baseMessage}。请检查网络连接状态。`;
+          console.log(ConsoleColors.success('CI/CD 变量已迁移，跳过'));
+          const existingStep = log.steps.find(step => step.name === '迁移CI/CD变量');
+          if (!existingStep || (existingStep.status !== 'completed' && existingStep.status !== 'warning')) {
+            this.recordMigrationStep(repo.name, '迁移CI/CD变量', 'skipped');
+          }
         }
-        
-      case 'permission':
-        if (errorLower.includes('access denied')) {
-          return `访问被拒绝: ${baseMessage}。请检查 Access Token 权限或联系管理员。`;
-        } else if (errorLower.includes('insufficient privileges')) {
-          return `权限不足: ${baseMessage}。请确保具有目标分组的创建仓库权限。`;
+        nextStepNumber++;
+      }
+
+      // 14. 迁移项目成员
+      if (this.withMembers) {
+        if (!log.isMembersMigrated) {
+          console.log(ConsoleColors.step(nextStepNumber, '迁移项目成员'));
+          this.recordMigrationStep(repo.name, '迁移项目成员', 'in_progress');
+          try {
+            const memberResult = await this.migrateProjectMembers(repo, log);
+            log.isMembersMigrated = true;
+            
+            if (memberResult.warnings.length > 0) {
+              this.recordMigrationStep(repo.name, '迁移项目成员', 'warning', undefined, undefined, memberResult.warnings);
+              memberResult.warnings.forEach(warning => this.addWarning(repo.name, warning));
+            } else {
+              this.recordMigrationStep(repo.name, '迁移项目成员', 'completed');
+            }
+            
+            this.updateMigrationLog(log);
+            console.log(ConsoleColors.success(`项目成员迁移完成，本次添加 ${memberResult.addedCount} 个成员`));
+          } catch (error: any) {
+            const errorMsg = error.message;
+            const errorType = this.classifyError(errorMsg);
+            this.recordMigrationStep(repo.name, '迁移项目成员', 'failed', errorMsg, errorType);
+            throw error;
+          }
         } else {
-          return `权限不足: ${baseMessage}。请检查相关权限设置。`;
+          console.log(ConsoleColors.success('项目成员已迁移，跳过'));
+          const existingStep = log.steps.find(step => step.name === '迁移项目成员');
+          if (!existingStep || (existingStep.status !== 'completed' && existingStep.status !== 'warning')) {
+            this.recordMigrationStep(repo.name, '迁移项目成员', 'skipped');
+          }
         }
-        
-      case 'validation':
-        if (errorLower.includes('invalid repository name')) {
-          return `仓库名称无效: ${baseMessage}。请使用有效的仓库名称格式。`;
-        } else if (errorLower.includes('invalid group path')) {
-          return `分组路径无效: ${baseMessage}。请检查目标分组路径格式。`;
+        nextStepNumber++;
+      }
+
+      // 15. 迁移议题
+      if (this.withIssues) {
+        if (!log.isIssuesMigrated) {
+          console.log(ConsoleColors.step(nextStepNumber, '迁移议题'));
+          this.recordMigrationStep(repo.name, '迁移议题', 'in_progress');
+          try {
+            const migratedCount = await this.migrateProjectIssues(repo, log);
+            log.isIssuesMigrated = true;
+            this.recordMigrationStep(repo.name, '迁移议题', 'completed');
+            this.updateMigrationLog(log);
+            console.log(ConsoleColors.success(`议题迁移完成，本次迁移 ${migratedCount} 个议题`));
+          } catch (error: any) {
+            const errorMsg = error.message;
+            const errorType = this.classifyError(errorMsg);
+            this.recordMigrationStep(repo.name, '迁移议题', 'failed', errorMsg, errorType);
+            throw error;
+          }
         } else {
-          return `数据验证失败: ${baseMessage}。请检查输入参数的格式和有效性。`;
+          console.log(ConsoleColors.success('议题已迁移，跳过'));
+          const existingStep = log.steps.find(step => step.name === '迁移议题');
+          if (!existingStep || existingStep.status !== 'completed') {
+            this.recordMigrationStep(repo.name, '迁移议题', 'skipped');
+          }
         }
-        
-      case 'filesystem':
-        if (errorLower.includes('ebusy') || errorLower.includes('resource busy or locked')) {
-          return `文件系统忙碌: ${baseMessage}。文件正被其他进程使用，这通常不影响迁移结果。`;
-        } else if (errorLower.includes('cannot delete') || errorLower.includes('cannot remove')) {
-          return `文件删除失败: ${baseMessage}。临时文件清理失败，但不影响迁移结果。`;
-        } else if (errorLower.includes('enoent') || errorLower.includes('no such file or directory')) {
-          return `文件不存在: ${baseMessage}。目标文件可能已被删除，这通常不影响迁移结果。`;
-        } else if (errorLower.includes('enospc') || errorLower.includes('no space left on device')) {
-          return `磁盘空间不足: ${baseMessage}。请清理磁盘空间后重试。`;
+        nextStepNumber++;
+      }
+
+      // 16. 迁移合并请求（依赖已推送的分支）
+      if (this.withMergeRequests) {
+        if (!log.isMergeRequestsMigrated) {
+          console.log(ConsoleColors.step(nextStepNumber, '迁移合并请求'));
+          this.recordMigrationStep(repo.name, '迁移合并请求', 'in_progress');
+          try {
+            const mergeRequestResult = await this.migrateProjectMergeRequests(repo, log);
+            log.isMergeRequestsMigrated = true;
+            
+            if (mergeRequestResult.warnings.length > 0) {
+              this.recordMigrationStep(repo.name, '迁移合并请求', 'warning', undefined, undefined, mergeRequestResult.warnings);
+              mergeRequestResult.warnings.forEach(warning => this.addWarning(repo.name, warning));
+            } else {
+              this.recordMigrationStep(repo.name, '迁移合并请求', 'completed');
+            }
+            
+            this.updateMigrationLog(log);
+            console.log(ConsoleColors.success(`合并请求迁移完成，本次处理 ${mergeRequestResult.migratedCount} 个合并请求`));
+          } catch (error: any) {
+            const errorMsg = error.message;
+            const errorType = this.classifyError(errorMsg);
+            this.recordMigrationStep(repo.name, '迁移合并请求', 'failed', errorMsg, errorType);
+            throw error;
+          }
         } else {
-          return `文件系统错误: ${baseMessage}。这通常不影响迁移结果，可以忽略。`;
+          console.log(ConsoleColors.success('合并请求已迁移，跳过'));
+          const existingStep = log.steps.find(step => step.name === '迁移合并请求');
+          if (!existingStep || (existingStep.status !== 'completed' && existingStep.status !== 'warning')) {
+            this.recordMigrationStep(repo.name, '迁移合并请求', 'skipped');
+          }
         }
-        
-      default:
-          return `未知错误: ${baseMessage}。如果问题持续存在，请联系技术支持。`;
-    }
-  }
+        nextStepNumber++;
+      }
 
-  /**
-   * 预检查机制：验证迁移前的各项条件
-   */
-  private async performPreChecks(): Promise<{ success: boolean; errors: string[] }> {
-    const errors: string[] = [];
-    
-    console.log('🔍 开始执行预检查...');
-    
-    try {
-      // 1. 检查网络连通性
-      console.log('1. 检查网络连通性...');
-      const networkCheck = await this.checkNetworkConnectivity();
-      if (!networkCheck.success) {
-        errors.push(`网络连通性检查失败: ${networkCheck.error}`);
-      } else {
-        console.log('✓ 网络连通性正常');
+      // 17. 同步项目设置（放在内容迁移之后，避免关闭的功能影响议题和合并请求的创建）
+      if (this.withSettings) {
+        if (!log.isSettingsSynced) {
+          console.log(ConsoleColors.step(nextStepNumber, '同步项目设置'));
+          this.recordMigrationStep(repo.name, '同步项目设置', 'in_progress');
+          try {
+            const settingsResult = await this.syncProjectSettings(repo, log);
+            log.isSettingsSynced = true;
+            
+            if (settingsResult.warnings.length > 0) {
+              this.recordMigrationStep(repo.name, '同步项目设置', 'warning', undefined, undefined, settingsResult.warnings);
+              settingsResult.warnings.forEach(warning => this.addWarning(repo.name, warning));
+            } else {
+              this.recordMigrationStep(repo.name, '同步项目设置', 'completed');
+            }
+            
+            this.updateMigrationLog(log);
+            console.log(ConsoleColors.success(`项目设置同步完成，共 ${settingsResult.appliedCount} 项生效`));
+          } catch (error: any) {
+            const errorMsg = error.message;
+            const errorType = this.classifyError(errorMsg);
+            this.recordMigrationStep(repo.name, '同步项目设置', 'failed', errorMsg, errorType);
+            throw error;
+          }
+        } else {
+          console.log(ConsoleColors.success('项目设置已同步，跳过'));
+          const existingStep = log.steps.find(step => step.name === '同步项目设置');
+          if (!existingStep || (existingStep.status !== 'completed' && existingStep.status !== 'warning')) {
+            this.recordMigrationStep(repo.name, '同步项目设置', 'skipped');
+          }
+        }
+        nextStepNumber++;
       }
-      
-      // 2. 验证 GitLab API 权限
-      console.log('2. 验证 GitLab API 权限...');
-      const apiCheck = await this.checkGitLabApiPermissions();
-      if (!apiCheck.success) {
-        errors.push(`GitLab API 权限验证失败: ${apiCheck.error}`);
+
+      // 18. 克隆迁移后的仓库到本地
+      if (this.skipFinalClone) {
+        console.log(ConsoleColors.warning('已禁用克隆迁移后的仓库，跳过'));
+        this.recordMigrationStep(repo.name, '克隆迁移后的仓库', 'skipped');
+        log.isFinalCloned = true; // 标记为已完成以避免重试
+      } else if (!log.isFinalCloned) {
+        console.log(ConsoleColors.step(nextStepNumber, '克隆迁移后的仓库到本地'));
+        this.recordMigrationStep(repo.name, '克隆迁移后的仓库', 'in_progress');
+        try {
+          await this.cloneFinalRepository(log.targetRepoUrl, repo.name);
+          log.isFinalCloned = true;
+          this.recordMigrationStep(repo.name, '克隆迁移后的仓库', 'completed');
+        } catch (error: any) {
+          const errorMsg = error.message;
+          const errorType = this.classifyError(errorMsg);
+          this.recordMigrationStep(repo.name, '克隆迁移后的仓库', 'failed', errorMsg, errorType);
+          throw error;
+        }
       } else {
-        console.log('✓ GitLab API 权限验证通过');
+        console.log(ConsoleColors.success('迁移后仓库已克隆，跳过'));
+        // 检查是否已有完成状态的步骤记录，如果有则不覆盖
+        const existingStep = log.steps.find(step => step.name === '克隆迁移后的仓库');
+        if (!existingStep || existingStep.status !== 'completed') {
+          this.recordMigrationStep(repo.name, '克隆迁移后的仓库', 'skipped');
+        }
       }
-      
-      // 3. 验证目标分组访问权限
-      console.log('3. 验证目标分组访问权限...');
-      const groupCheck = await this.checkTargetGroupPermissions();
-      if (!groupCheck.success) {
-        errors.push(`目标分组权限验证失败: ${groupCheck.error}`);
-      } else {
-        console.log('✓ 目标分组权限验证通过');
+
+      // 19. 清理镜像目录（export-import 方式没有克隆镜像）
+      if (migrationMode === 'push') {
+        for (const mirrorDir of [cloneDir, this.getWikiCloneDir(cloneDir)]) {
+          if (existsSync(mirrorDir)) {
+            rmSync(mirrorDir, { recursive: true, force: true });
+            console.log(ConsoleColors.dim(`🗑️  已清理镜像目录: ${path.basename(mirrorDir)}`));
+          }
+        }
       }
+
+      const endTime = new Date();
+      log.endTime = endTime.toISOString();
+      log.duration = `${Math.round((endTime.getTime() - migrationStartTime.getTime()) / 1000)}秒`;
       
-      // 4. 检查本地 Git 环境
-      console.log('4. 检查本地 Git 环境...');
-      const gitCheck = await this.checkLocalGitEnvironment();
-      if (!gitCheck.success) {
-        errors.push(`本地 Git 环境检查失败: ${gitCheck.error}`);
-      } else {
-        console.log('✓ 本地 Git 环境正常');
+      this.updateMigrationLog(log);
+      console.log('\n' + ConsoleColors.success(`仓库迁移完成: ${ConsoleColors.highlight(repo.name)} ${ConsoleColors.duration(`(耗时: ${log.duration})`)}`) + '\n');
+      
+      if (log.warnings && log.warnings.length > 0) {
+        console.log(ConsoleColors.warning(`⚠️ 警告信息: ${log.warnings.length} 条`));
       }
       
-      const success = errors.length === 0;
-      if (success) {
-        console.log('✅ 所有预检查项目通过，可以开始迁移');
+    } catch (error: any) {
+      const endTime = new Date();
+      const errorMsg = error.message;
+      const errorType = this.classifyError(errorMsg);
+      
+      log.errorType = errorType;
+      log.retryCount = (log.retryCount || 0) + 1;
+      const readableError = this.getReadableErrorMessage(errorMsg, errorType);
+      
+      // 检查是否可以重试
+      if (this.shouldRetry(errorType, log.retryCount)) {
+        const retryDelay = this.getRetryDelay(log.retryCount - 1);
+        const maxRetries = this.getMaxRetries(errorType);
+        
+        console.log('\n' + ConsoleColors.warning(`⚠️ 迁移遇到错误，准备重试...`));
+        console.log(ConsoleColors.error(`错误: ${readableError}`));
+        console.log(ConsoleColors.dim(`错误类型: ${errorType}`));
+        console.log(ConsoleColors.info(`重试进度: ${log.retryCount}/${maxRetries}`));
+        console.log(ConsoleColors.info(`等待 ${retryDelay / 1000} 秒后重试...`));
+        
+        this.recordMigrationStep(repo.name, `准备重试 (${log.retryCount}/${maxRetries})`, 'in_progress', `等待 ${retryDelay / 1000} 秒`);
+        this.updateMigrationLog(log);
+        
+        // 清理可能的镜像目录（在仓库专属的临时目录中查找）
+        try {
+          const repoTempDir = this.getRepositoryTempDir(repo);
+          if (existsSync(repoTempDir)) {
+            const files = readdirSync(repoTempDir);
+            const actualRepoName = this.extractRepoNameFromUrl(repo.originalUrl);
+            const mirrorDirs = files.filter(file => 
+              file.startsWith(actualRepoName) && file.endsWith('.git')
+            );
+            
+            mirrorDirs.forEach(dir => {
+              const dirPath = path.join(repoTempDir, dir);
+              if (existsSync(dirPath)) {
+                rmSync(dirPath, { recursive: true, force: true });
+                console.log(ConsoleColors.dim(`🗑️  已清理镜像目录: ${dir}`));
+              }
+            });
+          }
+        } catch (error) {
+          console.log(ConsoleColors.warning('⚠️  清理镜像目录时出现问题'));
+        }
+        
+        // 等待重试延迟
+        await new Promise(resolve => setTimeout(resolve, retryDelay));
+        
+        // 清理失败状态，准备重试
+        log.failureReason = '';
+        
+        // 递归重试
+        console.log(ConsoleColors.info(`🔄 开始第 ${log.retryCount} 次重试: ${ConsoleColors.highlight(repo.name)}`));
+        return await this.migrateSingleRepository(repo);
       } else {
-        console.log('❌ 预检查发现问题，请解决后重试');
-        errors.forEach(error => console.log(`  - ${error}`));
+        // 达到最大重试次数，记录最终失败
+        log.endTime = endTime.toISOString();
+        log.duration = `${Math.round((endTime.getTime() - migrationStartTime.getTime()) / 1000)}秒`;
+        log.failureReason = readableError;
+        
+        this.recordMigrationStep(repo.name, '迁移最终失败', 'failed', log.failureReason, errorType);
+        this.updateMigrationLog(log);
+        
+        console.log('\n' + ConsoleColors.error(`❌ 仓库迁移最终失败: ${ConsoleColors.highlight(repo.name)}`));
+        console.log(ConsoleColors.error(`失败原因: ${log.failureReason}`));
+        console.log(ConsoleColors.error(`错误类型: ${errorType}`));
+        console.log(ConsoleColors.error(`总重试次数: ${log.retryCount}`));
+        
+        // 提供恢复建议
+        const analysis = this.analyzeMigrationState(log);
+        if (analysis.recommendations.length > 0) {
+          console.log(ConsoleColors.info('💡 建议:'));
+          analysis.recommendations.forEach(rec => {
+            console.log(ConsoleColors.dim(`   - ${rec}`));
+          });
+        }
+        
+        // 清理可能的临时文件
+        const repoTempDir = this.getRepositoryTempDir(repo);
+        if (existsSync(repoTempDir)) {
+          rmSync(repoTempDir, { recursive: true, force: true });
+        }
       }
-      
-      return { success, errors };
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      errors.push(`预检查过程中发生异常: ${errorMsg}`);
-      return { success: false, errors };
     }
   }
 
   /**
-   * 检查网络连通性
+   * 使用固定数量的工作者并发处理任务列表
    */
-  private async checkNetworkConnectivity(): Promise<{ success: boolean; error?: string }> {
-    try {
-      // 检查目标 GitLab 服务器连通性
-      const gitlabHost = new URL(this.targetGroupUrl).hostname;
-      const response = await fetch(`https://${gitlabHost}/api/v4/version`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${this.accessToken}`
-        },
-        signal: AbortSignal.timeout(10000) // 10秒超时
-      });
-      
-      if (!response.ok) {
-        return { success: false, error: `无法连接到 GitLab 服务器 (${response.status})` };
+  private async runWithConcurrency<T>(items: T[], worker: (item: T) => Promise<void>): Promise<void> {
+    let nextIndex = 0;
+    const workerCount = Math.min(this.concurrency, items.length);
+    const workers = Array.from({ length: workerCount }, async () => {
+      while (nextIndex < items.length) {
+        const item = items[nextIndex++];
+        await worker(item);
       }
-      
-      return { success: true };
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      return { success: false, error: `网络连接失败: ${errorMsg}` };
-    }
+    });
+    await Promise.all(workers);
   }
 
   /**
-   * 检查 GitLab API 权限
+   * 确保已获取有效的 Access Token，缺失时交互式输入
    */
-  private async checkGitLabApiPermissions(): Promise<{ success: boolean; error?: string }> {
-    try {
-      const apiUrl = `${this.getGitLabApiBase()}/user`;
-      const response = await fetch(apiUrl, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${this.accessToken}`,
-          'Content-Type': 'application/json'
-        },
-        signal: AbortSignal.timeout(10000)
-      });
-      
-      if (!response.ok) {
-        if (response.status === 401) {
-          return { success: false, error: 'Access Token 无效或已过期' };
-        } else if (response.status === 403) {
-          return { success: false, error: 'Access Token 权限不足' };
-        } else {
-          return { success: false, error: `API 调用失败 (${response.status})` };
-        }
-      }
+  private async ensureAccessToken(): Promise<void> {
+    if (!this.accessToken || this.accessToken === 'your_access_token' || this.accessToken === 'your_gitlab_access_token') {
+      console.log(ConsoleColors.warning('未找到有效的 GitLab Access Token'));
+      console.log(ConsoleColors.info('Access Token 获取优先级:'));
+      console.log(ConsoleColors.dim('   1. 命令行参数 (最高优先级)'));
+      console.log(ConsoleColors.dim('   2. move.md 文件中的 "## 迁移目标 Access Token" 部分'));
+      console.log(ConsoleColors.dim('   3. 环境变量: GITLAB_ACCESS_TOKEN'));
+      console.log(ConsoleColors.dim('   4. 交互式输入 (当前)'));
+      console.log('');
       
-      const userInfo = await response.json();
-      console.log(`  当前用户: ${userInfo.name} (${userInfo.username})`);
+      // 交互式输入 Access Token
+      this.accessToken = await promptForAccessToken();
       
-      return { success: true };
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      return { success: false, error: `API 权限验证失败: ${errorMsg}` };
+      if (!this.accessToken || this.accessToken.trim() === '') {
+        console.error(ConsoleColors.error('Access Token 不能为空'));
+        throw new Error('Access Token 不能为空');
+      }
     }
   }
 
   /**
-   * 检查目标分组权限
+   * 获取本次需要处理的仓库列表（考虑指定项目）
    */
-  private async checkTargetGroupPermissions(): Promise<{ success: boolean; error?: string }> {
+  private getRepositoriesToMigrate(): TRepository[] {
+    if (this.selectedProjects.length === 0) {
+      return this.repositories;
+    }
+    return this.repositories.filter(repo => this.selectedProjects.includes(repo.name));
+  }
+
+  /**
+   * 执行迁移任务
+   */
+  public async migrate(): Promise<void> {
     try {
-      const groupId = await this.getGroupId(this.targetGroupUrl);
-      const apiUrl = `${this.getGitLabApiBase()}/groups/${groupId}`;
+      console.log('\n' + ConsoleColors.box('GitLab 项目迁移工具'));
+      console.log('');
       
-      const response = await fetch(apiUrl, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${this.accessToken}`,
-          'Content-Type': 'application/json'
-        },
-        signal: AbortSignal.timeout(10000)
-      });
+      // 解析move.md文件
+      this.parseMoveFile();
       
-      if (!response.ok) {
-        if (response.status === 404) {
-          return { success: false, error: '目标分组不存在或无访问权限' };
-        } else if (response.status === 403) {
-          return { success: false, error: '对目标分组没有足够的权限' };
-        } else {
-          return { success: false, error: `分组权限检查失败 (${response.status})` };
+      // 验证 Access Token
+      await this.ensureAccessToken();
+      
+      // 显示断点续传状态报告
+      this.showResumeReport();
+      
+      // 执行预检查
+      const preCheckResult = await this.performPreChecks();
+      if (!preCheckResult.success) {
+        console.error('\n' + ConsoleColors.error('❌ 预检查失败，无法开始迁移:'));
+        preCheckResult.errors.forEach(error => console.error(ConsoleColors.error(`  - ${error}`)));
+        
+        // 预检查失败时进行清理
+        console.log(ConsoleColors.warning('\n🧹 预检查失败，正在清理可能的临时文件...'));
+        cleanupOnExit(this);
+        
+        // 给清理函数一些时间来完成输出
+        await new Promise(resolve => setTimeout(resolve, 100));
+        
+        throw new Error('预检查失败，请解决上述问题后重试');
+      }
+      
+      // 过滤指定的项目
+      const repositoriesToMigrate = this.getRepositoriesToMigrate();
+      if (this.selectedProjects.length > 0) {
+        console.log(ConsoleColors.info(`指定迁移项目: ${ConsoleColors.highlight(this.selectedProjects.join(', '))}`));
+        console.log(ConsoleColors.success(`找到匹配项目: ${ConsoleColors.highlight(repositoriesToMigrate.map(r => r.name).join(', '))}`));
+        
+        const notFound = this.selectedProjects.filter(name => 
+          !this.repositories.some(repo => repo.name === name)
+        );
+        if (notFound.length > 0) {
+          console.log(ConsoleColors.warning(`未找到的项目: ${notFound.join(', ')}`));
         }
       }
       
-      const groupInfo = await response.json();
-      console.log(`  目标分组: ${groupInfo.name} (${groupInfo.full_path})`);
+      if (repositoriesToMigrate.length === 0) {
+        console.log(ConsoleColors.warning('没有找到需要迁移的仓库'));
+        return;
+      }
       
-      // 检查是否有创建项目的权限
-      if (groupInfo.permissions && groupInfo.permissions.group_access) {
-        const accessLevel = groupInfo.permissions.group_access.access_level;
-        if (accessLevel < 30) { // 30 = Developer, 40 = Maintainer, 50 = Owner
-          return { success: false, error: '在目标分组中没有创建项目的权限（需要 Developer 及以上权限）' };
+      console.log('\n' + ConsoleColors.progress(`开始迁移 ${ConsoleColors.highlight(repositoriesToMigrate.length.toString())} 个仓库`));
+      if (this.concurrency > 1) {
+        console.log(ConsoleColors.info(`并发迁移数: ${ConsoleColors.highlight(this.concurrency.toString())}`));
+        installProjectLogPrefix();
+      }
+      console.log(ConsoleColors.separator(60));
+      
+      // 重试次数按本次运行计算，上次运行留下的次数不影响本次重试
+      for (const repo of repositoriesToMigrate) {
+        const log = this.logs.get(repo.name);
+        if (log) {
+          log.retryCount = 0;
         }
       }
       
-      return { success: true };
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      return { success: false, error: `分组权限验证失败: ${errorMsg}` };
+      // 按并发数迁移仓库（并发数为 1 时即逐个迁移）
+      await this.runWithConcurrency(repositoriesToMigrate, repo =>
+        projectLogContext.run(repo.name, () => this.migrateSingleRepository(repo))
+      );
+      
+      console.log('\n' + ConsoleColors.separator(60));
+      console.log(ConsoleColors.success('🎉 所有迁移任务完成'));
+      
+    } catch (error: any) {
+      console.error(ConsoleColors.error(`迁移过程中发生错误: ${error.message}`));
+      process.exit(1);
     }
   }
 
   /**
-   * 检查本地 Git 环境
+   * 增量同步已完成迁移的项目：将源仓库的新提交和标签推送到目标仓库
+   * 目标仓库中存在源仓库没有的提交时拒绝覆盖，除非指定 force
+   * @returns 所有项目是否都已同步且没有被拒绝的引用
    */
-  private async checkLocalGitEnvironment(): Promise<{ success: boolean; error?: string }> {
-    try {
-      // 检查 Git 是否安装
-      try {
-        this.executeCommand('git --version');
-      } catch (error) {
-        return { success: false, error: 'Git 未安装或不在 PATH 环境变量中' };
-      }
-      
-      // 检查 Git 配置
-      try {
-        const userName = this.executeCommand('git config --global user.name').trim();
-        const userEmail = this.executeCommand('git config --global user.email').trim();
-        
-        if (!userName || !userEmail) {
-          return { 
-            success: false, 
-            error: 'Git 用户信息未配置，请运行: git config --global user.name "Your Name" 和 git config --global user.email "your.email@example.com"' 
-          };
+  public async sync(force: boolean = false): Promise<boolean> {
+    console.log('\n' + ConsoleColors.box('GitLab 仓库增量同步'));
+    console.log('');
+    
+    this.parseMoveFile();
+    
+    const repositories = this.getRepositoriesToMigrate();
+    const completedRepositories = repositories.filter(repo => {
+      const log = this.logs.get(repo.name);
+      return log && log.isFinalCloned && !log.failureReason && log.targetRepoUrl;
+    });
+    const incompleteNames = repositories
+      .filter(repo => !completedRepositories.includes(repo))
+      .map(repo => repo.name);
+    if (incompleteNames.length > 0) {
+      console.log(ConsoleColors.warning(`以下项目尚未完成迁移，跳过同步: ${incompleteNames.join(', ')}`));
+    }
+    if (completedRepositories.length === 0) {
+      console.log(ConsoleColors.warning('没有已完成迁移的项目需要同步'));
+      return true;
+    }
+    
+    console.log(ConsoleColors.progress(`开始同步 ${ConsoleColors.highlight(completedRepositories.length.toString())} 个仓库${force ? '（强制覆盖目标仓库）' : ''}`));
+    if (this.concurrency > 1) {
+      installProjectLogPrefix();
+    }
+    
+    const results = new Map<string, TSyncRefResult[] | Error>();
+    await this.runWithConcurrency(completedRepositories, repo =>
+      projectLogContext.run(repo.name, async () => {
+        try {
+          results.set(repo.name, await this.syncSingleRepository(repo, force));
+        } catch (error: any) {
+          console.log(ConsoleColors.error(`同步失败: ${error.message}`));
+          results.set(repo.name, error);
         }
-        
-        console.log(`  Git 用户: ${userName} <${userEmail}>`);
-      } catch (error) {
-        return { success: false, error: 'Git 配置检查失败' };
+      })
+    );
+    
+    // 汇总
+    let failedCount = 0;
+    let refusedCount = 0;
+    let pushedCount = 0;
+    for (const result of results.values()) {
+      if (result instanceof Error) {
+        failedCount++;
+        continue;
       }
-      
-      // 检查临时目录权限
-      try {
-        if (!existsSync(this.tempDir)) {
-          mkdirSync(this.tempDir, { recursive: true });
-        }
-        
-        // 测试写入权限
-        const testFile = path.join(this.tempDir, 'test-write-permission.tmp');
-        writeFileSync(testFile, 'test');
-        rmSync(testFile);
-      } catch (error) {
-        return { success: false, error: `临时目录权限不足: ${this.tempDir}` };
+      pushedCount += result.filter(item => item.pushed).length;
+      refusedCount += result.filter(item => !item.pushed && (item.status === 'diverged' || item.status === 'target_ahead')).length;
+    }
+    
+    console.log('\n' + ConsoleColors.separator(60));
+    console.log(ConsoleColors.info(`同步完成: ${results.size} 个仓库，推送 ${pushedCount} 个引用`));
+    if (refusedCount > 0) {
+      console.log(ConsoleColors.warning(`${refusedCount} 个引用在目标仓库中有源仓库没有的提交，未覆盖（使用 --force 强制覆盖）`));
+    }
+    if (failedCount > 0) {
+      console.log(ConsoleColors.error(`${failedCount} 个仓库同步失败`));
+    }
+    
+    return failedCount === 0 && refusedCount === 0;
+  }
+
+  /**
+   * 同步单个仓库，返回每个引用的比较和推送结果
+   */
+  private async syncSingleRepository(repo: TRepository, force: boolean): Promise<TSyncRefResult[]> {
+    const log = this.logs.get(repo.name)!;
+    const targetUrl = log.targetRepoUrl;
+    
+    console.log('\n' + ConsoleColors.progress(`开始同步仓库: ${ConsoleColors.highlight(repo.name)}`));
+    const cloneDir = await this.fetchSyncMirror(repo, targetUrl);
+    
+    const sourceRefs = new Map<string, string>();
+    const targetRefs = new Map<string, string>();
+    const refOutput = await this.executeCommand('git for-each-ref --format="%(objectname) %(refname)" refs/heads refs/tags refs/remotes/target refs/sync-target', cloneDir);
+    for (const line of refOutput.split('\n')) {
+      const [sha, ref] = line.trim().split(' ');
+      if (!sha || !ref) continue;
+      if (ref.startsWith('refs/remotes/target/')) {
+        targetRefs.set(ref.replace('refs/remotes/target/', 'refs/heads/'), sha);
+      } else if (ref.startsWith('refs/sync-target/')) {
+        targetRefs.set(ref.replace('refs/sync-target/', 'refs/'), sha);
+      } else {
+        sourceRefs.set(ref, sha);
+      }
+    }
+    
+    const results: TSyncRefResult[] = [];
+    for (const [ref, sourceSha] of sourceRefs) {
+      const targetSha = targetRefs.get(ref);
+      let status: TSyncRefStatus;
+      if (!targetSha) {
+        status = 'new';
+      } else if (targetSha === sourceSha) {
+        status = 'unchanged';
+      } else if (ref.startsWith('refs/tags/')) {
+        status = 'diverged';
+      } else if (await this.isAncestorCommit(targetSha, sourceSha, cloneDir)) {
+        status = 'advanced';
+      } else if (await this.isAncestorCommit(sourceSha, targetSha, cloneDir)) {
+        status = 'target_ahead';
+      } else {
+        status = 'diverged';
+      }
+      results.push({ ref, status, sourceSha, targetSha, pushed: false });
+    }
+    for (const [ref, targetSha] of targetRefs) {
+      if (!sourceRefs.has(ref)) {
+        results.push({ ref, status: 'target_only', targetSha, pushed: false });
+      }
+    }
+    
+    // 新增和可快进的引用直接推送；会覆盖目标提交的引用仅在强制模式下推送
+    const refsToPush = results.filter(item =>
+      item.status === 'new' || item.status === 'advanced' ||
+      (force && (item.status === 'diverged' || item.status === 'target_ahead'))
+    );
+    
+    if (refsToPush.length > 0) {
+      // LFS 对象缓存在持久镜像中，只下载缺少的对象；按目标仓库已有的分支排除旧提交，只上传新提交引用的对象
+      if (await this.detectGitLfs(cloneDir)) {
+        await this.ensureGitLfsAvailable();
+        await this.executeCommandWithProgress('git lfs fetch --all origin', cloneDir);
+        await this.executeCommandWithProgress(`git lfs push target ${refsToPush.map(item => `"${item.ref}"`).join(' ')}`, cloneDir);
       }
       
-      return { success: true };
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      return { success: false, error: `Git 环境检查失败: ${errorMsg}` };
+      const refspecs = refsToPush
+        .map(item => `"${item.status === 'diverged' || item.status === 'target_ahead' ? '+' : ''}${item.ref}:${item.ref}"`)
+        .join(' ');
+      // 强制覆盖的分支需要临时取消保护，否则会被拒绝
+      const overwrittenBranches = refsToPush
+        .filter(item => (item.status === 'diverged' || item.status === 'target_ahead') && item.ref.startsWith('refs/heads/'))
+        .map(item => item.ref.substring('refs/heads/'.length));
+      const restoreWarnings = await this.withTargetBranchesUnprotected(
+        repo.name,
+        overwrittenBranches,
+        () => this.executeCommandWithProgress(`git push "${targetUrl}" ${refspecs}`, cloneDir)
+      );
+      restoreWarnings.forEach(warning => {
+        this.addWarning(repo.name, warning);
+        console.log(ConsoleColors.warning(warning));
+      });
+      refsToPush.forEach(item => item.pushed = true);
+      
+      // 同步推送的引用计入快照，回滚时不视为目标仓库的新提交
+      log.targetRefs = {
+        ...log.targetRefs,
+        ...Object.fromEntries(refsToPush.map(item => [item.ref, item.sourceSha!]))
+      };
     }
+    
+    log.lastSyncTime = new Date().toISOString();
+    this.updateMigrationLog(log);
+    
+    console.log(this.formatSyncResults(repo.name, results));
+    return results;
   }
 
   /**
-   * 智能重试机制：根据错误类型决定是否重试
+   * 获取同步用的持久镜像目录，与配置文件同目录，位于 <配置文件名>.sync/ 下
    */
-  private shouldRetry(errorType: TErrorType, retryCount: number): boolean {
-    const maxRetries = this.getMaxRetries(errorType);
-    return retryCount < maxRetries;
+  private getSyncMirrorDir(repo: TRepository): string {
+    const extension = path.extname(this.moveFilePath);
+    return path.join(path.dirname(this.moveFilePath), `${path.basename(this.moveFilePath, extension)}.sync`, `${repo.name}.git`);
   }
 
   /**
-   * 获取不同错误类型的最大重试次数
+   * 更新同步用的持久镜像：首次同步时初始化，之后只获取源仓库和目标仓库的新提交，不同步 Wiki
+   * 目标仓库的分支放在 refs/remotes/target/ 下，git lfs push 据此跳过目标仓库已有的提交
    */
-  private getMaxRetries(errorType: TErrorType): number {
-    const maxRetries = {
-      'network': 3,
-      'api_operation': 2,
-      'git_operation': 1,
-      'permission': 0,
-      'validation': 0,
-      'filesystem': 0,  // 文件系统错误通常不需要重试，直接降级为警告
-      'unknown': 1
-    };
+  private async fetchSyncMirror(repo: TRepository, targetUrl: string): Promise<string> {
+    const mirrorDir = this.getSyncMirrorDir(repo);
+    if (!existsSync(path.join(mirrorDir, 'HEAD'))) {
+      mkdirSync(mirrorDir, { recursive: true });
+      await this.executeCommand('git init --bare', mirrorDir);
+      console.log(ConsoleColors.dim(`创建同步镜像: ${mirrorDir}`));
+    }
     
-    return maxRetries[errorType];
+    // 每次同步都按配置更新远程地址，源仓库或目标仓库地址变化后仍可复用已有对象
+    await this.executeCommand(`git config remote.origin.url "${this.getSourceRepositoryUrl(repo)}"`, mirrorDir);
+    await this.executeCommand(`git config remote.target.url "${targetUrl}"`, mirrorDir);
+    
+    console.log(ConsoleColors.progress('正在获取源仓库的新提交...'));
+    await this.executeCommandWithProgress('git fetch --prune --no-tags origin "+refs/heads/*:refs/heads/*" "+refs/tags/*:refs/tags/*"', mirrorDir);
+    // 获取目标仓库的分支和标签，用于判断能否快进（对象大多已存在，只传输差异）
+    await this.executeCommand('git fetch --prune --no-tags target "+refs/heads/*:refs/remotes/target/*" "+refs/tags/*:refs/sync-target/tags/*"', mirrorDir);
+    return mirrorDir;
   }
 
   /**
-   * 获取重试延迟时间（毫秒）
+   * 判断 ancestor 是否为 descendant 的祖先提交
    */
-  private getRetryDelay(retryCount: number): number {
-    // 指数退避：1秒、2秒、4秒
-    return Math.min(1000 * Math.pow(2, retryCount), 8000);
+  private async isAncestorCommit(ancestor: string, descendant: string, cwd: string): Promise<boolean> {
+    try {
+      await this.runCommand(`git merge-base --is-ancestor ${ancestor} ${descendant}`, cwd);
+      return true;
+    } catch {
+      return false;
+    }
   }
 
   /**
-   * 恢复迁移状态：分析日志并确定下一步操作
+   * 格式化单个仓库的同步结果
    */
-  private analyzeMigrationState(log: TMigrationLog): {
-    nextStep: string;
-    canResume: boolean;
-    needsCleanup: boolean;
-    recommendations: string[];
-  } {
-    const recommendations: string[] = [];
-    let nextStep = '开始迁移';
-    let canResume = true;
-    let needsCleanup = false;
-    
-    // 分析完成状态
-    if (log.isFinalCloned && !log.failureReason) {
-      return {
-        nextStep: '已完成',
-        canResume: false,
-        needsCleanup: false,
-        recommendations: ['迁移已完成，无需操作']
-      };
-    }
+  private formatSyncResults(repoName: string, results: TSyncRefResult[]): string {
+    const shortSha = (sha?: string) => (sha || '').substring(0, 8);
+    const lines = [`\n📦 ${ConsoleColors.highlight(repoName)} 同步结果:`];
     
-    // 分析失败状态和重试建议
-    if (log.failureReason) {
-      const errorType = log.errorType || 'unknown';
-      
-      if (this.shouldRetry(errorType, log.retryCount || 0)) {
-        recommendations.push(`可以重试，当前重试次数: ${log.retryCount || 0}`);
-        
-        switch (errorType) {
-          case 'network':
-            recommendations.push('网络错误，建议检查网络连接后重试');
-            break;
-          case 'api_operation':
-            recommendations.push('API 错误，建议检查 Access Token 权限');
-            break;
-          case 'git_operation':
-            recommendations.push('Git 操作错误，建议检查仓库地址和权限');
-            needsCleanup = true;
-            break;
+    for (const item of results) {
+      const pushedText = item.pushed ? ConsoleColors.success('已推送') : '';
+      switch (item.status) {
+        case 'new':
+          lines.push(`   ＋ ${item.ref} 新增 ${shortSha(item.sourceSha)} ${pushedText}`);
+          break;
+        case 'advanced':
+          lines.push(`   ⬆ ${item.ref} ${shortSha(item.targetSha)} → ${shortSha(item.sourceSha)} ${pushedText}`);
+          break;
+        case 'diverged':
+        case 'target_ahead': {
+          const reason = item.status === 'diverged' ? '已分叉' : '目标仓库有源仓库没有的提交';
+          const action = item.pushed ? ConsoleColors.warning('已强制覆盖') : ConsoleColors.warning('未覆盖');
+          lines.push(`   ⚠ ${item.ref} ${reason}（源 ${shortSha(item.sourceSha)}，目标 ${shortSha(item.targetSha)}）${action}`);
+          break;
         }
-      } else {
-        recommendations.push('已达到最大重试次数，建议手动检查问题');
-        canResume = false;
+        case 'target_only':
+          lines.push(ConsoleColors.dim(`   · ${item.ref} 仅存在于目标仓库`));
+          break;
       }
     }
     
-    // 确定下一步操作
-    if (!log.isOriginalCloned) {
-      nextStep = '克隆原仓库镜像';
-    } else if (!log.isTargetCreated) {
-      nextStep = '创建目标仓库';
-    } else if (!log.isMirrorPushed) {
-      nextStep = '推送镜像到目标仓库';
-    } else if (!log.isDescriptionUpdated) {
-      nextStep = '更新仓库描述';
-    } else if (!log.isFinalCloned) {
-      nextStep = '克隆迁移后的仓库';
+    const unchangedCount = results.filter(item => item.status === 'unchanged').length;
+    if (unchangedCount === results.length) {
+      lines.push(ConsoleColors.dim('   没有新的提交或标签'));
+    } else if (unchangedCount > 0) {
+      lines.push(ConsoleColors.dim(`   ${unchangedCount} 个引用无变化`));
     }
-    
-    return { nextStep, canResume, needsCleanup, recommendations };
+    return lines.join('\n');
   }
 
   /**
-   * 显示断点续传状态报告
+   * 回滚迁移：删除或归档本工具创建的目标项目，删除迁移后克隆到本地的仓库，并清除对应的迁移日志
+   * 目标项目在迁移前已存在，或迁移后收到了新的提交时拒绝回滚
+   * @returns 所有项目是否都已回滚
    */
-  private showResumeReport(): void {
-    const resumableProjects = Array.from(this.logs.values()).filter(log => 
-      !log.isFinalCloned || log.failureReason
-    );
+  public async rollback(options: TRollbackOptions = {}): Promise<boolean> {
+    console.log('\n' + ConsoleColors.box('GitLab 迁移回滚'));
+    console.log('');
     
-    if (resumableProjects.length === 0) {
-      console.log(ConsoleColors.success('✅ 没有需要断点续传的项目，所有项目状态正常'));
-      return;
-    }
+    this.parseMoveFile();
+    await this.ensureAccessToken();
     
-    console.log('\n' + ConsoleColors.info('📋 断点续传状态报告:'));
-    console.log(ConsoleColors.separator(80));
+    const repositories = this.getRepositoriesToMigrate().filter(repo => this.logs.has(repo.name));
+    if (repositories.length === 0) {
+      console.log(ConsoleColors.warning('没有可回滚的项目（指定的项目没有迁移日志）'));
+      return true;
+    }
     
-    for (const log of resumableProjects) {
-      const analysis = this.analyzeMigrationState(log);
-      
-      console.log(`\n📦 项目: ${ConsoleColors.highlight(log.projectName)}`);
-      console.log(`   状态: ${analysis.canResume ? ConsoleColors.warning('可继续') : ConsoleColors.error('需要手动处理')}`);
-      console.log(`   下一步: ${ConsoleColors.info(analysis.nextStep)}`);
-      
-      if (log.retryCount && log.retryCount > 0) {
-        console.log(`   重试次数: ${ConsoleColors.dim(log.retryCount.toString())}`);
+    // 先逐个检查，全部检查完成后再统一确认和执行
+    const rollbackItems: { repo: TRepository; targetProject: any | null }[] = [];
+    let refusedCount = 0;
+    for (const repo of repositories) {
+      console.log(`\n📦 项目: ${ConsoleColors.highlight(repo.name)}`);
+      try {
+        const targetProject = await this.checkRollbackTarget(repo, this.logs.get(repo.name)!);
+        rollbackItems.push({ repo, targetProject });
+      } catch (error: any) {
+        console.log(ConsoleColors.error(`   拒绝回滚: ${error.message}`));
+        refusedCount++;
       }
-      
-      if (log.failureReason) {
-        console.log(`   失败原因: ${ConsoleColors.error(log.failureReason)}`);
+    }
+    
+    if (rollbackItems.length === 0) {
+      console.log('\n' + ConsoleColors.warning('没有可以安全回滚的项目'));
+      return false;
+    }
+    
+    const action = options.archive ? '归档' : '删除';
+    console.log('\n' + ConsoleColors.separator(60));
+    console.log(ConsoleColors.info(`将回滚 ${rollbackItems.length} 个项目:`));
+    for (const { repo, targetProject } of rollbackItems) {
+      const targetText = targetProject ? `${action}目标项目 ${targetProject.path_with_namespace}` : '目标项目不存在，只清除日志';
+      console.log(`   - ${repo.name}: ${targetText}`);
+    }
+    if (!options.yes) {
+      const confirmed = await this.promptUserConfirmation(`\n确认${action}以上目标项目并清除迁移日志？此操作无法撤销 (y/N): `);
+      if (!confirmed) {
+        console.log(ConsoleColors.warning('已取消回滚'));
+        return false;
       }
-      
-      if (analysis.recommendations.length > 0) {
-        console.log(`   建议:`);
-        analysis.recommendations.forEach(rec => {
-          console.log(`     - ${ConsoleColors.dim(rec)}`);
-        });
+    }
+    
+    let failedCount = 0;
+    for (const { repo, targetProject } of rollbackItems) {
+      try {
+        await this.rollbackSingleRepository(repo, targetProject, options.archive);
+      } catch (error: any) {
+        console.log(ConsoleColors.error(`回滚 ${repo.name} 失败: ${error.message}`));
+        failedCount++;
       }
     }
+    this.saveMigrationLogs();
     
-    console.log(ConsoleColors.separator(80));
+    console.log('\n' + ConsoleColors.separator(60));
+    console.log(ConsoleColors.info(`回滚完成: ${rollbackItems.length - failedCount} 个项目已回滚`));
+    if (refusedCount > 0) {
+      console.log(ConsoleColors.warning(`${refusedCount} 个项目被拒绝回滚`));
+    }
+    if (failedCount > 0) {
+      console.log(ConsoleColors.error(`${failedCount} 个项目回滚失败`));
+    }
+    return refusedCount === 0 && failedCount === 0;
   }
 
   /**
-   * 迁移单个仓库
+   * 检查项目能否安全回滚，返回需要删除的目标项目（目标项目已不存在时返回 null）
+   * 不能回滚时抛出错误说明原因
    */
-  private async migrateSingleRepository(repo: TRepository): Promise<void> {
-    console.log('\n' + ConsoleColors.separator(60));
-    console.log(ConsoleColors.progress(`开始迁移仓库: ${ConsoleColors.highlight(repo.name)}`));
-    console.log(ConsoleColors.description(`项目描述: ${repo.description}`));
-    console.log(ConsoleColors.url(`原仓库地址: ${repo.originalUrl}`));
-    console.log(ConsoleColors.separator(60));
-    
-    // 检查是否已有日志记录
-    let log = this.logs.get(repo.name);
-    
-    if (log) {
-      console.log(ConsoleColors.info('发现现有日志记录，检查迁移状态...'));
-      
-      // 如果已经完全迁移成功，跳过
-      if (log.isFinalCloned && !log.failureReason) {
-        console.log(ConsoleColors.success(`仓库 ${ConsoleColors.highlight(repo.name)} 已完成迁移，跳过`));
-        return;
+  private async checkRollbackTarget(repo: TRepository, log: TMigrationLog): Promise<any | null> {
+    if (!log.targetProjectId) {
+      if (log.isTargetCreated) {
+        throw new Error('目标项目不是由本工具创建（迁移前已存在，或日志中没有记录目标项目ID）');
       }
-      
-      console.log(ConsoleColors.info('继续未完成的迁移步骤...'));
-    } else {
-      // 创建新的日志记录
-      const startTime = new Date();
-      log = {
-        projectName: repo.name,
-        projectDescription: repo.description,
-        originalRepoUrl: repo.originalUrl,
-        targetGroup: this.targetGroupUrl,
-        targetRepoUrl: '',
-        startTime: startTime.toISOString(),
-        endTime: '',
-        duration: '',
-        isOriginalCloned: false,
-        isTargetCreated: false,
-        isMirrorPushed: false,
-        isDescriptionUpdated: false,
-        isFinalCloned: false,
-        failureReason: '',
-        steps: [],
-        warnings: [],
-        retryCount: 0,
-        lastUpdated: new Date().toISOString()
-      };
+      console.log(ConsoleColors.dim('   尚未创建目标项目'));
+      return null;
     }
     
-    const migrationStartTime = log.startTime ? new Date(log.startTime) : new Date();
-    if (!log.startTime) {
-      log.startTime = migrationStartTime.toISOString();
-    }
-
+    let targetProject: any;
     try {
-      // 清理失败状态，准备重新开始
-      if (log.failureReason && !log.isFinalCloned) {
-        log.failureReason = '';
+      targetProject = await this.requestTargetApi(`/projects/${log.targetProjectId}`);
+    } catch (error: any) {
+      if (error.status === 404) {
+        console.log(ConsoleColors.dim(`   目标项目 ${log.targetProjectId} 已不存在`));
+        return null;
       }
-
-      // 1. 检查目标分组中是否已存在同名仓库
-      let repositoryInfo: { exists: boolean; isEmpty?: boolean; targetUrl?: string } | null = null;
-      if (!log.isTargetCreated) {
-        // 检查是否已有完成的检查步骤
-        const existingCheckStep = log.steps.find(step => step.name === '检查目标仓库');
-        if (existingCheckStep && existingCheckStep.status === 'completed') {
-          console.log(ConsoleColors.success('目标仓库检查已完成，跳过'));
-        } else {
-          this.recordMigrationStep(repo.name, '检查目标仓库', 'in_progress');
-          try {
-            repositoryInfo = await this.checkRepositoryExists(repo.name);
-            if (repositoryInfo.exists && !repositoryInfo.isEmpty) {
-              log.failureReason = '目标分组中已存在同名仓库';
-              this.recordMigrationStep(repo.name, '检查目标仓库', 'failed', log.failureReason, 'validation');
-              console.log(ConsoleColors.error(`迁移失败: ${log.failureReason}`));
-              this.updateMigrationLog(log);
-              return;
-            }
-            this.recordMigrationStep(repo.name, '检查目标仓库', 'completed');
-          } catch (error: any) {
-            const errorMsg = error.message;
-            const errorType = this.classifyError(errorMsg);
-            this.recordMigrationStep(repo.name, '检查目标仓库', 'failed', errorMsg, errorType);
-            throw error;
-          }
-        }
-      } else {
-        // 只有在没有已完成的检查步骤时才记录为跳过
-        const existingCheckStep = log.steps.find(step => step.name === '检查目标仓库');
-        if (!existingCheckStep || existingCheckStep.status !== 'completed') {
-          this.recordMigrationStep(repo.name, '检查目标仓库', 'skipped');
-        } else {
-          console.log(ConsoleColors.success('目标仓库检查已完成，跳过'));
-        }
+      throw error;
+    }
+    console.log(`   目标项目: ${ConsoleColors.url(targetProject.web_url || targetProject.path_with_namespace)}`);
+    
+    // 目标仓库的分支和标签必须与工具写入的一致；没有快照时（迁移未完成校验）以源仓库为准
+    // 启用拉取镜像时引用会随源仓库更新，与源仓库当前一致的引用同样不视为新的提交
+    const targetRefs = await this.listRemoteRefs(log.targetRepoUrl);
+    let sourceRefs: Map<string, string> | null = null;
+    const changedRefs: string[] = [];
+    for (const [ref, sha] of targetRefs) {
+      if (log.targetRefs && log.targetRefs[ref] === sha) {
+        continue;
       }
-
-      // 2. 克隆原仓库镜像
-      // 始终使用从URL提取的实际仓库名作为目录名
-      const actualRepoName = this.extractRepoNameFromUrl(repo.originalUrl);
-      let cloneDir = `${actualRepoName}.git`;
-      if (!log.isOriginalCloned) {
-        console.log(ConsoleColors.step(1, '克隆原仓库镜像'));
-        this.recordMigrationStep(repo.name, '克隆原仓库镜像', 'in_progress');
-        try {
-          cloneDir = this.cloneOriginalRepository(repo);
-          log.isOriginalCloned = true;
-          this.recordMigrationStep(repo.name, '克隆原仓库镜像', 'completed');
-          this.updateMigrationLog(log);
-        } catch (error: any) {
-          const errorMsg = error.message;
-          const errorType = this.classifyError(errorMsg);
-          this.recordMigrationStep(repo.name, '克隆原仓库镜像', 'failed', errorMsg, errorType);
-          throw error;
-        }
-      } else {
-        console.log(ConsoleColors.success(`原仓库镜像已克隆，跳过: ${ConsoleColors.dim(cloneDir)}`));
-        // 检查是否已有完成状态的步骤记录，如果有则不覆盖
-        const existingStep = log.steps.find(step => step.name === '克隆原仓库镜像');
-        if (!existingStep || existingStep.status !== 'completed') {
-          this.recordMigrationStep(repo.name, '克隆原仓库镜像', 'skipped');
-        }
+      if (!sourceRefs) {
+        sourceRefs = await this.listRemoteRefs(repo.originalUrl);
+      }
+      if (sourceRefs.get(ref) !== sha) {
+        changedRefs.push(ref);
       }
+    }
+    if (changedRefs.length > 0) {
+      throw new Error(`目标仓库在迁移后收到了新的提交: ${changedRefs.join(', ')}`);
+    }
+    
+    return targetProject;
+  }
 
-      // 3. 创建目标仓库或使用现有空仓库
-      if (!log.isTargetCreated) {
-        if (repositoryInfo && repositoryInfo.exists && repositoryInfo.isEmpty && repositoryInfo.targetUrl) {
-          // 使用现有的空仓库
-          console.log(ConsoleColors.step(2, '使用现有空仓库'));
-          this.recordMigrationStep(repo.name, '创建目标仓库', 'in_progress');
-          log.targetRepoUrl = repositoryInfo.targetUrl;
-          log.isTargetCreated = true;
-          this.recordMigrationStep(repo.name, '创建目标仓库', 'completed');
-          this.updateMigrationLog(log);
-        } else {
-          // 创建新仓库
-          console.log(ConsoleColors.step(2, '创建目标仓库'));
-          this.recordMigrationStep(repo.name, '创建目标仓库', 'in_progress');
-          try {
-            const targetUrl = await this.createTargetRepository(repo);
-            log.targetRepoUrl = targetUrl;
-            log.isTargetCreated = true;
-            this.recordMigrationStep(repo.name, '创建目标仓库', 'completed');
-            this.updateMigrationLog(log);
-          } catch (error: any) {
-            const errorMsg = error.message;
-            const errorType = this.classifyError(errorMsg);
-            this.recordMigrationStep(repo.name, '创建目标仓库', 'failed', errorMsg, errorType);
-            throw error;
-          }
-        }
+  /**
+   * 回滚单个项目：删除或归档目标项目，移除推送镜像和本地克隆，清除迁移日志
+   */
+  private async rollbackSingleRepository(repo: TRepository, targetProject: any | null, archive: boolean = false): Promise<void> {
+    const log = this.logs.get(repo.name)!;
+    console.log('\n' + ConsoleColors.progress(`开始回滚: ${ConsoleColors.highlight(repo.name)}`));
+    
+    // 推送镜像指向即将删除的目标项目，先从源项目中移除
+    if (log.pushMirrorId) {
+      try {
+        const sourceProject = await this.getSourceProject(repo);
+        await this.requestSourceApi(repo, `/projects/${sourceProject.id}/remote_mirrors/${log.pushMirrorId}`, { method: 'DELETE' });
+        console.log(ConsoleColors.success(`已移除源项目的推送镜像 ${log.pushMirrorId}`));
+      } catch (error: any) {
+        console.log(ConsoleColors.warning(`移除源项目的推送镜像失败: ${error.message}`));
+      }
+    }
+    
+    if (targetProject) {
+      if (archive) {
+        await this.requestTargetApi(`/projects/${targetProject.id}/archive`, { method: 'POST' });
+        console.log(ConsoleColors.success(`已归档目标项目: ${targetProject.path_with_namespace}`));
       } else {
-        console.log(ConsoleColors.success(`目标仓库已创建，跳过: ${ConsoleColors.dim(log.targetRepoUrl)}`));
-        // 检查是否已有完成状态的步骤记录，如果有则不覆盖
-        const existingStep = log.steps.find(step => step.name === '创建目标仓库');
-        if (!existingStep || existingStep.status !== 'completed') {
-          this.recordMigrationStep(repo.name, '创建目标仓库', 'skipped');
-        }
+        await this.requestTargetApi(`/projects/${targetProject.id}`, { method: 'DELETE' });
+        console.log(ConsoleColors.success(`已删除目标项目: ${targetProject.path_with_namespace}`));
       }
-
-      // 4. 设置目标仓库的项目描述
-      if (!log.isDescriptionUpdated) {
-        console.log(ConsoleColors.step(3, '设置仓库描述'));
-        this.recordMigrationStep(repo.name, '设置仓库描述', 'in_progress');
-        try {
-          await this.updateRepositoryDescription(repo.name, repo.description);
-          log.isDescriptionUpdated = true;
-          this.recordMigrationStep(repo.name, '设置仓库描述', 'completed');
-          this.updateMigrationLog(log);
-        } catch (error: any) {
-          const errorMsg = error.message;
-          const errorType = this.classifyError(errorMsg);
-          this.recordMigrationStep(repo.name, '设置仓库描述', 'failed', errorMsg, errorType);
-          throw error;
-        }
+    }
+    
+    // 只删除从该目标仓库克隆的本地目录，避免误删同名的其他目录
+    const localDir = path.resolve(repo.name);
+    if (log.isFinalCloned && existsSync(localDir)) {
+      let originUrl = '';
+      try {
+        originUrl = (await this.runCommand('git remote get-url origin', localDir)).trim();
+      } catch {
+        // 不是 Git 仓库或没有 origin，保留目录
+      }
+      if (originUrl === log.targetRepoUrl) {
+        rmSync(localDir, { recursive: true, force: true });
+        console.log(ConsoleColors.success(`已删除本地克隆: ${ConsoleColors.dim(localDir)}`));
       } else {
-        console.log(ConsoleColors.success('仓库描述已更新，跳过'));
-        // 检查是否已有完成状态的步骤记录，如果有则不覆盖
-        const existingStep = log.steps.find(step => step.name === '设置仓库描述');
-        if (!existingStep || existingStep.status !== 'completed') {
-          this.recordMigrationStep(repo.name, '设置仓库描述', 'skipped');
-        }
+        console.log(ConsoleColors.warning(`本地目录 ${localDir} 不是从目标仓库克隆的，已保留`));
+      }
+    }
+    
+    this.logs.delete(repo.name);
+    console.log(ConsoleColors.success(`已清除迁移日志: ${repo.name}`));
+  }
+
+  /**
+   * 从源分组发现项目，并追加到配置文件的仓库表格中
+   * 已存在的表格行（按项目名称或原仓库地址判断）保持不变，返回新增的项目数量
+   */
+  public async discover(sourceGroupUrl: string, options: TDiscoverOptions = {}): Promise<number> {
+    console.log('\n' + ConsoleColors.box('发现源分组项目'));
+    console.log('');
+    
+    if (!this.isValidUrl(sourceGroupUrl)) {
+      throw new Error(`源分组URL格式无效: ${sourceGroupUrl}`);
+    }
+    
+    // 配置文件不存在时基于默认模板创建
+    const format = getConfigFormat(this.moveFilePath);
+    const fileExists = existsSync(this.moveFilePath);
+    const content = fileExists
+      ? readFileSync(this.moveFilePath, 'utf-8')
+      : format === 'markdown'
+        ? buildMoveFileTemplate([])
+        : serializeMigrationConfig({ targetGroup: 'https://gitlab.example.com/target-group/', repositories: [] }, format);
+    const { config } = parseMigrationConfig(content, format);
+    this.applyConfigAccessTokens(config);
+    
+    // 源分组与目标分组位于同一 GitLab 实例时，直接使用目标 Token
+    const sourceUrl = new URL(sourceGroupUrl);
+    const sameInstance = this.isValidUrl(config.targetGroup) && new URL(config.targetGroup).host === sourceUrl.host;
+    const token = this.sourceAccessToken || (sameInstance ? this.accessToken : '');
+    if (!token) {
+      throw new Error('未配置源 GitLab Access Token，请通过 --source-token、环境变量 SOURCE_GITLAB_ACCESS_TOKEN 或配置文件提供');
+    }
+    
+    const apiBase = `${sourceUrl.protocol}//${sourceUrl.host}/api/v4`;
+    const groupPath = this.extractGroupPath(sourceGroupUrl);
+    const group = await this.requestGitLabApi(apiBase, token, `/groups/${encodeURIComponent(groupPath)}`);
+    
+    const query = [
+      `include_subgroups=${options.includeSubgroups ? 'true' : 'false'}`,
+      'order_by=path',
+      'sort=asc'
+    ];
+    if (!options.includeArchived) {
+      query.push('archived=false');
+    }
+    console.log(ConsoleColors.progress(`正在读取分组 ${group.full_path} 的项目列表...`));
+    const projects = (await this.fetchAllPages(apiBase, token, `/groups/${group.id}/projects?${query.join('&')}`))
+      .filter(project => options.includeForks || !project.forked_from_project);
+    
+    // 读取配置中已有的项目，按名称和仓库地址去重
+    const existingNames = new Set<string>();
+    const existingSources = new Set<string>();
+    for (const repo of config.repositories) {
+      if (repo.name) {
+        existingNames.add(repo.name);
       }
+      if (repo.originalUrl && this.isValidGitUrl(repo.originalUrl)) {
+        const { host, projectPath } = this.parseGitUrl(repo.originalUrl);
+        existingSources.add(`${host}/${projectPath}`.toLowerCase());
+      }
+    }
+    
+    const newRepositories: TRepository[] = [];
+    let existingCount = 0;
+    for (const project of projects) {
+      if (existingSources.has(`${sourceUrl.host}/${project.path_with_namespace}`.toLowerCase())) {
+        existingCount++;
+        continue;
+      }
+      
+      // 子分组中的同名项目使用相对路径命名，避免目标分组中的项目名称冲突
+      let name = project.path;
+      if (existingNames.has(name)) {
+        name = project.path_with_namespace.slice(group.full_path.length + 1).replace(/\//g, '-');
+      }
+      if (existingNames.has(name)) {
+        console.log(ConsoleColors.warning(`项目名称重复，已跳过: ${project.path_with_namespace}`));
+        continue;
+      }
+      
+      existingNames.add(name);
+      newRepositories.push({
+        name,
+        description: (project.description || '').trim() || '无描述',
+        originalUrl: options.useSshUrl ? project.ssh_url_to_repo : project.http_url_to_repo
+      });
+      console.log(ConsoleColors.dim(`   + ${name} ← ${project.path_with_namespace}`));
+    }
+    
+    console.log('');
+    console.log(ConsoleColors.info(`发现 ${projects.length} 个项目，新增 ${newRepositories.length} 个，已存在 ${existingCount} 个`));
+    
+    if (newRepositories.length === 0) {
+      return 0;
+    }
+    
+    const newContent = format === 'markdown'
+      ? this.appendMarkdownRepositories(content, newRepositories)
+      : this.appendStructuredRepositories(content, format, newRepositories);
+    
+    if (fileExists) {
+      this.createConfigBackup();
+    } else {
+      mkdirSync(path.dirname(this.moveFilePath), { recursive: true });
+    }
+    writeFileSync(this.moveFilePath, newContent, 'utf-8');
+    console.log(ConsoleColors.success(`已写入配置文件: ${this.moveFilePath}`));
+    if (!fileExists) {
+      console.log(ConsoleColors.info('📝 请在配置文件中填写目标分组和 Access Token 后再开始迁移'));
+    }
+    
+    return newRepositories.length;
+  }
+
+  /**
+   * 将配置文件转换为其他格式（Markdown / YAML / JSON），已有的迁移状态一并写入新配置对应的状态文件
+   */
+  public convert(outputPath: string): void {
+    console.log('\n' + ConsoleColors.box('转换配置文件格式'));
+    console.log('');
+    
+    if (existsSync(outputPath)) {
+      throw new Error(`输出文件已存在: ${outputPath}`);
+    }
+    
+    this.parseMoveFile();
+    const { config } = loadMigrationConfig(this.moveFilePath);
+    const outputFormat = getConfigFormat(outputPath);
+    const content = serializeMigrationConfig({
+      ...config,
+      targetGroup: this.targetGroupUrl,
+      repositories: this.repositories
+    }, outputFormat);
+    
+    mkdirSync(path.dirname(outputPath), { recursive: true });
+    writeFileSync(outputPath, content, 'utf-8');
+    console.log(ConsoleColors.success(`已生成配置文件: ${outputPath}`));
+    if (outputFormat === 'markdown' && (config.accessTokenEnv || config.sourceAccessTokenEnv)) {
+      console.log(ConsoleColors.warning('Markdown 配置无法引用环境变量，Access Token 已写为占位符，可继续通过环境变量或 --token 提供'));
+    }
+    
+    // 迁移日志写入新配置对应的日志位置，转换后可以继续断点续传
+    if (this.logs.size > 0) {
+      this.moveFilePath = outputPath;
+      this.saveMigrationLogs(false);
+      console.log(ConsoleColors.success(`已写入 ${this.logs.size} 个项目的迁移状态: ${this.getStateFilePath()}`));
+    }
+  }
+
+  /**
+   * 在 move.md 的仓库表格末尾追加仓库行，没有表格时在日志部分之前插入
+   */
+  private appendMarkdownRepositories(content: string, repositories: TRepository[]): string {
+    const lines = content.split('\n');
+    const newRows = repositories.map(repo => `| ${repo.name} | ${toTableCell(repo.description) || '无描述'} | ${repo.originalUrl} |`);
+    
+    const tableStartIndex = lines.findIndex(line => line.includes('| 项目名称 | 项目描述 | 原仓库地址 |'));
+    if (tableStartIndex === -1) {
+      const logIndex = lines.findIndex(line => line.includes('## 日志'));
+      const tableLines = ['## 需要迁移仓库', '', '| 项目名称 | 项目描述 | 原仓库地址 |', '|---------|---------|----------|', ...newRows, ''];
+      lines.splice(logIndex !== -1 ? logIndex : lines.length, 0, ...tableLines);
+      return lines.join('\n');
+    }
+    
+    let tableEndIndex = tableStartIndex + 1;
+    for (let i = tableStartIndex + 2; i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (!line || line.includes('## ')) break;
+      tableEndIndex = i;
+    }
+    lines.splice(tableEndIndex + 1, 0, ...newRows);
+    return lines.join('\n');
+  }
+
+  /**
+   * 在 YAML / JSON 配置的 repositories 列表末尾追加仓库（YAML 保留原有注释）
+   */
+  private appendStructuredRepositories(content: string, format: TConfigFormat, repositories: TRepository[]): string {
+    const items = repositories.map(repo => ({ name: repo.name, description: repo.description, originalUrl: repo.originalUrl }));
+    
+    if (format === 'json') {
+      const data = JSON.parse(content);
+      data.repositories = [...(Array.isArray(data.repositories) ? data.repositories : []), ...items];
+      return `${JSON.stringify(data, null, 2)}\n`;
+    }
+    
+    const doc = YAML.parseDocument(content);
+    if (!YAML.isSeq(doc.get('repositories'))) {
+      doc.set('repositories', doc.createNode([]));
+    }
+    const seq = doc.get('repositories') as YAML.YAMLSeq;
+    items.forEach(item => seq.add(doc.createNode(item)));
+    return doc.toString();
+  }
 
-      // 5. 推送镜像到目标仓库
-      if (!log.isMirrorPushed) {
-        console.log(ConsoleColors.step(4, '推送镜像到目标仓库'));
-        this.recordMigrationStep(repo.name, '推送镜像到目标仓库', 'in_progress');
+  /**
+   * 将配置文件中的仓库导出为 git bundle，并在输出目录写入离线迁移清单
+   * 已有清单时按项目名称更新其中的条目，便于分批导出
+   * @returns 所有仓库是否都已导出
+   */
+  public async exportBundles(outputDir: string): Promise<boolean> {
+    console.log('\n' + ConsoleColors.box('GitLab 仓库离线导出'));
+    console.log('');
+    
+    this.parseMoveFile();
+    
+    const repositories = this.getRepositoriesToMigrate();
+    if (repositories.length === 0) {
+      console.log(ConsoleColors.warning('没有找到需要导出的仓库'));
+      return true;
+    }
+    
+    mkdirSync(outputDir, { recursive: true });
+    const manifest: TBundleManifest = loadBundleManifest(outputDir) || { version: BUNDLE_MANIFEST_VERSION, updatedAt: '', repositories: [] };
+    const manifestPath = path.join(outputDir, BUNDLE_MANIFEST_FILE);
+    
+    console.log(ConsoleColors.progress(`开始导出 ${ConsoleColors.highlight(repositories.length.toString())} 个仓库到: ${outputDir}`));
+    if (this.concurrency > 1) {
+      installProjectLogPrefix();
+    }
+    
+    const failedNames: string[] = [];
+    await this.runWithConcurrency(repositories, repo =>
+      projectLogContext.run(repo.name, async () => {
         try {
-          const pushResult = this.pushMirrorToTarget(cloneDir, log.targetRepoUrl);
-          log.isMirrorPushed = true;
-          
-          if (pushResult.hasWarnings) {
-            this.recordMigrationStep(repo.name, '推送镜像到目标仓库', 'warning', undefined, undefined, pushResult.warnings);
-            pushResult.warnings?.forEach(warning => this.addWarning(repo.name, warning));
+          const entry = await this.exportSingleBundle(repo, outputDir);
+          const index = manifest.repositories.findIndex(item => item.name === repo.name);
+          if (index >= 0) {
+            manifest.repositories[index] = entry;
           } else {
-            this.recordMigrationStep(repo.name, '推送镜像到目标仓库', 'completed');
+            manifest.repositories.push(entry);
           }
-          
-          this.updateMigrationLog(log);
+          manifest.version = BUNDLE_MANIFEST_VERSION;
+          manifest.updatedAt = new Date().toISOString();
+          // 每导出一个仓库就写入清单，中断后已导出的仓库不需要重新导出
+          writeFileAtomic(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`);
         } catch (error: any) {
-          const errorMsg = error.message;
-          const errorType = this.classifyError(errorMsg);
-          
-          // 检查是否为隐藏引用相关的错误，如果是则降级为警告而不是失败
-          if (errorMsg.includes('deny updating a hidden ref') || 
-              errorMsg.includes('refs/keep-around') ||
-              errorMsg.includes('refs/merge-requests') ||
-              errorMsg.includes('refs/pipelines') ||
-              errorMsg.includes('refs/environments') ||
-              errorMsg.includes('refs/heads/') ||
-              errorMsg.includes('refs/tags/') ||
-              errorMsg.includes('hidden ref') ||
-              errorMsg.includes('refusing to update checked out branch') ||
-              errorMsg.includes('remote rejected') ||
-              errorMsg.includes('pre-receive hook declined') ||
-              errorMsg.includes('! [remote rejected]') ||
-              errorMsg.includes('hook declined') ||
-              errorMsg.includes('protected branch') ||
-              errorMsg.includes('To ') ||
-              errorMsg.includes('Everything up-to-date') ||
-              errorMsg.includes('non-fast-forward') ||
-              errorMsg.includes('failed to push some refs') ||
-              errorMsg.includes('updates were rejected') ||
-              errorMsg.includes('fetch first') ||
-              errorMsg.includes('hint: Updates were rejected') ||
-              errorMsg.includes('error: failed to push')){
-            console.log(ConsoleColors.warning(`⚠️  推送过程中遇到隐藏引用相关警告，但不影响迁移结果`));
-            log.isMirrorPushed = true; // 标记为已推送
-            this.recordMigrationStep(repo.name, '推送镜像到目标仓库', 'warning', undefined, undefined, [`推送过程中遇到隐藏引用相关警告: ${errorMsg}`]);
-            this.addWarning(repo.name, `推送过程中遇到隐藏引用相关警告: ${errorMsg}`);
-            this.updateMigrationLog(log);
-          } else {
-            this.recordMigrationStep(repo.name, '推送镜像到目标仓库', 'failed', errorMsg, errorType);
-            throw error;
+          console.log(ConsoleColors.error(`导出失败: ${error.message}`));
+          failedNames.push(repo.name);
+        } finally {
+          const repoTempDir = this.getRepositoryTempDir(repo);
+          if (existsSync(repoTempDir)) {
+            rmSync(repoTempDir, { recursive: true, force: true });
           }
         }
-      } else {
-        console.log(ConsoleColors.success('镜像已推送，跳过'));
-        // 检查是否已有完成状态的步骤记录，如果有则不覆盖
-        const existingStep = log.steps.find(step => step.name === '推送镜像到目标仓库');
-        if (!existingStep || (existingStep.status !== 'completed' && existingStep.status !== 'warning')) {
-          this.recordMigrationStep(repo.name, '推送镜像到目标仓库', 'skipped');
-        }
-      }
+      })
+    );
+    
+    console.log('\n' + ConsoleColors.separator(60));
+    console.log(ConsoleColors.info(`导出完成: ${repositories.length - failedNames.length} 个仓库，清单: ${manifestPath}`));
+    if (failedNames.length > 0) {
+      console.log(ConsoleColors.error(`${failedNames.length} 个仓库导出失败: ${failedNames.join(', ')}`));
+    }
+    return failedNames.length === 0;
+  }
 
-      // 6. 克隆迁移后的仓库到本地
-      if (this.skipFinalClone) {
-        console.log(ConsoleColors.warning('已禁用克隆迁移后的仓库，跳过'));
-        this.recordMigrationStep(repo.name, '克隆迁移后的仓库', 'skipped');
-        log.isFinalCloned = true; // 标记为已完成以避免重试
-      } else if (!log.isFinalCloned) {
-        console.log(ConsoleColors.step(5, '克隆迁移后的仓库到本地'));
-        this.recordMigrationStep(repo.name, '克隆迁移后的仓库', 'in_progress');
-        try {
-          this.cloneFinalRepository(log.targetRepoUrl, repo.name);
-          log.isFinalCloned = true;
-          this.recordMigrationStep(repo.name, '克隆迁移后的仓库', 'completed');
-        } catch (error: any) {
-          const errorMsg = error.message;
-          const errorType = this.classifyError(errorMsg);
-          
-          // 检查是否为隐藏引用相关错误，如果是则降级为警告
-          if (errorMsg.includes('deny updating a hidden ref') || 
-              errorMsg.includes('refs/keep-around') ||
-              errorMsg.includes('hidden ref')) {
-            console.log(ConsoleColors.warning(`克隆过程中遇到隐藏引用警告: ${errorMsg}`));
-            this.addWarning(repo.name, `克隆时遇到隐藏引用警告: ${errorMsg}`);
-            this.recordMigrationStep(repo.name, '克隆迁移后的仓库', 'warning', undefined, undefined, [errorMsg]);
-            log.isFinalCloned = true; // 标记为已完成，因为这只是警告
-          } else {
-            this.recordMigrationStep(repo.name, '克隆迁移后的仓库', 'failed', errorMsg, errorType);
-            throw error;
-          }
-        }
-      } else {
-        console.log(ConsoleColors.success('迁移后仓库已克隆，跳过'));
-        // 检查是否已有完成状态的步骤记录，如果有则不覆盖
-        const existingStep = log.steps.find(step => step.name === '克隆迁移后的仓库');
-        if (!existingStep || existingStep.status !== 'completed') {
-          this.recordMigrationStep(repo.name, '克隆迁移后的仓库', 'skipped');
-        }
-      }
+  /**
+   * 镜像克隆单个仓库并生成仓库和 Wiki 的 bundle
+   */
+  private async exportSingleBundle(repo: TRepository, outputDir: string): Promise<TBundleManifestEntry> {
+    console.log('\n' + ConsoleColors.progress(`开始导出仓库: ${ConsoleColors.highlight(repo.name)}`));
+    const cloneDir = await this.cloneOriginalRepository(repo);
+    
+    // bundle 只包含 Git 对象，LFS 对象无法随 bundle 传输
+    if (this.listLocalLfsObjects(cloneDir).length > 0) {
+      throw new Error('仓库使用了 Git LFS，bundle 不包含 LFS 对象，无法离线迁移');
+    }
+    
+    const refs = await this.listMirrorRefs(cloneDir);
+    if (Object.keys(refs).length === 0) {
+      throw new Error('仓库没有可导出的分支或标签');
+    }
+    
+    const defaultBranch = await this.getMirrorDefaultBranch(cloneDir);
+    const bundle = await this.createBundleFile(cloneDir, path.join(outputDir, `${repo.name}.bundle`), refs);
+    
+    const wikiCloneDir = this.getWikiCloneDir(cloneDir);
+    const wiki = existsSync(wikiCloneDir)
+      ? await this.createBundleFile(wikiCloneDir, path.join(outputDir, `${repo.name}.wiki.bundle`), await this.listMirrorRefs(wikiCloneDir))
+      : undefined;
+    
+    console.log(ConsoleColors.success(`仓库导出完成: ${Object.keys(refs).length} 个引用${wiki ? '，包含 Wiki' : ''}`));
+    return {
+      name: repo.name,
+      description: repo.description,
+      originalUrl: repo.originalUrl,
+      ...(defaultBranch ? { defaultBranch } : {}),
+      bundle,
+      ...(wiki ? { wiki } : {}),
+      refs,
+      exportedAt: new Date().toISOString()
+    };
+  }
 
-      // 7. 清理镜像目录
-      if (existsSync(cloneDir)) {
-        rmSync(cloneDir, { recursive: true, force: true });
-        console.log(ConsoleColors.dim(`🗑️  已清理镜像目录: ${path.basename(cloneDir)}`));
+  /**
+   * 列出镜像目录中与推送到目标仓库的引用模式一致的引用（默认为分支和标签）
+   */
+  private async listMirrorRefs(cloneDir: string): Promise<Record<string, string>> {
+    // for-each-ref 按前缀匹配，refs/heads/* 需要写成 refs/heads/ 才能包含多级分支名
+    const refPatterns = this.pushRefs.map(pattern => `"${pattern.replace(/\*$/, '')}"`).join(' ');
+    const refOutput = await this.executeCommand(`git for-each-ref --format="%(objectname) %(refname)" ${refPatterns}`, cloneDir);
+    const refs: Record<string, string> = {};
+    for (const line of refOutput.split('\n')) {
+      const [sha, ref] = line.trim().split(' ');
+      if (sha && ref) {
+        refs[ref] = sha;
       }
+    }
+    return refs;
+  }
 
-      const endTime = new Date();
-      log.endTime = endTime.toISOString();
-      log.duration = `${Math.round((endTime.getTime() - migrationStartTime.getTime()) / 1000)}秒`;
-      
-      this.updateMigrationLog(log);
-      console.log('\n' + ConsoleColors.success(`仓库迁移完成: ${ConsoleColors.highlight(repo.name)} ${ConsoleColors.duration(`(耗时: ${log.duration})`)}`) + '\n');
-      
-      if (log.warnings && log.warnings.length > 0) {
-        console.log(ConsoleColors.warning(`⚠️ 警告信息: ${log.warnings.length} 条`));
+  /**
+   * 在镜像目录中生成包含指定引用和 HEAD 的 bundle 文件并校验，返回清单中的文件信息
+   */
+  private async createBundleFile(cloneDir: string, bundlePath: string, refs: Record<string, string>): Promise<TBundleFile> {
+    // 包含 HEAD，克隆 bundle 时才能还原默认分支
+    const revisions = [...(await this.getMirrorDefaultBranch(cloneDir) ? ['HEAD'] : []), ...Object.keys(refs)];
+    const revisionListPath = `${bundlePath}.revs`;
+    writeFileSync(revisionListPath, `${revisions.join('\n')}\n`, 'utf-8');
+    try {
+      console.log(ConsoleColors.progress(`正在生成 bundle: ${path.basename(bundlePath)}`));
+      await this.executeCommandWithProgress(`git bundle create "${bundlePath}" --stdin < "${revisionListPath}"`, cloneDir);
+      await this.executeCommand(`git bundle verify "${bundlePath}"`, cloneDir);
+    } finally {
+      rmSync(revisionListPath, { force: true });
+    }
+    
+    return {
+      file: path.basename(bundlePath),
+      size: statSync(bundlePath).size,
+      sha256: await computeFileSha256(bundlePath)
+    };
+  }
+
+  /**
+   * 从 export-bundles 生成的目录导入仓库：校验 bundle 后按正常迁移流程创建目标项目并推送
+   * 迁移日志与在线迁移格式一致，中断后重新运行同一命令即可继续
+   */
+  public async importBundles(bundleDir: string): Promise<void> {
+    if (this.requiresSourceApi()) {
+      throw new Error('离线导入无法访问源 GitLab，不能与 --with-issues、--mode export-import 等需要源 API 的选项一起使用');
+    }
+    
+    const manifest = loadBundleManifest(bundleDir);
+    if (!manifest) {
+      throw new Error(`目录中没有离线迁移清单: ${path.join(bundleDir, BUNDLE_MANIFEST_FILE)}`);
+    }
+    
+    let entries = manifest.repositories;
+    if (this.selectedProjects.length > 0) {
+      const missingNames = this.selectedProjects.filter(name => !entries.some(entry => entry.name === name));
+      if (missingNames.length > 0) {
+        console.log(ConsoleColors.warning(`离线迁移清单中没有以下项目: ${missingNames.join(', ')}`));
       }
-      
-    } catch (error: any) {
-      const endTime = new Date();
-      const errorMsg = error.message;
-      const errorType = this.classifyError(errorMsg);
-      
-      log.errorType = errorType;
-      log.retryCount = (log.retryCount || 0) + 1;
-      const readableError = this.getReadableErrorMessage(errorMsg, errorType);
-      
-      // 检查是否可以重试
-      if (this.shouldRetry(errorType, log.retryCount)) {
-        const retryDelay = this.getRetryDelay(log.retryCount - 1);
-        const maxRetries = this.getMaxRetries(errorType);
-        
-        console.log('\n' + ConsoleColors.warning(`⚠️ 迁移遇到错误，准备重试...`));
-        console.log(ConsoleColors.error(`错误: ${readableError}`));
-        console.log(ConsoleColors.dim(`错误类型: ${errorType}`));
-        console.log(ConsoleColors.info(`重试进度: ${log.retryCount}/${maxRetries}`));
-        console.log(ConsoleColors.info(`等待 ${retryDelay / 1000} 秒后重试...`));
-        
-        this.recordMigrationStep(repo.name, `准备重试 (${log.retryCount}/${maxRetries})`, 'in_progress', `等待 ${retryDelay / 1000} 秒`);
-        this.updateMigrationLog(log);
-        
-        // 清理可能的镜像目录（在临时目录中查找）
-        try {
-          if (existsSync(this.tempDir)) {
-            const files = readdirSync(this.tempDir);
-            const actualRepoName = this.extractRepoNameFromUrl(repo.originalUrl);
-            const mirrorDirs = files.filter(file => 
-              file.startsWith(actualRepoName) && file.endsWith('.git')
-            );
-            
-            mirrorDirs.forEach(dir => {
-              const dirPath = path.join(this.tempDir, dir);
-              if (existsSync(dirPath)) {
-                rmSync(dirPath, { recursive: true, force: true });
-                console.log(ConsoleColors.dim(`🗑️  已清理镜像目录: ${dir}`));
-              }
-            });
-          }
-        } catch (error) {
-          console.log(ConsoleColors.warning('⚠️  清理镜像目录时出现问题'));
-        }
-        
-        // 等待重试延迟
-        await new Promise(resolve => setTimeout(resolve, retryDelay));
-        
-        // 清理失败状态，准备重试
-        log.failureReason = '';
-        
-        // 递归重试
-        console.log(ConsoleColors.info(`🔄 开始第 ${log.retryCount} 次重试: ${ConsoleColors.highlight(repo.name)}`));
-        return await this.migrateSingleRepository(repo);
-      } else {
-        // 达到最大重试次数，记录最终失败
-        log.endTime = endTime.toISOString();
-        log.duration = `${Math.round((endTime.getTime() - migrationStartTime.getTime()) / 1000)}秒`;
-        log.failureReason = readableError;
-        
-        this.recordMigrationStep(repo.name, '迁移最终失败', 'failed', log.failureReason, errorType);
-        this.updateMigrationLog(log);
-        
-        console.log('\n' + ConsoleColors.error(`❌ 仓库迁移最终失败: ${ConsoleColors.highlight(repo.name)}`));
-        console.log(ConsoleColors.error(`失败原因: ${log.failureReason}`));
-        console.log(ConsoleColors.error(`错误类型: ${errorType}`));
-        console.log(ConsoleColors.error(`总重试次数: ${log.retryCount}`));
-        
-        // 提供恢复建议
-        const analysis = this.analyzeMigrationState(log);
-        if (analysis.recommendations.length > 0) {
-          console.log(ConsoleColors.info('💡 建议:'));
-          analysis.recommendations.forEach(rec => {
-            console.log(ConsoleColors.dim(`   - ${rec}`));
-          });
-        }
-        
-        // 清理可能的临时文件
-        const actualRepoName = this.extractRepoNameFromUrl(repo.originalUrl);
-        const cloneDir = `${actualRepoName}.git`;
-        if (existsSync(cloneDir)) {
-          rmSync(cloneDir, { recursive: true, force: true });
+      entries = entries.filter(entry => this.selectedProjects.includes(entry.name));
+    }
+    
+    // 拷贝过程中损坏或不完整的 bundle 不导入
+    console.log(ConsoleColors.progress(`正在校验 ${entries.length} 个仓库的 bundle 文件...`));
+    const corruptedFiles: string[] = [];
+    for (const entry of entries) {
+      for (const bundleFile of [entry.bundle, entry.wiki]) {
+        if (!bundleFile) continue;
+        const bundlePath = path.join(bundleDir, bundleFile.file);
+        if (!existsSync(bundlePath) || statSync(bundlePath).size !== bundleFile.size || await computeFileSha256(bundlePath) !== bundleFile.sha256) {
+          corruptedFiles.push(bundleFile.file);
         }
       }
     }
+    if (corruptedFiles.length > 0) {
+      throw new Error(`以下 bundle 文件缺失或校验和不一致，请重新拷贝: ${corruptedFiles.join(', ')}`);
+    }
+    
+    for (const entry of entries) {
+      this.bundleSources.set(entry.name, {
+        repositoryPath: path.join(bundleDir, entry.bundle.file),
+        wikiPath: entry.wiki ? path.join(bundleDir, entry.wiki.file) : undefined
+      });
+    }
+    // 只迁移清单中的仓库，其他仓库的原仓库地址在离线环境中无法访问
+    this.bundleRepositories = entries.map(entry => ({
+      name: entry.name,
+      description: entry.description,
+      originalUrl: entry.originalUrl,
+      defaultBranch: entry.defaultBranch
+    }));
+    this.selectedProjects = entries.map(entry => entry.name);
+    if (this.selectedProjects.length === 0) {
+      console.log(ConsoleColors.warning('没有找到需要导入的仓库'));
+      return;
+    }
+    
+    await this.migrate();
   }
 
   /**
-   * 执行迁移任务
+   * 生成迁移计划（只读，不克隆、不创建、不推送）
    */
-  public async migrate(): Promise<void> {
-    try {
-      console.log('\n' + ConsoleColors.box('GitLab 项目迁移工具'));
-      console.log('');
-      
-      // 解析move.md文件
-      this.parseMoveFile();
-      
-      // 验证 Access Token
-      if (!this.accessToken || this.accessToken === 'your_access_token' || this.accessToken === 'your_gitlab_access_token') {
-        console.log(ConsoleColors.warning('未找到有效的 GitLab Access Token'));
-        console.log(ConsoleColors.info('Access Token 获取优先级:'));
-        console.log(ConsoleColors.dim('   1. 命令行参数 (最高优先级)'));
-        console.log(ConsoleColors.dim('   2. move.md 文件中的 "## 迁移目标 Access Token" 部分'));
-        console.log(ConsoleColors.dim('   3. 环境变量: GITLAB_ACCESS_TOKEN'));
-        console.log(ConsoleColors.dim('   4. 交互式输入 (当前)'));
-        console.log('');
-        
-        // 交互式输入 Access Token
-        this.accessToken = await promptForAccessToken();
-        
-        if (!this.accessToken || this.accessToken.trim() === '') {
-          console.error(ConsoleColors.error('Access Token 不能为空'));
-          throw new Error('Access Token 不能为空');
+  public async plan(): Promise<TMigrationPlan> {
+    console.log('\n' + ConsoleColors.box('GitLab 项目迁移计划'));
+    console.log('');
+    
+    this.parseMoveFile();
+    await this.ensureAccessToken();
+    
+    const preChecks = await this.performPreChecks();
+    const repositories = this.getRepositoriesToMigrate();
+    
+    console.log('\n' + ConsoleColors.progress(`正在生成 ${ConsoleColors.highlight(repositories.length.toString())} 个仓库的迁移计划`));
+    
+    const repositoryPlans: TRepositoryPlan[] = [];
+    for (const repo of repositories) {
+      repositoryPlans.push(await this.planSingleRepository(repo));
+    }
+    
+    return {
+      generatedAt: new Date().toISOString(),
+      moveFile: this.moveFilePath,
+      targetGroup: this.targetGroupUrl,
+      preChecks,
+      repositories: repositoryPlans
+    };
+  }
+
+  /**
+   * 生成单个仓库的迁移计划
+   */
+  private async planSingleRepository(repo: TRepository): Promise<TRepositoryPlan> {
+    const log = this.logs.get(repo.name);
+    const plan: TRepositoryPlan = {
+      projectName: repo.name,
+      originalUrl: repo.originalUrl,
+      targetUrl: log?.targetRepoUrl || `${new URL(this.targetGroupUrl).origin}/${this.getTargetProjectPath(repo.name)}.git`,
+      action: 'create',
+      resumeStep: log ? this.analyzeMigrationState(log).nextStep : '开始迁移',
+      branchCount: 0,
+      tagCount: 0,
+      refs: [],
+      estimatedSize: null,
+      errors: []
+    };
+    
+    // 目标仓库处理方式
+    if (log && this.isMigrationCompleted(log)) {
+      plan.action = 'completed';
+    } else if (log && log.isTargetCreated) {
+      plan.action = 'resume';
+    } else {
+      try {
+        const repositoryInfo = await this.checkRepositoryExists(repo.name, false);
+        if (repositoryInfo.exists) {
+          plan.action = repositoryInfo.isEmpty ? 'reuse_empty' : 'conflict';
+          plan.targetUrl = repositoryInfo.targetUrl || plan.targetUrl;
         }
-      }
-      
-      // 显示断点续传状态报告
-      this.showResumeReport();
-      
-      // 执行预检查
-      const preCheckResult = await this.performPreChecks();
-      if (!preCheckResult.success) {
-        console.error('\n' + ConsoleColors.error('❌ 预检查失败，无法开始迁移:'));
-        preCheckResult.errors.forEach(error => console.error(ConsoleColors.error(`  - ${error}`)));
-        
-        // 预检查失败时进行清理
-        console.log(ConsoleColors.warning('\n🧹 预检查失败，正在清理可能的临时文件...'));
-        cleanupOnExit(this);
-        
-        // 给清理函数一些时间来完成输出
-        await new Promise(resolve => setTimeout(resolve, 100));
         
-        throw new Error('预检查失败，请解决上述问题后重试');
-      }
-      
-      // 过滤指定的项目
-      let repositoriesToMigrate = this.repositories;
-      if (this.selectedProjects.length > 0) {
-        repositoriesToMigrate = this.repositories.filter(repo => 
-          this.selectedProjects.includes(repo.name)
-        );
-        
-        console.log(ConsoleColors.info(`指定迁移项目: ${ConsoleColors.highlight(this.selectedProjects.join(', '))}`));
-        console.log(ConsoleColors.success(`找到匹配项目: ${ConsoleColors.highlight(repositoriesToMigrate.map(r => r.name).join(', '))}`));
-        
-        const notFound = this.selectedProjects.filter(name => 
-          !this.repositories.some(repo => repo.name === name)
-        );
-        if (notFound.length > 0) {
-          console.log(ConsoleColors.warning(`未找到的项目: ${notFound.join(', ')}`));
+        // 设置了冲突策略时按策略预估处理方式，实际迁移时重新检查
+        const conflictPolicy = repo.onConflict || this.onConflict;
+        if (plan.action === 'conflict' && conflictPolicy === 'skip') {
+          plan.action = 'skip';
+        } else if (plan.action === 'conflict' && conflictPolicy === 'push-into' && this.migrationMode === 'push') {
+          plan.action = 'push_into';
+        } else if (plan.action === 'conflict' && (conflictPolicy === 'suffix' || conflictPolicy === 'rename-pattern')) {
+          const renamedPath = conflictPolicy === 'suffix'
+            ? await this.findSuffixedTargetPath(repo)
+            : this.applyRenamePattern(repo.renamePattern || this.renamePattern!, this.getTargetProjectSlug(repo.name));
+          plan.action = 'rename';
+          plan.targetUrl = `${new URL(this.targetGroupUrl).origin}/${this.getTargetNamespacePath(repo.name)}/${renamedPath}.git`;
         }
+      } catch (error: any) {
+        plan.action = 'error';
+        plan.errors.push(`检查目标仓库失败: ${error.message}`);
       }
-      
-      if (repositoriesToMigrate.length === 0) {
-        console.log(ConsoleColors.warning('没有找到需要迁移的仓库'));
-        return;
-      }
-      
-      console.log('\n' + ConsoleColors.progress(`开始迁移 ${ConsoleColors.highlight(repositoriesToMigrate.length.toString())} 个仓库`));
-      console.log(ConsoleColors.separator(60));
-      
-      // 逐个迁移仓库
-      for (const repo of repositoriesToMigrate) {
-        await this.migrateSingleRepository(repo);
+    }
+    
+    // 读取源仓库引用
+    try {
+      plan.refs = Array.from((await this.listRemoteRefs(repo.originalUrl)).keys());
+      plan.branchCount = plan.refs.filter(ref => ref.startsWith('refs/heads/')).length;
+      plan.tagCount = plan.refs.filter(ref => ref.startsWith('refs/tags/')).length;
+    } catch (error: any) {
+      plan.errors.push(`读取源仓库引用失败: ${error.message}`);
+    }
+    
+    // 通过源 GitLab API 预估仓库大小
+    try {
+      const sourceProject = await this.getSourceProject(repo, true);
+      if (sourceProject.statistics) {
+        plan.estimatedSize = sourceProject.statistics.repository_size ?? null;
       }
-      
-      console.log('\n' + ConsoleColors.separator(60));
-      console.log(ConsoleColors.success('🎉 所有迁移任务完成'));
-      
     } catch (error: any) {
-      console.error(ConsoleColors.error(`迁移过程中发生错误: ${error.message}`));
-      process.exit(1);
+      if (!this.quietMode) {
+        console.log(ConsoleColors.dim(`无法获取仓库大小: ${error.message}`));
+      }
+    }
+    
+    return plan;
+  }
+
+  /**
+   * 格式化迁移计划为可读文本
+   */
+  public formatMigrationPlan(plan: TMigrationPlan): string {
+    const actionLabels: Record<TPlanAction, string> = {
+      create: ConsoleColors.success('创建新仓库'),
+      reuse_empty: ConsoleColors.warning('复用已存在的空仓库'),
+      conflict: ConsoleColors.error('冲突：目标分组中已存在同名非空仓库'),
+      skip: ConsoleColors.warning('目标分组中已存在同名非空仓库，按冲突策略跳过'),
+      rename: ConsoleColors.warning('目标分组中已存在同名非空仓库，按冲突策略重命名后创建'),
+      push_into: ConsoleColors.warning('目标分组中已存在同名非空仓库，检查提交历史后推送到该仓库'),
+      resume: ConsoleColors.info('继续上次未完成的迁移'),
+      completed: ConsoleColors.success('已完成，将跳过'),
+      error: ConsoleColors.error('无法确定')
+    };
+    
+    let output = '\n' + ConsoleColors.box('GitLab 项目迁移计划') + '\n';
+    output += ConsoleColors.info(`目标分组: ${plan.targetGroup}`) + '\n';
+    output += (plan.preChecks.success
+      ? ConsoleColors.success('预检查: 通过')
+      : ConsoleColors.error(`预检查: 未通过 (${plan.preChecks.errors.join('; ')})`)) + '\n';
+    
+    for (const repoPlan of plan.repositories) {
+      output += '\n' + ConsoleColors.repo(repoPlan.projectName) + '\n';
+      output += `   操作: ${actionLabels[repoPlan.action]}\n`;
+      output += `   下一步: ${ConsoleColors.info(repoPlan.resumeStep)}\n`;
+      output += `   引用: ${repoPlan.branchCount} 个分支, ${repoPlan.tagCount} 个标签\n`;
+      output += `   预估大小: ${repoPlan.estimatedSize !== null ? this.formatBytes(repoPlan.estimatedSize) : '未知'}\n`;
+      output += `   目标地址: ${ConsoleColors.url(repoPlan.targetUrl)}\n`;
+      repoPlan.errors.forEach(error => {
+        output += ConsoleColors.error(`   ${error}`) + '\n';
+      });
     }
+    
+    const conflicts = plan.repositories.filter(repoPlan => repoPlan.action === 'conflict' || repoPlan.action === 'error').length;
+    output += '\n' + ConsoleColors.separator(60) + '\n';
+    output += ConsoleColors.info(`共 ${plan.repositories.length} 个仓库，其中 ${conflicts} 个需要处理冲突或错误`) + '\n';
+    
+    return output;
   }
 
   /**
@@ -2747,9 +7495,7 @@ class GitLabMigrator {
    */
   public generateMigrationReport(): string {
     // 获取当前迁移的项目列表
-    const repositoriesToMigrate = this.selectedProjects.length > 0 
-      ? this.repositories.filter(repo => this.selectedProjects.includes(repo.name))
-      : this.repositories;
+    const repositoriesToMigrate = this.getRepositoriesToMigrate();
     
     // 只统计当前迁移的项目
     const migratedProjectNames = repositoriesToMigrate.map(repo => repo.name);
@@ -2757,7 +7503,8 @@ class GitLabMigrator {
     
     const totalRepos = migratedLogs.length;
     const successfulRepos = migratedLogs.filter(log => log.isFinalCloned && !log.failureReason).length;
-    const failedRepos = totalRepos - successfulRepos;
+    const skippedRepos = migratedLogs.filter(log => log.skippedReason).length;
+    const failedRepos = totalRepos - successfulRepos - skippedRepos;
     const reposWithWarnings = migratedLogs.filter(log => log.warnings && log.warnings.length > 0).length;
     
     let report = '\n' + ConsoleColors.box('GitLab 项目迁移报告') + '\n';
@@ -2775,11 +7522,17 @@ class GitLabMigrator {
       report += ConsoleColors.success(`失败: ${ConsoleColors.highlight('0')} 个仓库`) + '\n';
     }
     
+    if (skippedRepos > 0) {
+      report += ConsoleColors.warning(`跳过: ${ConsoleColors.highlight(skippedRepos.toString())} 个仓库`) + '\n';
+    }
+    
     if (reposWithWarnings > 0) {
       report += ConsoleColors.warning(`警告: ${ConsoleColors.highlight(reposWithWarnings.toString())} 个仓库`) + '\n';
     }
     
-    const successRate = totalRepos > 0 ? Math.round((successfulRepos / totalRepos) * 100) : 0;
+    // 按冲突策略跳过的仓库不计入成功率
+    const attemptedRepos = totalRepos - skippedRepos;
+    const successRate = attemptedRepos > 0 ? Math.round((successfulRepos / attemptedRepos) * 100) : (skippedRepos > 0 ? 100 : 0);
     const successRateColor = successRate === 100 ? ConsoleColors.success : successRate >= 80 ? ConsoleColors.warning : ConsoleColors.error;
     report += successRateColor(`成功率: ${ConsoleColors.highlight(successRate + '%')}`) + '\n';
     
@@ -2796,6 +7549,24 @@ class GitLabMigrator {
         });
     }
     
+    // 显示在目标 GitLab 中找不到对应用户的成员，可通过 --user-map 补充映射后重新迁移
+    const logsWithUnmatchedMembers = migratedLogs.filter(log => log.unmatchedMembers && log.unmatchedMembers.length > 0);
+    if (logsWithUnmatchedMembers.length > 0) {
+      report += '\n' + ConsoleColors.warning('未匹配的成员:') + '\n';
+      logsWithUnmatchedMembers.forEach(log => {
+        report += ConsoleColors.warning(`  • ${ConsoleColors.highlight(log.projectName)}: ${log.unmatchedMembers!.join(', ')}`) + '\n';
+      });
+    }
+    
+    if (skippedRepos > 0) {
+      report += '\n' + ConsoleColors.warning('跳过的仓库:') + '\n';
+      migratedLogs
+        .filter(log => log.skippedReason)
+        .forEach(log => {
+          report += ConsoleColors.warning(`  • ${ConsoleColors.highlight(log.projectName)}: ${log.skippedReason}`) + '\n';
+        });
+    }
+    
     if (failedRepos > 0) {
       report += '\n' + ConsoleColors.error('失败的仓库:') + '\n';
       migratedLogs
@@ -2960,6 +7731,37 @@ function registerExitHandlers(migrator?: GitLabMigrator): void {
   });
 }
 
+/**
+ * 生成 move.md 配置文件模板
+ */
+function buildMoveFileTemplate(
+  tableRows: string[],
+  options: { targetGroup?: string; accessToken?: string; sourceAccessToken?: string; withTargetSettings?: boolean } = {}
+): string {
+  const sourceTokenSection = options.sourceAccessToken ? `## 迁移源 Access Token\n\n${options.sourceAccessToken}\n\n` : '';
+  const tableHeader = options.withTargetSettings
+    ? '| 项目名称 | 项目描述 | 原仓库地址 | 目标设置 |\n|---------|---------|----------|---------|'
+    : '| 项目名称 | 项目描述 | 原仓库地址 |\n|---------|---------|----------|';
+  return `# Gitlab 项目迁移到新的分组
+
+## 迁移目标 Access Token
+
+${options.accessToken || 'your_gitlab_access_token'}
+
+${sourceTokenSection}## 迁移目标分组
+
+${options.targetGroup || 'https://gitlab.example.com/target-group/'}
+
+## 需要迁移仓库
+
+${tableHeader}
+${tableRows.map(row => `${row}\n`).join('')}
+## 日志
+
+<!-- 迁移日志将自动生成在这里 -->
+`;
+}
+
 /**
  * 初始化 move.md 配置文件
  */
@@ -2980,27 +7782,10 @@ function initMoveFile(targetDir: string = process.cwd()): void {
   }
   
   // 生成默认配置内容
-  const defaultConfig = `# Gitlab 项目迁移到新的分组
-
-## 迁移目标 Access Token
-
-your_gitlab_access_token
-
-## 迁移目标分组
-
-https://gitlab.example.com/target-group/
-
-## 需要迁移仓库
-
-| 项目名称 | 项目描述 | 原仓库地址 |
-|---------|---------|----------|
-| project1 | 项目1描述 | ssh://git@gitlab.example.com:10022/old-group/project1.git |
-| project2 | 项目2描述 | ssh://git@gitlab.example.com:10022/old-group/project2.git |
-
-## 日志
-
-<!-- 迁移日志将自动生成在这里 -->
-`;
+  const defaultConfig = buildMoveFileTemplate([
+    '| project1 | 项目1描述 | ssh://git@gitlab.example.com:10022/old-group/project1.git |',
+    '| project2 | 项目2描述 | ssh://git@gitlab.example.com:10022/old-group/project2.git |'
+  ]);
   
   try {
     writeFileSync(moveFilePath, defaultConfig, 'utf8');
@@ -3124,7 +7909,15 @@ function showHelp(): void {
   console.log('');
   console.log(ConsoleColors.info('命令:'));
   console.log(ConsoleColors.dim('  init [目录]           初始化配置文件到指定目录 (默认: 当前目录)'));
+  console.log(ConsoleColors.dim('  discover <源分组URL> [配置文件]  从源分组读取项目并追加到配置文件的仓库表格'));
   console.log(ConsoleColors.dim('  migrate [配置文件]    执行迁移任务 (默认: ./move.md)'));
+  console.log(ConsoleColors.dim('  plan [配置文件]       生成迁移计划，不克隆、不创建、不推送任何内容'));
+  console.log(ConsoleColors.dim('  sync [配置文件]       将已完成迁移项目的新提交和标签增量同步到目标仓库'));
+  console.log(ConsoleColors.dim('  status [配置文件]     查看各项目的迁移状态和镜像同步状态'));
+  console.log(ConsoleColors.dim('  rollback [项目列表]   删除本工具创建的目标项目和本地克隆，并清除迁移日志'));
+  console.log(ConsoleColors.dim('  export-bundles [配置文件] [目录]  将仓库导出为 git bundle 和清单，用于离线迁移 (默认目录: ./bundles)'));
+  console.log(ConsoleColors.dim('  import-bundles <目录> [配置文件]  从 export-bundles 生成的目录创建目标项目并推送'));
+  console.log(ConsoleColors.dim('  convert <输入> <输出> 在 Markdown / YAML / JSON 配置格式之间转换 (按扩展名识别)'));
   console.log('');
   console.log(ConsoleColors.info('选项:'));
   console.log(ConsoleColors.dim('  -h, --help           显示帮助信息'));
@@ -3133,9 +7926,41 @@ function showHelp(): void {
   console.log(ConsoleColors.dim('  -t, --token          指定 GitLab Access Token'));
   console.log(ConsoleColors.dim('  -s, --skip-clone     禁用克隆迁移后的仓库到本地'));
   console.log(ConsoleColors.dim('  -q, --quiet          简化控制台输出，隐藏命令执行详情'));
+  console.log(ConsoleColors.dim('  -c, --concurrency    同时迁移的仓库数量 (默认: 1)'));
+  console.log(ConsoleColors.dim('  --source-token       指定源 GitLab Access Token (默认与目标 Token 相同实例时共用)'));
+  console.log(ConsoleColors.dim('  --dry-run            等同于 plan 命令，只生成迁移计划'));
+  console.log(ConsoleColors.dim('  --json               将迁移计划以 JSON 格式写入指定文件 (配合 plan 使用)'));
+  console.log(ConsoleColors.dim('  --with-issues        同时迁移议题及其评论、标签、指派人和里程碑 (需要源 API 权限)'));
+  console.log(ConsoleColors.dim('  --with-merge-requests 同时迁移合并请求及其讨论 (需要源 API 权限)'));
+  console.log(ConsoleColors.dim('  --with-protections   复制源项目的保护分支和保护标签 (需要源 API 权限)'));
+  console.log(ConsoleColors.dim('  --with-labels        同时迁移项目标签 (需要源 API 权限)'));
+  console.log(ConsoleColors.dim('  --with-milestones    同时迁移项目里程碑 (需要源 API 权限)'));
+  console.log(ConsoleColors.dim('  --with-releases      同时迁移发布及其发布说明和资源链接 (需要源 API 权限)'));
+  console.log(ConsoleColors.dim('  --with-variables     同时复制 CI/CD 变量 (需要源项目 Maintainer 权限)'));
+  console.log(ConsoleColors.dim('  --skip-variables-matching 不复制的变量名模式 (逗号分隔，支持 * 和 ? 通配符)'));
+  console.log(ConsoleColors.dim('  --with-members       同时迁移项目成员及其访问级别和过期时间 (需要源 API 权限)'));
+  console.log(ConsoleColors.dim('  --with-group-members 迁移成员时包含从源分组继承的成员'));
+  console.log(ConsoleColors.dim('  --user-map           源用户名到目标用户名的映射文件 (YAML / JSON)'));
+  console.log(ConsoleColors.dim('  --with-settings      同步合并方式、功能开关、主题、头像等项目设置 (需要源 API 权限)'));
+  console.log(ConsoleColors.dim('  --settings-attributes 需要同步的项目属性 (逗号分隔，默认见 README)'));
+  console.log(ConsoleColors.dim('  --mode               迁移方式: push (默认，克隆后推送) 或 export-import (GitLab 项目导出/导入，不能与 --with-issues 等内容选项同时使用)'));
+  console.log(ConsoleColors.dim('  --on-conflict        目标已存在非空项目时的处理策略: fail、skip、suffix、rename-pattern、push-into'));
+  console.log(ConsoleColors.dim('  --rename-pattern     rename-pattern 策略的命名模式，支持 {name} 和 {date} (如 "{name}-legacy")'));
+  console.log(ConsoleColors.dim('  --push-refs          推送的引用模式 (逗号分隔，默认: refs/heads/*,refs/tags/*)'));
+  console.log(ConsoleColors.dim('  --force              同步时强制覆盖目标仓库中源仓库没有的提交 (配合 sync 使用)'));
+  console.log(ConsoleColors.dim('  --pull-mirror        将目标项目配置为源仓库的拉取镜像，持续同步 (需要源 Token)'));
+  console.log(ConsoleColors.dim('  --push-mirror        在源项目上配置指向目标仓库的推送镜像 (需要源项目 Maintainer 权限)'));
+  console.log(ConsoleColors.dim('  --preserve-subgroups 在目标分组下重建源项目所在的子分组层级 (需要源 API 权限)'));
+  console.log(ConsoleColors.dim('  --source-group       源分组路径或URL，重建子分组时去掉该前缀 (默认: 源项目路径的第一段)'));
+  console.log(ConsoleColors.dim('  --include-subgroups  发现项目时包含子分组 (配合 discover 使用)'));
+  console.log(ConsoleColors.dim('  --include-archived   发现项目时包含已归档项目 (配合 discover 使用)'));
+  console.log(ConsoleColors.dim('  --include-forks      发现项目时包含派生项目 (配合 discover 使用)'));
+  console.log(ConsoleColors.dim('  --ssh                发现项目时使用 SSH 仓库地址 (默认: HTTPS)'));
+  console.log(ConsoleColors.dim('  --archive            回滚时归档目标项目而不是删除 (配合 rollback 使用)'));
+  console.log(ConsoleColors.dim('  -y, --yes            回滚时跳过确认提示'));
   console.log('');
   console.log(ConsoleColors.info('参数说明:'));
-  console.log(ConsoleColors.dim('  配置文件路径         move.md 配置文件的路径 (默认: ./move.md)'));
+  console.log(ConsoleColors.dim('  配置文件路径         move.md / move.yaml / move.json 配置文件的路径 (默认: 当前目录下首个存在的)'));
   console.log(ConsoleColors.dim('  项目列表            逗号分隔的项目名称列表'));
   console.log(ConsoleColors.dim('  Access Token        GitLab Access Token'));
   console.log(ConsoleColors.dim('  目标目录            初始化配置文件的目录'));
@@ -3145,6 +7970,13 @@ function showHelp(): void {
   console.log(ConsoleColors.highlight('  mgitlab init'));
   console.log(ConsoleColors.highlight('  mgitlab init /path/to/project'));
   console.log('');
+  console.log(ConsoleColors.dim('  # 使用 YAML 配置文件'));
+  console.log(ConsoleColors.highlight('  mgitlab convert ./move.md ./move.yaml'));
+  console.log(ConsoleColors.highlight('  mgitlab ./move.yaml'));
+  console.log('');
+  console.log(ConsoleColors.dim('  # 从源分组生成仓库表格'));
+  console.log(ConsoleColors.highlight('  mgitlab discover https://gitlab.example.com/old-group --include-subgroups'));
+  console.log('');
   console.log(ConsoleColors.dim('  # 显示版本和帮助'));
   console.log(ConsoleColors.highlight('  mgitlab --version'));
   console.log(ConsoleColors.highlight('  mgitlab --help'));
@@ -3165,11 +7997,48 @@ function showHelp(): void {
   console.log(ConsoleColors.highlight('  mgitlab --skip-clone'));
   console.log(ConsoleColors.highlight('  mgitlab --projects "project1,project2" --skip-clone'));
   console.log('');
+  console.log(ConsoleColors.dim('  # 查看迁移计划并导出 JSON'));
+  console.log(ConsoleColors.highlight('  mgitlab plan'));
+  console.log(ConsoleColors.highlight('  mgitlab --dry-run --json plan.json'));
+  console.log('');
+  console.log(ConsoleColors.dim('  # 同时迁移 4 个仓库'));
+  console.log(ConsoleColors.highlight('  mgitlab --concurrency 4'));
+  console.log('');
+  console.log(ConsoleColors.dim('  # 同时迁移议题'));
+  console.log(ConsoleColors.highlight('  mgitlab --with-issues --source-token your_source_token'));
+  console.log(ConsoleColors.highlight('  mgitlab --with-issues --with-merge-requests'));
+  console.log(ConsoleColors.highlight('  mgitlab --with-labels --with-milestones --with-issues'));
+  console.log('');
+  console.log(ConsoleColors.dim('  # 同时迁移项目成员，用户名不同的用户通过映射文件对应'));
+  console.log(ConsoleColors.highlight('  mgitlab --with-members --user-map ./users.yaml'));
+  console.log('');
+  console.log(ConsoleColors.dim('  # 切换期间增量同步源仓库的新提交'));
+  console.log(ConsoleColors.highlight('  mgitlab sync'));
+  console.log(ConsoleColors.highlight('  mgitlab sync --force'));
+  console.log('');
+  console.log(ConsoleColors.dim('  # 迁移后由 GitLab 持续同步，并查看镜像状态'));
+  console.log(ConsoleColors.highlight('  mgitlab --pull-mirror'));
+  console.log(ConsoleColors.highlight('  mgitlab status'));
+  console.log('');
+  console.log(ConsoleColors.dim('  # 回滚指定项目的迁移'));
+  console.log(ConsoleColors.highlight('  mgitlab rollback "project1,project2"'));
+  console.log(ConsoleColors.highlight('  mgitlab rollback --archive'));
+  console.log('');
+  console.log(ConsoleColors.dim('  # 目标网络无法访问源 GitLab 时通过 bundle 离线迁移'));
+  console.log(ConsoleColors.highlight('  mgitlab export-bundles ./bundles'));
+  console.log(ConsoleColors.highlight('  mgitlab import-bundles ./bundles'));
+  console.log('');
+  console.log(ConsoleColors.dim('  # 复制 CI/CD 变量，需要轮换的密钥不复制'));
+  console.log(ConsoleColors.highlight('  mgitlab --with-variables --skip-variables-matching "*_TOKEN,AWS_*"'));
+  console.log('');
+  console.log(ConsoleColors.dim('  # 同时推送 Git notes'));
+  console.log(ConsoleColors.highlight('  mgitlab --push-refs "refs/heads/*,refs/tags/*,refs/notes/*"'));
+  console.log('');
   console.log(ConsoleColors.info('功能特性:'));
   console.log(ConsoleColors.dim('  ✅ 批量迁移多个 GitLab 仓库'));
   console.log(ConsoleColors.dim('  ✅ 断点续传，支持从中断点继续'));
   console.log(ConsoleColors.dim('  ✅ 智能重试机制，自动处理临时错误'));
-  console.log(ConsoleColors.dim('  ✅ 完整的镜像克隆，保留所有分支和标签'));
+  console.log(ConsoleColors.dim('  ✅ 完整的镜像克隆，保留所有分支、标签和 Wiki'));
   console.log(ConsoleColors.dim('  ✅ 自动创建目标仓库和更新描述'));
   console.log(ConsoleColors.dim('  ✅ 详细的迁移日志和进度报告'));
   console.log(ConsoleColors.dim('  ✅ 配置文件自动备份和垃圾清理'));
@@ -3197,6 +8066,41 @@ function parseCommandLineArgs(args: string[]): {
   showVersion?: boolean;
   skipFinalClone?: boolean;
   quietMode?: boolean;
+  concurrency?: number;
+  sourceAccessToken?: string;
+  dryRun?: boolean;
+  jsonOutput?: string;
+  withIssues?: boolean;
+  withMergeRequests?: boolean;
+  pushRefs?: string[];
+  force?: boolean;
+  pullMirror?: boolean;
+  pushMirror?: boolean;
+  preserveSubgroups?: boolean;
+  sourceGroup?: string;
+  sourceGroupUrl?: string;
+  convertOutput?: string;
+  includeSubgroups?: boolean;
+  includeArchived?: boolean;
+  includeForks?: boolean;
+  useSshUrl?: boolean;
+  archive?: boolean;
+  yes?: boolean;
+  withProtections?: boolean;
+  withLabels?: boolean;
+  withMilestones?: boolean;
+  withReleases?: boolean;
+  withVariables?: boolean;
+  skipVariablePatterns?: string[];
+  withMembers?: boolean;
+  withGroupMembers?: boolean;
+  userMapFile?: string;
+  withSettings?: boolean;
+  settingsAttributes?: string[];
+  mode?: TMigrationMode;
+  onConflict?: TConflictPolicy;
+  renamePattern?: string;
+  bundleDir?: string;
 } {
   const result: any = {};
   let i = 0;
@@ -3231,14 +8135,183 @@ function parseCommandLineArgs(args: string[]): {
       case '-q':
         result.quietMode = true;
         break;
+      case '--concurrency':
+      case '-c':
+        result.concurrency = parseInt(args[++i], 10);
+        if (!Number.isInteger(result.concurrency) || result.concurrency < 1) {
+          throw new Error(`无效的并发数: ${args[i]}，必须为正整数`);
+        }
+        break;
+      case '--source-token':
+        result.sourceAccessToken = args[++i];
+        break;
+      case '--dry-run':
+        result.dryRun = true;
+        break;
+      case '--json':
+        result.jsonOutput = args[++i];
+        break;
+      case '--with-issues':
+        result.withIssues = true;
+        break;
+      case '--with-merge-requests':
+        result.withMergeRequests = true;
+        break;
+      case '--with-protections':
+        result.withProtections = true;
+        break;
+      case '--with-labels':
+        result.withLabels = true;
+        break;
+      case '--with-milestones':
+        result.withMilestones = true;
+        break;
+      case '--with-releases':
+        result.withReleases = true;
+        break;
+      case '--with-variables':
+        result.withVariables = true;
+        break;
+      case '--skip-variables-matching':
+        result.skipVariablePatterns = (args[++i] || '').split(',').map((pattern: string) => pattern.trim()).filter((pattern: string) => pattern.length > 0);
+        if (result.skipVariablePatterns.length === 0) {
+          throw new Error('请指定要跳过的变量名模式，例如: --skip-variables-matching "*_TOKEN,AWS_*"');
+        }
+        break;
+      case '--with-members':
+        result.withMembers = true;
+        break;
+      case '--with-group-members':
+        result.withGroupMembers = true;
+        break;
+      case '--user-map':
+        result.userMapFile = args[++i];
+        break;
+      case '--with-settings':
+        result.withSettings = true;
+        break;
+      case '--mode':
+        result.mode = args[++i];
+        if (result.mode !== 'push' && result.mode !== 'export-import') {
+          throw new Error(`无效的迁移方式: ${result.mode}，可选值: push、export-import`);
+        }
+        break;
+      case '--on-conflict':
+        result.onConflict = args[++i];
+        if (!CONFLICT_POLICIES.includes(result.onConflict)) {
+          throw new Error(`无效的冲突策略: ${result.onConflict}，可选值: ${CONFLICT_POLICIES.join('、')}`);
+        }
+        break;
+      case '--rename-pattern':
+        result.renamePattern = args[++i] || '';
+        // 全局命名模式用于多个仓库，必须包含仓库名称
+        if (!result.renamePattern.includes('{name}')) {
+          throw new Error('命名模式必须包含 {name} 占位符，例如: --rename-pattern "{name}-legacy"');
+        }
+        break;
+      case '--settings-attributes':
+        result.settingsAttributes = (args[++i] || '').split(',').map((attribute: string) => attribute.trim()).filter((attribute: string) => attribute.length > 0);
+        if (result.settingsAttributes.length === 0) {
+          throw new Error('请指定需要同步的项目属性，例如: --settings-attributes "merge_method,squash_option,topics"');
+        }
+        break;
+      case '--force':
+        result.force = true;
+        break;
+      case '--pull-mirror':
+        result.pullMirror = true;
+        break;
+      case '--push-mirror':
+        result.pushMirror = true;
+        break;
+      case '--preserve-subgroups':
+        result.preserveSubgroups = true;
+        break;
+      case '--source-group':
+        result.sourceGroup = args[++i];
+        if (!result.sourceGroup) {
+          throw new Error('请指定源分组路径或URL，例如: --source-group "a/b"');
+        }
+        break;
+      case '--include-subgroups':
+        result.includeSubgroups = true;
+        break;
+      case '--include-archived':
+        result.includeArchived = true;
+        break;
+      case '--include-forks':
+        result.includeForks = true;
+        break;
+      case '--ssh':
+        result.useSshUrl = true;
+        break;
+      case '--archive':
+        result.archive = true;
+        break;
+      case '--yes':
+      case '-y':
+        result.yes = true;
+        break;
+      case '--push-refs':
+        result.pushRefs = (args[++i] || '').split(',').map((ref: string) => ref.trim()).filter((ref: string) => ref.length > 0);
+        if (result.pushRefs.length === 0 || result.pushRefs.some((ref: string) => !ref.startsWith('refs/'))) {
+          throw new Error(`无效的推送引用: ${args[i]}，必须为以 refs/ 开头的引用模式，如 refs/heads/*`);
+        }
+        break;
       case 'init':
         result.command = 'init';
         if (i + 1 < args.length && !args[i + 1].startsWith('-')) {
           result.targetDir = args[++i];
         }
         break;
+      case 'convert':
+        result.command = 'convert';
+        if (i + 1 < args.length && !args[i + 1].startsWith('-')) {
+          result.moveFilePath = args[++i];
+        }
+        if (i + 1 < args.length && !args[i + 1].startsWith('-')) {
+          result.convertOutput = args[++i];
+        }
+        break;
+      case 'discover':
+        result.command = 'discover';
+        if (i + 1 < args.length && !args[i + 1].startsWith('-')) {
+          result.sourceGroupUrl = args[++i];
+        }
+        if (i + 1 < args.length && !args[i + 1].startsWith('-')) {
+          result.moveFilePath = args[++i];
+        }
+        break;
+      case 'export-bundles':
+        result.command = 'export-bundles';
+        if (i + 1 < args.length && /\.(md|ya?ml|json)$/i.test(args[i + 1])) {
+          result.moveFilePath = args[++i];
+        }
+        if (i + 1 < args.length && !args[i + 1].startsWith('-')) {
+          result.bundleDir = args[++i];
+        }
+        break;
+      case 'import-bundles':
+        result.command = 'import-bundles';
+        if (i + 1 < args.length && !args[i + 1].startsWith('-')) {
+          result.bundleDir = args[++i];
+        }
+        if (i + 1 < args.length && /\.(md|ya?ml|json)$/i.test(args[i + 1])) {
+          result.moveFilePath = args[++i];
+        }
+        break;
+      case 'rollback':
+        // rollback 后可以跟配置文件，也可以直接跟项目列表
+        result.command = 'rollback';
+        if (i + 1 < args.length && /\.(md|ya?ml|json)$/i.test(args[i + 1])) {
+          result.moveFilePath = args[++i];
+        }
+        break;
       case 'migrate':
-        result.command = 'migrate';
+      case 'plan':
+      case 'sync':
+      case 'status':
+        result.command = arg;
         if (i + 1 < args.length && !args[i + 1].startsWith('-')) {
           result.moveFilePath = args[++i];
         }
@@ -3250,7 +8323,7 @@ function parseCommandLineArgs(args: string[]): {
             // 如果没有明确的命令，根据参数内容推断
             if (arg === 'init') {
               result.command = 'init';
-            } else if (arg.endsWith('.md') || arg.includes('/') || arg.includes('\\')) {
+            } else if (/\.(md|ya?ml|json)$/i.test(arg) || arg.includes('/') || arg.includes('\\')) {
               result.moveFilePath = arg;
               result.command = 'migrate';
             } else {
@@ -3264,7 +8337,7 @@ function parseCommandLineArgs(args: string[]): {
             }
           } else if (result.command === 'init' && !result.targetDir) {
             result.targetDir = arg;
-          } else if (result.command === 'migrate' && !result.moveFilePath) {
+          } else if ((result.command === 'migrate' || result.command === 'plan') && !result.moveFilePath) {
             result.moveFilePath = arg;
           } else if (!result.projectList) {
             result.projectList = arg;
@@ -3281,12 +8354,29 @@ function parseCommandLineArgs(args: string[]): {
   if (!result.command && !result.showHelp && !result.showVersion) {
     result.command = 'migrate';
   }
-  if (result.command === 'migrate' && !result.moveFilePath) {
-    result.moveFilePath = path.resolve(process.cwd(), 'move.md');
+  // --dry-run 等同于 plan 命令
+  if (result.dryRun && result.command === 'migrate') {
+    result.command = 'plan';
+  }
+  if ((result.command === 'migrate' || result.command === 'plan' || result.command === 'discover') && !result.moveFilePath) {
+    result.moveFilePath = resolveDefaultConfigPath();
   }
   if (result.command === 'init' && !result.targetDir) {
     result.targetDir = process.cwd();
   }
+  // 导出文件已包含议题、合并请求等内容，再逐项迁移会在目标项目中产生重复记录
+  if (result.mode === 'export-import') {
+    const contentFlags = [
+      ['--with-issues', result.withIssues],
+      ['--with-merge-requests', result.withMergeRequests],
+      ['--with-labels', result.withLabels],
+      ['--with-milestones', result.withMilestones],
+      ['--with-releases', result.withReleases]
+    ].filter(([, enabled]) => enabled).map(([flag]) => flag);
+    if (contentFlags.length > 0) {
+      throw new Error(`export-import 方式的导出文件已包含议题、合并请求、标签、里程碑和发布，不能与 ${contentFlags.join('、')} 一起使用`);
+    }
+  }
 
   return result;
 }
@@ -3328,8 +8418,38 @@ async function main() {
       return;
     }
     
-    // 处理 migrate 命令
-    if (parsed.command === 'migrate') {
+    // 处理 convert 命令
+    if (parsed.command === 'convert') {
+      if (!parsed.moveFilePath || !parsed.convertOutput) {
+        throw new Error('请指定输入和输出配置文件，例如: mgitlab convert ./move.md ./move.yaml');
+      }
+      new GitLabMigrator(path.resolve(parsed.moveFilePath), [], undefined, false, parsed.quietMode).convert(path.resolve(parsed.convertOutput));
+      return;
+    }
+    
+    // 处理 discover 命令
+    if (parsed.command === 'discover') {
+      if (!parsed.sourceGroupUrl) {
+        throw new Error('请指定源分组URL，例如: mgitlab discover https://gitlab.example.com/old-group');
+      }
+      const discoverer = new GitLabMigrator(parsed.moveFilePath!, [], parsed.accessToken || process.env.GITLAB_ACCESS_TOKEN, false, parsed.quietMode, {
+        sourceAccessToken: parsed.sourceAccessToken || process.env.SOURCE_GITLAB_ACCESS_TOKEN
+      });
+      await discoverer.discover(parsed.sourceGroupUrl, {
+        includeSubgroups: parsed.includeSubgroups,
+        includeArchived: parsed.includeArchived,
+        includeForks: parsed.includeForks,
+        useSshUrl: parsed.useSshUrl
+      });
+      return;
+    }
+    
+    if (parsed.command === 'import-bundles' && !parsed.bundleDir) {
+      throw new Error('请指定 export-bundles 生成的目录，例如: mgitlab import-bundles ./bundles');
+    }
+    
+    // 处理 migrate / plan / sync / status / rollback / export-bundles / import-bundles 命令
+    if (parsed.command === 'migrate' || parsed.command === 'plan' || parsed.command === 'sync' || parsed.command === 'status' || parsed.command === 'rollback' || parsed.command === 'export-bundles' || parsed.command === 'import-bundles') {
       console.log('🚀 GitLab 项目迁移工具启动');
       console.log('📋 正在读取迁移配置...');
       
@@ -3344,13 +8464,101 @@ async function main() {
       
       // 获取 Access Token（优先级：命令行参数 > 环境变量）
       const accessToken = parsed.accessToken || process.env.GITLAB_ACCESS_TOKEN;
+      const options: TMigratorOptions = {
+        concurrency: parsed.concurrency,
+        sourceAccessToken: parsed.sourceAccessToken || process.env.SOURCE_GITLAB_ACCESS_TOKEN,
+        withIssues: parsed.withIssues,
+        withMergeRequests: parsed.withMergeRequests,
+        pushRefs: parsed.pushRefs,
+        pullMirror: parsed.pullMirror,
+        pushMirror: parsed.pushMirror,
+        preserveSubgroups: parsed.preserveSubgroups,
+        sourceGroup: parsed.sourceGroup,
+        withProtections: parsed.withProtections,
+        withLabels: parsed.withLabels,
+        withMilestones: parsed.withMilestones,
+        withReleases: parsed.withReleases,
+        withVariables: parsed.withVariables,
+        skipVariablePatterns: parsed.skipVariablePatterns,
+        withMembers: parsed.withMembers,
+        withGroupMembers: parsed.withGroupMembers,
+        userMap: parsed.userMapFile ? loadUserMap(path.resolve(parsed.userMapFile)) : undefined,
+        withSettings: parsed.withSettings,
+        settingsAttributes: parsed.settingsAttributes,
+        mode: parsed.mode,
+        onConflict: parsed.onConflict,
+        renamePattern: parsed.renamePattern
+      };
+      
+      // 计划模式：只读检查，不写入迁移日志
+      if (parsed.command === 'plan') {
+        const planner = new GitLabMigrator(parsed.moveFilePath!, selectedProjects, accessToken, parsed.skipFinalClone, parsed.quietMode, options);
+        const plan = await planner.plan();
+        console.log(planner.formatMigrationPlan(plan));
+        
+        if (parsed.jsonOutput) {
+          const jsonPath = path.resolve(parsed.jsonOutput);
+          writeFileSync(jsonPath, JSON.stringify(plan, null, 2), 'utf-8');
+          console.log(ConsoleColors.success(`迁移计划已写入: ${jsonPath}`));
+        }
+        
+        // 清理预检查创建的临时目录
+        cleanupOnExit();
+        return;
+      }
       
       // 创建迁移器实例
-      migrator = new GitLabMigrator(parsed.moveFilePath!, selectedProjects, accessToken, parsed.skipFinalClone, parsed.quietMode);
+      migrator = new GitLabMigrator(parsed.moveFilePath!, selectedProjects, accessToken, parsed.skipFinalClone, parsed.quietMode, options);
       
       // 注册退出处理器（传入 migrator 实例）
       registerExitHandlers(migrator);
       
+      // 查看迁移和镜像同步状态
+      if (parsed.command === 'status') {
+        await migrator.status();
+        cleanupOnExit(migrator);
+        return;
+      }
+      
+      // 回滚本工具创建的目标项目
+      if (parsed.command === 'rollback') {
+        const rolledBack = await migrator.rollback({ archive: parsed.archive, yes: parsed.yes });
+        cleanupOnExit(migrator);
+        if (!rolledBack) {
+          process.exitCode = 1;
+        }
+        return;
+      }
+      
+      // 离线迁移：在能访问源仓库的网络中导出 bundle
+      if (parsed.command === 'export-bundles') {
+        const exported = await migrator.exportBundles(path.resolve(parsed.bundleDir || 'bundles'));
+        cleanupOnExit(migrator);
+        if (!exported) {
+          process.exitCode = 1;
+        }
+        return;
+      }
+      
+      // 离线迁移：在目标网络中从 bundle 导入
+      if (parsed.command === 'import-bundles') {
+        await migrator.importBundles(path.resolve(parsed.bundleDir!));
+        console.log(migrator.generateMigrationReport());
+        console.log('\n🎉 离线导入完成！');
+        cleanupOnExit(migrator);
+        return;
+      }
+      
+      // 增量同步已完成迁移的项目
+      if (parsed.command === 'sync') {
+        const synced = await migrator.sync(parsed.force);
+        cleanupOnExit(migrator);
+        if (!synced) {
+          process.exitCode = 1;
+        }
+        return;
+      }
+      
       // 执行迁移
       await migrator.migrate();
       
@@ -3389,4 +8597,4 @@ if (process.argv[1] && import.meta.url.endsWith(process.argv[1].replace(/\\/g, '
   main();
 }
 
-export { GitLabMigrator, type TRepository, type TMigrationConfig, type TMigrationLog };
\ No newline at end of file
+export { GitLabMigrator, type TRepository, type TMigrationConfig, type TMigrationLog, type TMigrationState };
\ No newline at end of file